@@ -0,0 +1,470 @@
+import fs from "fs";
+import fsPromises from "fs/promises";
+import path from "path";
+import { DEFAULT_PROFILE } from "./credentials.js";
+
+/** Tools that spend Freepik credits, and so take a `confirm` argument */
+export const PAID_TOOLS = [
+  "download_icon",
+  "download_resource",
+  "download_resource_format",
+  "generate_icon",
+  "generate_icon_preview",
+  "generate_mystic",
+  "generate_flux_dev",
+  "reimagine_flux",
+  "upscale_image",
+  "remove_background",
+  "expand_image",
+] as const;
+
+export type PaidTool = (typeof PAID_TOOLS)[number];
+
+type ArgumentValue = string | number | boolean;
+
+/**
+ * Cost of a call whose arguments match `when`. A value given as a list matches
+ * any of its items; an argument the call leaves out matches nothing.
+ */
+export interface CostRule {
+  when?: Record<string, ArgumentValue | ArgumentValue[]>;
+  credits: number;
+}
+
+/** Rules per paid tool, tried in order; the first match sets the cost */
+export type CostTable = Record<PaidTool, CostRule[]>;
+
+/**
+ * Estimates for a typical plan, meant to be replaced through
+ * `FREEPIK_COST_TABLE` with the prices of the account in use.
+ */
+export const DEFAULT_COST_TABLE: CostTable = {
+  download_icon: [{ credits: 1 }],
+  download_resource: [{ credits: 1 }],
+  download_resource_format: [{ credits: 1 }],
+  generate_icon: [{ credits: 2 }],
+  generate_icon_preview: [{ credits: 1 }],
+  generate_mystic: [{ when: { resolution: "4k" }, credits: 8 }, { when: { resolution: "2k" }, credits: 4 }, { credits: 2 }],
+  generate_flux_dev: [{ credits: 2 }],
+  reimagine_flux: [{ credits: 2 }],
+  upscale_image: [
+    { when: { scale_factor: "16x" }, credits: 40 },
+    { when: { scale_factor: "8x" }, credits: 20 },
+    { when: { scale_factor: "4x" }, credits: 10 },
+    { credits: 5 },
+  ],
+  remove_background: [{ credits: 1 }],
+  expand_image: [{ credits: 4 }],
+};
+
+/** What happens when a call would take spending past a budget */
+export type BudgetEnforcement = "refuse" | "confirm";
+
+function isArgumentValue(value: unknown): value is ArgumentValue {
+  return ["string", "number", "boolean"].includes(typeof value);
+}
+
+function parseCostRules(tool: string, value: unknown): CostRule[] {
+  if (typeof value === "number" && value >= 0) return [{ credits: value }];
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`FREEPIK_COST_TABLE.${tool} must be a number of credits or a list of rules`);
+  }
+  return value.map((rule, index) => {
+    const where = `FREEPIK_COST_TABLE.${tool}[${index}]`;
+    if (!rule || typeof rule !== "object" || typeof rule.credits !== "number" || rule.credits < 0) {
+      throw new Error(`${where} must be an object with a non-negative number of credits`);
+    }
+    const when = rule.when ?? {};
+    if (typeof when !== "object" || Array.isArray(when)) {
+      throw new Error(`${where}.when must be an object of argument values`);
+    }
+    for (const [name, expected] of Object.entries(when)) {
+      const values = Array.isArray(expected) ? expected : [expected];
+      if (values.length === 0 || !values.every(isArgumentValue)) {
+        throw new Error(`${where}.when.${name} must be a string, number or boolean, or a list of them`);
+      }
+    }
+    return { ...(rule.when ? { when } : {}), credits: rule.credits } as CostRule;
+  });
+}
+
+/**
+ * Parses `FREEPIK_COST_TABLE`: a JSON object, or the path of a JSON file,
+ * keyed by paid tool. Each value is a flat number of credits or a list of
+ * rules, and replaces that tool's default rules.
+ */
+export function parseCostTable(value: string | undefined): CostTable {
+  const table = { ...DEFAULT_COST_TABLE };
+  if (!value?.trim()) return table;
+
+  let json = value;
+  if (!value.trim().startsWith("{")) {
+    try {
+      json = fs.readFileSync(value.trim(), "utf8");
+    } catch (error) {
+      throw new Error(`FREEPIK_COST_TABLE file ${value.trim()} cannot be read: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(json);
+  } catch {
+    throw new Error("FREEPIK_COST_TABLE is not valid JSON");
+  }
+  if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+    throw new Error("FREEPIK_COST_TABLE must be a JSON object keyed by tool name");
+  }
+
+  for (const [tool, rules] of Object.entries(overrides)) {
+    if (!PAID_TOOLS.includes(tool as PaidTool)) {
+      throw new Error(`FREEPIK_COST_TABLE has an unknown tool "${tool}" (expected one of: ${PAID_TOOLS.join(", ")})`);
+    }
+    table[tool as PaidTool] = parseCostRules(tool, rules);
+  }
+  return table;
+}
+
+function ruleMatches(rule: CostRule, args: Record<string, unknown>): boolean {
+  return Object.entries(rule.when ?? {}).every(([name, expected]) =>
+    (Array.isArray(expected) ? expected : [expected]).some((value) => args[name] === value)
+  );
+}
+
+/**
+ * Credits a call is expected to spend, or undefined for tools that are free.
+ * A paid tool whose rules match none of the arguments costs nothing.
+ */
+export function estimateCost(table: CostTable, tool: string, args: Record<string, unknown>): number | undefined {
+  const rules = table[tool as PaidTool];
+  if (!rules) return undefined;
+  return rules.find((rule) => ruleMatches(rule, args))?.credits ?? 0;
+}
+
+export type BudgetErrorCode = "confirmation_required" | "budget_exceeded";
+
+/**
+ * A paid call stopped before anything was sent to Freepik, either because it
+ * needs `confirm: true` or because it would overrun a budget.
+ */
+export class BudgetError extends Error {
+  constructor(
+    message: string,
+    public tool: string,
+    public code: BudgetErrorCode,
+    public credits: number,
+    public hint: string
+  ) {
+    super(message);
+    this.name = "BudgetError";
+  }
+}
+
+/** One paid call, as recorded in the usage file */
+export interface UsageCharge {
+  /** ISO timestamp */
+  at: string;
+  /** Local calendar day the charge counts towards, `YYYY-MM-DD` */
+  date: string;
+  tool: string;
+  credits: number;
+  /** Identifies the server session that made the call */
+  session: string;
+  /** Key profile the call was billed to; missing from records written before profiles existed */
+  profile?: string;
+}
+
+export interface SpendingGuardOptions {
+  costTable: CostTable;
+  /** Credits that may be spent per local calendar day */
+  dailyBudget?: number;
+  /** Credits that may be spent per MCP session */
+  sessionBudget?: number;
+  /** Calls estimated above this many credits need `confirm: true` */
+  confirmAbove?: number;
+  enforcement: BudgetEnforcement;
+  /** JSON-lines file that keeps daily spend across restarts */
+  usageFile?: string;
+}
+
+/** The MCP session a call belongs to */
+export interface SpendingSession {
+  id: string;
+  /** ISO timestamp */
+  started_at: string;
+  /** Key profile the session's calls are billed to */
+  profile: string;
+}
+
+export interface SpendSummary {
+  credits: number;
+  calls: number;
+  budget?: number;
+  remaining?: number;
+}
+
+export interface UsageReport {
+  date: string;
+  session_started_at: string;
+  /** Key profile of the session */
+  profile: string;
+  today: SpendSummary;
+  session: SpendSummary;
+  /** Today's spend per tool, most expensive first */
+  by_tool: Array<{ tool: string; calls: number; credits: number }>;
+  /** Today's spend per key profile, most expensive first */
+  by_profile: Array<{ profile: string; calls: number; credits: number }>;
+  /** Credits currently reserved by calls in progress, in any session */
+  in_progress: number;
+  confirm_above?: number;
+  enforcement: BudgetEnforcement;
+}
+
+/**
+ * Credits held for a call in progress. `commit` charges them once Freepik has
+ * accepted the paid request; `release` frees them unless already committed.
+ */
+export interface Reservation {
+  credits: number;
+  commit(): void;
+  release(): void;
+}
+
+/** Calls and credits spent by one tool and key profile, or by one session */
+interface SpendTotals {
+  calls: number;
+  credits: number;
+}
+
+function localDate(date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function formatCredits(credits: number): string {
+  return `${Number(credits.toFixed(2))} credit${credits === 1 ? "" : "s"}`;
+}
+
+function summarize(totals: SpendTotals[], budget: number | undefined): SpendSummary {
+  const credits = totals.reduce((total, entry) => total + entry.credits, 0);
+  return {
+    credits,
+    calls: totals.reduce((total, entry) => total + entry.calls, 0),
+    ...(budget !== undefined ? { budget, remaining: Math.max(0, budget - credits) } : {}),
+  };
+}
+
+/**
+ * Checks every paid call against the cost table and the budgets before it is
+ * made, and records what was spent.
+ *
+ * One guard is shared by every session: the daily budget covers them all,
+ * while the session budget applies to each separately. A call's estimate is
+ * reserved while it runs, so parallel calls cannot overrun a budget together.
+ * A call is charged as soon as Freepik accepts its paid request, even if the
+ * call fails later on. Charges are appended to the usage file, which is read
+ * back on start so the daily budget holds across restarts. In memory, spend is
+ * only kept as totals for today and for each open session.
+ */
+export class SpendingGuard {
+  /** Local calendar day that `daily` counts */
+  private day = localDate();
+  /** Today's spend per tool and key profile */
+  private daily = new Map<string, SpendTotals & { tool: string; profile: string }>();
+  /** Spend per session, until the session ends */
+  private sessions = new Map<string, SpendTotals>();
+  /** Credits reserved by calls in progress, per session */
+  private reserved = new Map<string, number>();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private options: SpendingGuardOptions) {}
+
+  /** Reads today's charges from the usage file, skipping lines that cannot be parsed */
+  async load() {
+    if (!this.options.usageFile) return;
+    let content: string;
+    try {
+      content = await fsPromises.readFile(this.options.usageFile, "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return;
+      throw error;
+    }
+
+    const today = localDate();
+    for (const line of content.split("\n").filter((candidate) => candidate.trim())) {
+      try {
+        const charge = JSON.parse(line) as UsageCharge;
+        if (charge?.date === today && typeof charge.credits === "number") this.addToDay(charge);
+      } catch {
+        // A line cut short by a crash.
+      }
+    }
+  }
+
+  estimate(tool: string, args: Record<string, unknown>): number | undefined {
+    return estimateCost(this.options.costTable, tool, args);
+  }
+
+  /**
+   * Reserves the estimated cost of a call, or throws a BudgetError when the
+   * call needs confirmation or would overrun a budget. Returns undefined for
+   * free calls.
+   */
+  authorize(tool: string, args: Record<string, unknown>, session: SpendingSession): Reservation | undefined {
+    const credits = this.estimate(tool, args);
+    if (!credits) return undefined;
+    const confirmed = args.confirm === true;
+    const cost = `${tool} is estimated at ${formatCredits(credits)}`;
+
+    const overrun = this.overrun(credits, session);
+    if (overrun && (this.options.enforcement === "refuse" || !confirmed)) {
+      const refused = this.options.enforcement === "refuse";
+      throw new BudgetError(
+        `${cost}, which would exceed ${overrun}`,
+        tool,
+        refused ? "budget_exceeded" : "confirmation_required",
+        credits,
+        refused
+          ? "Nothing was sent to Freepik. Tell the user the budget is used up; call get_usage for the details."
+          : "Nothing was sent to Freepik. Ask the user whether to go over the budget, and only then call again with confirm: true."
+      );
+    }
+    if (!overrun && this.options.confirmAbove !== undefined && credits > this.options.confirmAbove && !confirmed) {
+      throw new BudgetError(
+        `${cost}, above the ${formatCredits(this.options.confirmAbove)} that can be spent without confirmation`,
+        tool,
+        "confirmation_required",
+        credits,
+        "Nothing was sent to Freepik. Ask the user to approve the cost, and only then call again with confirm: true."
+      );
+    }
+
+    this.reserve(session.id, credits);
+    let settled = false;
+    const settle = () => {
+      if (settled) return false;
+      settled = true;
+      this.reserve(session.id, -credits);
+      return true;
+    };
+    return {
+      credits,
+      commit: () => {
+        if (settle()) this.charge(tool, credits, session);
+      },
+      release: () => void settle(),
+    };
+  }
+
+  /** Forgets the spend of a session that has closed */
+  endSession(sessionId: string) {
+    this.sessions.delete(sessionId);
+  }
+
+  usage(session: SpendingSession): UsageReport {
+    this.rollOver();
+    const todays = [...this.daily.values()];
+    const byTool = new Map<string, { tool: string; calls: number; credits: number }>();
+    const byProfile = new Map<string, { profile: string; calls: number; credits: number }>();
+    for (const { tool, profile, calls, credits } of todays) {
+      const entry = byTool.get(tool) ?? { tool, calls: 0, credits: 0 };
+      entry.calls += calls;
+      entry.credits += credits;
+      byTool.set(tool, entry);
+
+      const profileEntry = byProfile.get(profile) ?? { profile, calls: 0, credits: 0 };
+      profileEntry.calls += calls;
+      profileEntry.credits += credits;
+      byProfile.set(profile, profileEntry);
+    }
+    const sessionTotals = this.sessions.get(session.id);
+
+    return {
+      date: this.day,
+      session_started_at: session.started_at,
+      profile: session.profile,
+      today: summarize(todays, this.options.dailyBudget),
+      session: summarize(sessionTotals ? [sessionTotals] : [], this.options.sessionBudget),
+      by_tool: [...byTool.values()].sort((a, b) => b.credits - a.credits),
+      by_profile: [...byProfile.values()].sort((a, b) => b.credits - a.credits),
+      in_progress: [...this.reserved.values()].reduce((total, credits) => total + credits, 0),
+      ...(this.options.confirmAbove !== undefined ? { confirm_above: this.options.confirmAbove } : {}),
+      enforcement: this.options.enforcement,
+    };
+  }
+
+  /** Resolves once every queued write has reached the usage file */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  /** Describes the first budget the call would overrun, counting calls still in progress */
+  private overrun(credits: number, session: SpendingSession): string | undefined {
+    const { today, session: current, in_progress } = this.usage(session);
+    const limits: Array<[string, SpendSummary, number]> = [
+      ["the daily budget", today, in_progress],
+      ["the session budget", current, this.reserved.get(session.id) ?? 0],
+    ];
+    for (const [name, summary, reserved] of limits) {
+      if (summary.budget === undefined) continue;
+      const committed = summary.credits + reserved;
+      if (committed + credits > summary.budget) {
+        return `${name} of ${formatCredits(summary.budget)} (${formatCredits(committed)} spent or in progress)`;
+      }
+    }
+    return undefined;
+  }
+
+  private reserve(sessionId: string, credits: number) {
+    const reserved = (this.reserved.get(sessionId) ?? 0) + credits;
+    if (reserved > 0) this.reserved.set(sessionId, reserved);
+    else this.reserved.delete(sessionId);
+  }
+
+  /** Starts counting a new day once the local date has changed */
+  private rollOver() {
+    const today = localDate();
+    if (today === this.day) return;
+    this.day = today;
+    this.daily.clear();
+  }
+
+  private addToDay(charge: UsageCharge) {
+    const profile = charge.profile ?? DEFAULT_PROFILE;
+    const key = `${charge.tool}\u0000${profile}`;
+    const entry = this.daily.get(key) ?? { tool: charge.tool, profile, calls: 0, credits: 0 };
+    entry.calls++;
+    entry.credits += charge.credits;
+    this.daily.set(key, entry);
+  }
+
+  private charge(tool: string, credits: number, session: SpendingSession) {
+    const now = new Date();
+    const charge: UsageCharge = {
+      at: now.toISOString(),
+      date: localDate(now),
+      tool,
+      credits,
+      session: session.id,
+      profile: session.profile,
+    };
+    this.rollOver();
+    this.addToDay(charge);
+    const sessionTotals = this.sessions.get(session.id) ?? { calls: 0, credits: 0 };
+    sessionTotals.calls++;
+    sessionTotals.credits += credits;
+    this.sessions.set(session.id, sessionTotals);
+
+    const usageFile = this.options.usageFile;
+    if (!usageFile) return;
+    const line = `${JSON.stringify(charge)}\n`;
+    this.writes = this.writes
+      .then(async () => {
+        await fsPromises.mkdir(path.dirname(usageFile), { recursive: true });
+        await fsPromises.appendFile(usageFile, line, "utf8");
+      })
+      .catch((error) => {
+        process.stderr.write(`Failed to write usage file ${usageFile}: ${error}\n`);
+      });
+  }
+}
@@ -0,0 +1,222 @@
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { URLSearchParams } from "url";
+
+/** Lookups that may be cached; download URLs and AI tasks never are */
+export type CacheEndpoint = "resources" | "icons" | "resource_details";
+
+/** Per-call override: skip the cache entirely, or skip reading but store the fresh response */
+export type CacheMode = "bypass" | "refresh";
+
+export type CacheStatus = "hit" | "miss" | CacheMode;
+
+/** How a response was served, reported alongside the tool result */
+export interface CacheInfo {
+  status: CacheStatus;
+  /** Seconds since the cached response was stored, for hits */
+  age_seconds?: number;
+}
+
+export interface ResponseCacheOptions {
+  /** Most responses kept in memory; the least recently used is evicted first */
+  maxEntries: number;
+  /** Seconds a response stays fresh, per endpoint; 0 disables caching that endpoint */
+  ttlSeconds: Record<CacheEndpoint, number>;
+  /** Directory that also stores responses, so they survive restarts */
+  directory?: string;
+}
+
+export interface CacheEndpointStats {
+  endpoint: CacheEndpoint;
+  ttl_seconds: number;
+  hits: number;
+  misses: number;
+  /** Calls with `cache: "bypass"` or `cache: "refresh"` */
+  bypassed: number;
+}
+
+interface CacheRecord {
+  key: string;
+  stored_at: number;
+  expires_at: number;
+  value: unknown;
+}
+
+const CACHE_ENDPOINTS: CacheEndpoint[] = ["resources", "icons", "resource_details"];
+
+const cacheReports = new AsyncLocalStorage<CacheInfo[]>();
+
+/**
+ * Runs `fn`, returning how the last cached lookup it made was served, so a
+ * tool can report cache hits from a client call that only returns the data.
+ */
+export async function collectCacheInfo<T>(fn: () => Promise<T>): Promise<{ value: T; cache?: CacheInfo }> {
+  const reports: CacheInfo[] = [];
+  const value = await cacheReports.run(reports, fn);
+  return { value, cache: reports[reports.length - 1] };
+}
+
+/**
+ * Builds a cache key that ignores parameter order, surrounding whitespace and
+ * the letter case of the search term, so equivalent lookups share an entry.
+ */
+export function cacheKey(baseUrl: string, path: string, params?: URLSearchParams): string {
+  const normalized = [...(params ?? new URLSearchParams()).entries()]
+    .map(([name, value]): [string, string] => {
+      const trimmed = value.trim().replace(/\s+/g, " ");
+      return [name, name === "term" ? trimmed.toLowerCase() : trimmed];
+    })
+    .filter(([, value]) => value !== "")
+    .sort(([a, aValue], [b, bValue]) => a.localeCompare(b) || aValue.localeCompare(bValue));
+  return `${baseUrl}${path}?${new URLSearchParams(normalized).toString()}`;
+}
+
+/**
+ * Cache for read-only Freepik lookups: an in-memory LRU, optionally backed by
+ * one JSON file per response in a directory. Disk errors are logged and
+ * otherwise ignored, so a broken cache only costs API calls.
+ */
+export class ResponseCache {
+  private memory = new Map<string, CacheRecord>();
+  private stats = new Map<CacheEndpoint, CacheEndpointStats>();
+
+  constructor(private options: ResponseCacheOptions) {
+    for (const endpoint of CACHE_ENDPOINTS) {
+      this.stats.set(endpoint, { endpoint, ttl_seconds: options.ttlSeconds[endpoint], hits: 0, misses: 0, bypassed: 0 });
+    }
+  }
+
+  get size(): number {
+    return this.memory.size;
+  }
+
+  /**
+   * Returns the cached response for `key`, or calls `load` and stores its
+   * result. Returns no cache info when the endpoint is not cached.
+   */
+  async fetch<T>(
+    endpoint: CacheEndpoint,
+    key: string,
+    mode: CacheMode | undefined,
+    load: () => Promise<T>
+  ): Promise<{ value: T; cache?: CacheInfo }> {
+    const result = await this.lookup(endpoint, key, mode, load);
+    if (result.cache) cacheReports.getStore()?.push(result.cache);
+    return result;
+  }
+
+  private async lookup<T>(
+    endpoint: CacheEndpoint,
+    key: string,
+    mode: CacheMode | undefined,
+    load: () => Promise<T>
+  ): Promise<{ value: T; cache?: CacheInfo }> {
+    const ttlMs = this.options.ttlSeconds[endpoint] * 1000;
+    if (ttlMs <= 0) return { value: await load() };
+    const stats = this.stats.get(endpoint)!;
+
+    if (mode === "bypass") {
+      stats.bypassed++;
+      return { value: await load(), cache: { status: "bypass" } };
+    }
+
+    if (mode !== "refresh") {
+      const record = await this.read(key);
+      if (record) {
+        stats.hits++;
+        return {
+          value: record.value as T,
+          cache: { status: "hit", age_seconds: Math.round((Date.now() - record.stored_at) / 1000) },
+        };
+      }
+    }
+
+    const value = await load();
+    const now = Date.now();
+    this.store({ key, stored_at: now, expires_at: now + ttlMs, value });
+    if (mode === "refresh") {
+      stats.bypassed++;
+      return { value, cache: { status: "refresh" } };
+    }
+    stats.misses++;
+    return { value, cache: { status: "miss" } };
+  }
+
+  endpointStats(): CacheEndpointStats[] {
+    return [...this.stats.values()].map((stats) => ({ ...stats }));
+  }
+
+  /** Deletes expired and unreadable files from the cache directory */
+  async prune() {
+    const directory = this.options.directory;
+    if (!directory) return;
+    let names: string[];
+    try {
+      names = await fs.readdir(directory);
+    } catch {
+      return;
+    }
+    for (const name of names.filter((candidate) => candidate.endsWith(".json"))) {
+      const filePath = path.join(directory, name);
+      try {
+        const record = JSON.parse(await fs.readFile(filePath, "utf8")) as CacheRecord;
+        if (record.expires_at > Date.now()) continue;
+      } catch {
+        // Unreadable: fall through and remove it.
+      }
+      await fs.rm(filePath, { force: true });
+    }
+  }
+
+  private async read(key: string): Promise<CacheRecord | undefined> {
+    const cached = this.memory.get(key);
+    if (cached && cached.expires_at > Date.now()) {
+      // Re-insert so the map stays ordered from least to most recently used.
+      this.memory.delete(key);
+      this.memory.set(key, cached);
+      return cached;
+    }
+    this.memory.delete(key);
+
+    if (!this.options.directory) return undefined;
+    try {
+      const record = JSON.parse(await fs.readFile(this.filePath(key), "utf8")) as CacheRecord;
+      if (record.key !== key || record.expires_at <= Date.now()) return undefined;
+      this.remember(record);
+      return record;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private store(record: CacheRecord) {
+    this.remember(record);
+    const directory = this.options.directory;
+    if (!directory) return;
+
+    const filePath = this.filePath(record.key);
+    const tempPath = `${filePath}.${crypto.randomBytes(6).toString("hex")}.tmp`;
+    void fs
+      .mkdir(directory, { recursive: true })
+      .then(() => fs.writeFile(tempPath, JSON.stringify(record), "utf8"))
+      .then(() => fs.rename(tempPath, filePath))
+      .catch(async (error) => {
+        process.stderr.write(`Failed to write cache file ${filePath}: ${error}\n`);
+        await fs.rm(tempPath, { force: true });
+      });
+  }
+
+  private remember(record: CacheRecord) {
+    this.memory.delete(record.key);
+    this.memory.set(record.key, record);
+    while (this.memory.size > this.options.maxEntries) {
+      this.memory.delete(this.memory.keys().next().value as string);
+    }
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.options.directory!, `${crypto.createHash("sha256").update(key).digest("hex")}.json`);
+  }
+}
@@ -0,0 +1,417 @@
+#!/usr/bin/env node
+
+import path from "path";
+import { parseArgs } from "util";
+import { loadConfig, ServerConfig } from "./config.js";
+import { downloadToDirectory, formatSavedFile, SavedFile } from "./downloads.js";
+import { createServer, ToolResult } from "./index.js";
+import { FreepikServices } from "./services.js";
+import { ToolDefinition, TOOLS } from "./tools.js";
+import { JsonSchema } from "./validation.js";
+
+/** Exit status of the `freepik` command */
+const EXIT_CODES = {
+  ok: 0,
+  /** The tool call failed, or the task it reported has FAILED */
+  failed: 1,
+  /** Unknown command or option, invalid arguments, or missing configuration */
+  usage: 2,
+  /** The call needs `--confirm`, or a spending budget would be exceeded */
+  needsApproval: 3,
+  /** Waiting stopped before the task finished */
+  timedOut: 4,
+} as const;
+
+/** A `freepik` subcommand and the MCP tool it calls */
+interface Command {
+  /** Words that select the command, e.g. `["icons", "download"]` */
+  words: string[];
+  tool: string;
+  /** Tool arguments taken from positional arguments, in order */
+  positionals?: string[];
+}
+
+const COMMANDS: Command[] = [
+  { words: ["search"], tool: "search_resources", positionals: ["query"] },
+  { words: ["resources", "get"], tool: "get_resource_details", positionals: ["resource_id"] },
+  { words: ["resources", "download"], tool: "download_resource", positionals: ["resource_id"] },
+  { words: ["resources", "download-format"], tool: "download_resource_format", positionals: ["resource_id", "format"] },
+  { words: ["icons", "search"], tool: "search_icons", positionals: ["term"] },
+  { words: ["icons", "download"], tool: "download_icon", positionals: ["icon_id"] },
+  { words: ["icons", "generate"], tool: "generate_icon", positionals: ["prompt"] },
+  { words: ["icons", "preview"], tool: "generate_icon_preview", positionals: ["prompt"] },
+  { words: ["icons", "render"], tool: "render_generated_icon", positionals: ["task_id"] },
+  { words: ["mystic"], tool: "generate_mystic", positionals: ["prompt"] },
+  { words: ["flux"], tool: "generate_flux_dev", positionals: ["prompt"] },
+  { words: ["reimagine"], tool: "reimagine_flux", positionals: ["image"] },
+  { words: ["upscale"], tool: "upscale_image", positionals: ["image"] },
+  { words: ["expand"], tool: "expand_image", positionals: ["image"] },
+  { words: ["remove-background"], tool: "remove_background", positionals: ["image_url"] },
+  { words: ["tasks", "list"], tool: "list_tasks" },
+  { words: ["tasks", "get"], tool: "get_task", positionals: ["task_id"] },
+  { words: ["tasks", "wait"], tool: "wait_for_task", positionals: ["task_id"] },
+  { words: ["tasks", "history"], tool: "search_task_history", positionals: ["query"] },
+  { words: ["webhooks", "events"], tool: "get_webhook_events", positionals: ["task_id"] },
+  { words: ["cache", "stats"], tool: "get_cache_stats" },
+  { words: ["usage"], tool: "get_usage" },
+];
+
+const SYNOPSIS_WIDTH = Math.max(...COMMANDS.map((command) => commandSynopsis(command).length)) + 2;
+
+const USAGE = `Usage: freepik <command> [arguments] [options]
+
+Commands:
+${COMMANDS.map((command) => `  ${commandSynopsis(command).padEnd(SYNOPSIS_WIDTH)}${command.tool}`).join("\n")}
+  ${"call <tool> [--args <json>]".padEnd(SYNOPSIS_WIDTH)}any tool, by name
+  ${"tools".padEnd(SYNOPSIS_WIDTH)}list every tool
+
+Options:
+  --json          Print the structured result as JSON
+  --table         Print the listed items as a table
+  -o, --out <dir> Save downloads and generated images to this directory
+  -y, --confirm   Approve the estimated credit cost of a paid call
+  -h, --help      Show the options of a command
+
+Exit status: 0 success, 1 the call or its task failed, 2 usage or argument
+error, 3 confirmation or budget needed, 4 waiting timed out.
+`;
+
+/** Thrown for a command line that cannot be run; reported with exit status 2 */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+function commandSynopsis(command: Command): string {
+  return [...command.words, ...(command.positionals ?? []).map((name) => `<${name}>`)].join(" ");
+}
+
+function optionName(argument: string): string {
+  return argument.replace(/_/g, "-");
+}
+
+function findTool(name: string): ToolDefinition {
+  const tool = TOOLS.find((candidate) => candidate.name === name);
+  if (!tool) throw new UsageError(`Unknown tool "${name}"; run "freepik tools" to list them`);
+  return tool;
+}
+
+/** Whether the tool's result carries a task whose generated images `--out` can save */
+function returnsTask(tool: ToolDefinition): boolean {
+  return Boolean((tool.outputSchema as { properties?: Record<string, unknown> }).properties?.task);
+}
+
+/**
+ * Converts an option value to the type its schema declares. Values that do not
+ * convert are passed on unchanged, so the tool's argument validation reports them.
+ */
+function coerce(schema: JsonSchema, value: string | boolean): unknown {
+  if (typeof value === "boolean") return value;
+  switch (schema.type) {
+    case "integer":
+    case "number":
+      return value.trim() !== "" && !Number.isNaN(Number(value)) ? Number(value) : value;
+    case "object":
+    case "array":
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    default:
+      return value;
+  }
+}
+
+interface Invocation {
+  tool: ToolDefinition;
+  args: Record<string, unknown>;
+  format: "text" | "json" | "table";
+  /** Directory that generated task images are saved to */
+  out?: string;
+}
+
+/**
+ * Turns a command line into a tool call. Every property of the tool's input
+ * schema is an option, with `_` written as `-`, e.g. `--png-size 256`.
+ * Returns undefined when help was printed instead.
+ */
+function parseCommandLine(argv: string[]): Invocation | undefined {
+  const command = COMMANDS.filter((candidate) => candidate.words.every((word, index) => argv[index] === word)).sort(
+    (a, b) => b.words.length - a.words.length
+  )[0];
+  let tool: ToolDefinition;
+  let rest: string[];
+  if (command) {
+    tool = findTool(command.tool);
+    rest = argv.slice(command.words.length);
+  } else if (argv[0] === "call") {
+    if (!argv[1] || argv[1].startsWith("-")) throw new UsageError("Name the tool to call: freepik call <tool>");
+    tool = findTool(argv[1]);
+    rest = argv.slice(2);
+  } else {
+    throw new UsageError(`Unknown command "${argv.join(" ")}"`);
+  }
+
+  const properties = tool.inputSchema.properties ?? {};
+  const savesFiles = "save_to" in properties || returnsTask(tool);
+  const options: Record<string, { type: "string" | "boolean"; short?: string }> = {
+    json: { type: "boolean" },
+    table: { type: "boolean" },
+    args: { type: "string" },
+    help: { type: "boolean", short: "h" },
+  };
+  for (const [name, schema] of Object.entries(properties)) {
+    options[optionName(name)] = { type: schema.type === "boolean" ? "boolean" : "string" };
+  }
+  if ("confirm" in properties) options.confirm.short = "y";
+  if (savesFiles) options.out = { type: "string", short: "o" };
+
+  let parsed;
+  try {
+    parsed = parseArgs({ args: rest, options, allowPositionals: true, strict: true });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    process.stdout.write(commandHelp(command, tool, savesFiles));
+    return undefined;
+  }
+  if (values.json && values.table) throw new UsageError("Use either --json or --table, not both");
+
+  let args: Record<string, unknown> = {};
+  if (typeof values.args === "string") {
+    try {
+      args = JSON.parse(values.args);
+    } catch {
+      throw new UsageError("--args must be a JSON object of tool arguments");
+    }
+    if (!args || typeof args !== "object" || Array.isArray(args)) {
+      throw new UsageError("--args must be a JSON object of tool arguments");
+    }
+  }
+
+  const names = command?.positionals ?? [];
+  if (positionals.length > names.length) {
+    throw new UsageError(
+      `Unexpected argument "${positionals[names.length]}"${names.length > 0 ? `; quote ${names[names.length - 1]} if it has spaces` : ""}`
+    );
+  }
+  positionals.forEach((value, index) => {
+    args[names[index]] = coerce(properties[names[index]], value);
+  });
+  for (const [name, schema] of Object.entries(properties)) {
+    const value = values[optionName(name)];
+    if (value !== undefined) args[name] = coerce(schema, value);
+  }
+
+  // Tools that save files themselves get the directory as save_to.
+  const out = typeof values.out === "string" ? values.out : undefined;
+  if (out !== undefined && "save_to" in properties) args.save_to = out;
+
+  return {
+    tool,
+    args,
+    format: values.json ? "json" : values.table ? "table" : "text",
+    out: out !== undefined && !("save_to" in properties) ? out : undefined,
+  };
+}
+
+function commandHelp(command: Command | undefined, tool: ToolDefinition, savesFiles: boolean): string {
+  const properties = tool.inputSchema.properties ?? {};
+  const positionals = command?.positionals ?? [];
+  const required = new Set(tool.inputSchema.required ?? []);
+  const synopsis = command ? commandSynopsis(command) : `call ${tool.name}`;
+
+  const rows: Array<[string, string]> = [];
+  for (const [name, schema] of Object.entries(properties)) {
+    if (positionals.includes(name)) continue;
+    const value = schema.type === "boolean" ? "" : schema.enum ? ` <${schema.enum.join("|")}>` : ` <${schema.type ?? "value"}>`;
+    const flag = `${name === "confirm" ? "-y, " : ""}--${optionName(name)}${value}`;
+    rows.push([flag, `${schema.description ?? ""}${required.has(name) ? " (required)" : ""}`]);
+  }
+  if (savesFiles) rows.push(["-o, --out <dir>", "Directory to save downloads and generated images to"]);
+  rows.push(["--args <json>", "Tool arguments as a JSON object; options above take precedence"]);
+  rows.push(["--json", "Print the structured result as JSON"]);
+  rows.push(["--table", "Print the listed items as a table"]);
+
+  const width = Math.min(Math.max(...rows.map(([flag]) => flag.length)) + 2, 40);
+  const argumentLines = positionals.map((name) => `  <${name}>  ${properties[name]?.description ?? ""}`).join("\n");
+  return `Usage: freepik ${synopsis} [options]\n\n${tool.description} (tool: ${tool.name})\n\n${
+    argumentLines ? `Arguments:\n${argumentLines}\n\n` : ""
+  }Options:\n${rows
+    .map(([flag, description]) => (flag.length + 2 > width ? `  ${flag}\n  ${"".padEnd(width)}${description}` : `  ${flag.padEnd(width)}${description}`))
+    .join("\n")}\n`;
+}
+
+/**
+ * Flattens nested objects into dotted keys and joins arrays of plain values,
+ * so a record fits in one table row. Arrays of objects are left out.
+ */
+function flatten(value: Record<string, unknown>, prefix = "", into: Record<string, string> = {}): Record<string, string> {
+  for (const [key, item] of Object.entries(value)) {
+    const name = `${prefix}${key}`;
+    if (item === null || item === undefined) continue;
+    if (Array.isArray(item)) {
+      const plain = item.every((element) => typeof element !== "object" || element === null);
+      if (plain && item.length > 0) into[name] = item.join(", ");
+    } else if (typeof item === "object") {
+      flatten(item as Record<string, unknown>, `${name}.`, into);
+    } else {
+      into[name] = String(item);
+    }
+  }
+  return into;
+}
+
+const MAX_CELL_WIDTH = 60;
+
+/**
+ * Renders the first list of records in a structured result, such as the
+ * resources of a search, as an aligned table. Results without a list are shown
+ * as field/value rows.
+ */
+function formatTable(data: Record<string, unknown>): string {
+  const list = Object.values(data).find(
+    (value): value is Array<Record<string, unknown>> =>
+      Array.isArray(value) && value.every((item) => item && typeof item === "object" && !Array.isArray(item))
+  );
+  const rows: Array<Record<string, string>> = list
+    ? list.map((item) => flatten(item))
+    : Object.entries(flatten(data)).map(([field, value]) => ({ field, value }));
+  if (rows.length === 0) return "(no results)\n";
+
+  const columns = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const cell = (value: string | undefined) => {
+    const text = (value ?? "").replace(/\s+/g, " ");
+    return text.length > MAX_CELL_WIDTH ? `${text.slice(0, MAX_CELL_WIDTH - 1)}…` : text;
+  };
+  const widths = columns.map((column) => Math.max(column.length, ...rows.map((row) => cell(row[column]).length)));
+  const line = (cells: string[]) => cells.map((text, index) => text.padEnd(widths[index])).join("  ").trimEnd();
+
+  return [
+    line(columns),
+    line(widths.map((width) => "-".repeat(width))),
+    ...rows.map((row) => line(columns.map((column) => cell(row[column])))),
+  ].join("\n") + "\n";
+}
+
+function exitCodeFor(result: ToolResult): number {
+  if (result.isError) {
+    const code = result._meta?.["freepik/error"]?.code;
+    if (code === "invalid_arguments" || code === "invalid_image") return EXIT_CODES.usage;
+    if (code === "confirmation_required" || code === "budget_exceeded") return EXIT_CODES.needsApproval;
+    return EXIT_CODES.failed;
+  }
+  if (result.structuredContent?.timed_out) return EXIT_CODES.timedOut;
+  if (result.structuredContent?.task?.status === "FAILED") return EXIT_CODES.failed;
+  return EXIT_CODES.ok;
+}
+
+/** Saves the generated images of a finished task, named after the task like `render_generated_icon` does */
+async function saveGenerated(services: FreepikServices, result: ToolResult, directory: string): Promise<SavedFile[]> {
+  const task = result.structuredContent?.task;
+  const generated: string[] = task?.generated ?? [];
+  if (result.isError || generated.length === 0) return [];
+
+  const saved: SavedFile[] = [];
+  for (const [index, url] of generated.entries()) {
+    const extension = path.extname(new URL(url).pathname) || ".png";
+    saved.push(await downloadToDirectory(url, directory, `${task.task_id}-${index + 1}${extension}`));
+  }
+  services.journal?.addFiles(task.task_id, saved);
+  return saved;
+}
+
+function printResult(result: ToolResult, format: Invocation["format"], saved: SavedFile[]) {
+  const text = result.content
+    .filter((block) => block.type === "text")
+    .map((block) => block.text)
+    .join("\n\n");
+
+  if (result.isError) {
+    if (format === "json") {
+      process.stdout.write(`${JSON.stringify({ error: result._meta?.["freepik/error"] }, null, 2)}\n`);
+    } else {
+      process.stderr.write(`${text}\n`);
+    }
+    return;
+  }
+
+  const preview = result._meta?.["freepik/dry_run"];
+  const data = preview
+    ? { dry_run: preview }
+    : { ...result.structuredContent, ...(saved.length > 0 ? { saved } : {}) };
+  if (format === "json") {
+    process.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
+  } else if (format === "table" && !preview) {
+    process.stdout.write(formatTable(data));
+  } else {
+    const files = saved.map(formatSavedFile).join("\n\n");
+    process.stdout.write(`${text}${files ? `\n\n**Saved Files:**\n${files}` : ""}\n`);
+  }
+}
+
+async function run(argv: string[]): Promise<number> {
+  if (argv.length === 0 || argv[0] === "--help" || argv[0] === "-h" || argv[0] === "help") {
+    if (argv.length === 0) {
+      process.stderr.write(USAGE);
+      return EXIT_CODES.usage;
+    }
+    process.stdout.write(USAGE);
+    return EXIT_CODES.ok;
+  }
+  if (argv[0] === "tools") {
+    for (const tool of TOOLS) process.stdout.write(`${tool.name.padEnd(28)}${tool.description}\n`);
+    return EXIT_CODES.ok;
+  }
+
+  const invocation = parseCommandLine(argv);
+  if (!invocation) return EXIT_CODES.ok;
+
+  // A one-off process is gone before Freepik could call a webhook receiver back,
+  // and it runs tools for the local user, so the HTTP transport's limits do not apply.
+  const config: ServerConfig = { ...loadConfig(), transport: "stdio", webhookPort: undefined };
+  if (!config.apiKey) throw new UsageError("FREEPIK_API_KEY environment variable is required");
+
+  const services = new FreepikServices(config);
+  await services.start();
+  try {
+    const session = createServer(services, services.credentialFor({})!);
+    const result = await session.callTool(invocation.tool.name, invocation.args);
+    const saved = invocation.out !== undefined ? await saveGenerated(services, result, invocation.out) : [];
+    printResult(result, invocation.format, saved);
+    if (invocation.out !== undefined && saved.length === 0 && !result.isError && !result._meta?.["freepik/dry_run"]) {
+      process.stderr.write("Nothing was saved: the task has no generated images yet (add --wait to wait for them)\n");
+    }
+    return exitCodeFor(result);
+  } finally {
+    await services.close();
+  }
+}
+
+if (require.main === module) {
+  // Output piped into a command like `head` may be cut short; that is not an error.
+  process.stdout.on("error", (error: NodeJS.ErrnoException) => {
+    if (error.code !== "EPIPE") throw error;
+    process.exit(process.exitCode ?? EXIT_CODES.ok);
+  });
+  run(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error) => {
+      if (error instanceof UsageError) {
+        process.stderr.write(`${error.message}\nRun "freepik --help" for usage.\n`);
+        process.exitCode = EXIT_CODES.usage;
+      } else {
+        process.stderr.write(`Error: ${error instanceof Error ? error.message : error}\n`);
+        process.exitCode = EXIT_CODES.failed;
+      }
+    }
+  );
+}
@@ -0,0 +1,225 @@
+import { URLSearchParams } from "url";
+import { CacheEndpoint, cacheKey, CacheMode, ResponseCache } from "./cache.js";
+import { DEFAULT_BASE_URL } from "./config.js";
+import { isDryRun } from "./dry-run.js";
+import { FreepikHttpClient } from "./http.js";
+import { RateLimiter, RateLimits } from "./rate-limit.js";
+import { AITask, TASK_KINDS, TaskKind, TaskService, WaitOptions } from "./tasks.js";
+import {
+  FreepikAITaskResponse,
+  FreepikDownloadResponse,
+  FreepikFluxDevRequest,
+  FreepikIconGenerationRequest,
+  FreepikIconGenerationResponse,
+  FreepikIconPreviewRequest,
+  FreepikIconResponse,
+  FreepikImageExpandRequest,
+  FreepikImageUpscalerRequest,
+  FreepikMysticRequest,
+  FreepikReimagineFluxRequest,
+  FreepikRemoveBackgroundResponse,
+  FreepikResource,
+  FreepikResponse,
+  IconDownloadOptions,
+  IconSearchParams,
+  ResourceDownloadOptions,
+  ResourceSearchParams,
+} from "./types.js";
+
+export interface FreepikClientOptions {
+  /** Sent with every request; required unless `http` is given */
+  apiKey?: string;
+  /** API base URL (default: https://api.freepik.com/v1) */
+  baseUrl?: string;
+  /** Per-attempt request timeout (default: 30000) */
+  timeoutMs?: number;
+  /** Retries of a rate-limited or failed request that is safe to repeat (default: 3) */
+  maxRetries?: number;
+  /** Longest wait between retries (default: 30000) */
+  maxRetryDelayMs?: number;
+  /** Client-side request limits per endpoint family; requests are not limited when unset */
+  rateLimits?: RateLimits;
+  /** Cache for searches and resource details; nothing is cached when unset */
+  cache?: ResponseCache;
+  /** Sends requests through this client instead of one built from the options above */
+  http?: FreepikHttpClient;
+}
+
+/** Per-call options of lookups that can be served from the cache */
+export interface LookupOptions {
+  cache?: CacheMode;
+}
+
+/**
+ * Typed client for the Freepik API: stock search and downloads, icons, and
+ * every AI task endpoint. Requests are retried and rate limited as described
+ * on `FreepikHttpClient`; failures are thrown as `FreepikApiError`.
+ *
+ * Creating a task remembers it in `tasks`, so it can later be looked up by ID
+ * alone. Generation methods return as soon as Freepik accepts the task; use
+ * `waitForTask` or a webhook for the result.
+ */
+export class FreepikClient {
+  readonly http: FreepikHttpClient;
+  readonly tasks: TaskService;
+  private cache?: ResponseCache;
+
+  constructor(options: FreepikClientOptions) {
+    if (options.http) {
+      this.http = options.http;
+    } else {
+      const { apiKey } = options;
+      if (!apiKey) throw new Error("FreepikClient needs an apiKey");
+      const connection = { baseUrl: (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, ""), apiKey };
+      this.http = new FreepikHttpClient(
+        () => connection,
+        {
+          timeoutMs: options.timeoutMs ?? 30_000,
+          maxRetries: options.maxRetries ?? 3,
+          maxDelayMs: options.maxRetryDelayMs ?? 30_000,
+        },
+        options.rateLimits ? new RateLimiter(options.rateLimits) : undefined
+      );
+    }
+    this.cache = options.cache;
+    this.tasks = new TaskService(this.http);
+  }
+
+  async searchResources(params: ResourceSearchParams = {}, options: LookupOptions = {}): Promise<FreepikResponse> {
+    const query = new URLSearchParams();
+    if (params.term) query.append("term", params.term);
+    query.append("page", String(params.page ?? 1));
+    query.append("limit", String(Math.min(params.limit ?? 20, 200)));
+    if (params.orientation) query.append("orientation", params.orientation);
+    if (params.order) query.append("order", params.order);
+    if (params.license) query.append("license", params.license);
+    if (params.content_type) query.append("content_type", params.content_type);
+    if (params.color) query.append("color", params.color);
+    if (params.people_age) query.append("people_age", params.people_age);
+    if (params.people_gender) query.append("people_gender", params.people_gender);
+    if (params.people_number) query.append("people_number", params.people_number);
+    if (params.people_ethnicity) query.append("people_ethnicity", params.people_ethnicity);
+    if (params.ai_generated !== undefined) query.append("ai_generated", String(params.ai_generated));
+    return this.cachedGet("resources", "/resources", query, options.cache);
+  }
+
+  async getResource(resourceId: string | number, options: LookupOptions = {}): Promise<FreepikResource> {
+    return this.cachedGet("resource_details", `/resources/${resourceId}`, undefined, options.cache);
+  }
+
+  async searchIcons(params: IconSearchParams = {}, options: LookupOptions = {}): Promise<FreepikIconResponse> {
+    const query = new URLSearchParams();
+    if (params.term) query.append("term", params.term);
+    if (params.slug) query.append("slug", params.slug);
+    query.append("page", String(params.page ?? 1));
+    query.append("per_page", String(params.per_page ?? 20));
+    if (params.family_id) query.append("family-id", String(params.family_id));
+    if (params.order) query.append("order", params.order);
+    if (params.color) query.append("color", params.color);
+    if (params.shape) query.append("shape", params.shape);
+    if (params.free_svg !== undefined) query.append("free_svg", String(params.free_svg));
+    return this.cachedGet("icons", "/icons", query, options.cache);
+  }
+
+  async downloadIcon(iconId: string | number, options: IconDownloadOptions = {}): Promise<FreepikDownloadResponse> {
+    const query = new URLSearchParams();
+    if (options.format) query.append("format", options.format);
+    if (options.format === "png" && options.png_size) query.append("png_size", String(options.png_size));
+    return this.http.get(`/icons/${iconId}/download`, query);
+  }
+
+  async downloadResource(resourceId: string | number, options: ResourceDownloadOptions = {}): Promise<FreepikDownloadResponse> {
+    const query = new URLSearchParams();
+    if (options.image_size && options.image_size !== "original") query.append("image_size", options.image_size);
+    return this.http.get(`/resources/${resourceId}/download`, query);
+  }
+
+  /** Downloads a resource in one of its source formats, e.g. `psd` or `svg` */
+  async downloadResourceFormat(resourceId: string | number, format: string): Promise<FreepikDownloadResponse> {
+    return this.http.get(`/resources/${resourceId}/download/${format}`);
+  }
+
+  async generateIcon(request: FreepikIconGenerationRequest): Promise<FreepikIconGenerationResponse> {
+    const response = await this.http.post<FreepikIconGenerationResponse>("/ai/text-to-icon", request);
+    this.tasks.remember("text_to_icon", response.task_id);
+    return response;
+  }
+
+  async generateIconPreview(request: FreepikIconPreviewRequest): Promise<FreepikIconGenerationResponse> {
+    const response = await this.http.post<FreepikIconGenerationResponse>("/ai/text-to-icon/preview", request);
+    this.tasks.remember("text_to_icon", response.task_id);
+    return response;
+  }
+
+  /** Renders a finished text-to-icon task; `generated` holds the URLs once it is done */
+  async renderGeneratedIcon(taskId: string, format: "png" | "svg" = "png"): Promise<FreepikIconGenerationResponse> {
+    return this.http.post(`/ai/text-to-icon/${encodeURIComponent(taskId)}/render/${format}`, {}, { idempotent: true });
+  }
+
+  async generateMystic(request: FreepikMysticRequest): Promise<FreepikAITaskResponse> {
+    return this.createTask("mystic", request);
+  }
+
+  async generateFluxDev(request: FreepikFluxDevRequest): Promise<FreepikAITaskResponse> {
+    return this.createTask("flux_dev", request);
+  }
+
+  async reimagineFlux(request: FreepikReimagineFluxRequest): Promise<FreepikAITaskResponse> {
+    return this.createTask("reimagine_flux", request);
+  }
+
+  async upscaleImage(request: FreepikImageUpscalerRequest): Promise<FreepikAITaskResponse> {
+    return this.createTask("upscaler", request);
+  }
+
+  async expandImage(request: FreepikImageExpandRequest): Promise<FreepikAITaskResponse> {
+    return this.createTask("expand", request);
+  }
+
+  /** Removes the background synchronously; the returned URLs expire after 5 minutes */
+  async removeBackground(imageUrl: string): Promise<FreepikRemoveBackgroundResponse> {
+    return this.http.post("/ai/beta/remove-background", `image_url=${encodeURIComponent(imageUrl)}`, { form: true });
+  }
+
+  async getTask(kind: TaskKind, taskId: string): Promise<AITask> {
+    return this.tasks.get(kind, taskId);
+  }
+
+  /** Fetches a task by ID, trying each task kind in turn when `kind` is unknown */
+  async findTask(taskId: string, kind?: TaskKind): Promise<AITask> {
+    return this.tasks.find(taskId, kind);
+  }
+
+  async listTasks(kind: TaskKind): Promise<AITask[]> {
+    return this.tasks.list(kind);
+  }
+
+  /** Polls a task until it completes or fails; throws `TaskTimeoutError` after `timeoutMs` */
+  async waitForTask(kind: TaskKind | undefined, taskId: string, options: WaitOptions): Promise<AITask> {
+    return this.tasks.wait(kind, taskId, options);
+  }
+
+  private async createTask(kind: TaskKind, request: object): Promise<FreepikAITaskResponse> {
+    const response = await this.http.post<FreepikAITaskResponse>(TASK_KINDS[kind].endpoint, request);
+    this.tasks.remember(kind, response.data.task_id);
+    return response;
+  }
+
+  /**
+   * GETs a read-only lookup through the response cache. Only searches and
+   * resource details go through here; download URLs expire and task status
+   * changes, so neither may be cached.
+   */
+  private async cachedGet<T>(
+    endpoint: CacheEndpoint,
+    apiPath: string,
+    params: URLSearchParams | undefined,
+    cacheMode: CacheMode | undefined
+  ): Promise<T> {
+    const load = () => this.http.get<T>(apiPath, params);
+    // A dry run must reach the http client to be previewed.
+    if (!this.cache || isDryRun()) return load();
+    const { value } = await this.cache.fetch(endpoint, cacheKey(this.http.baseUrl, apiPath, params), cacheMode, load);
+    return value;
+  }
+}
@@ -0,0 +1,284 @@
+import { parseArgs } from "util";
+import { BudgetEnforcement, CostTable, parseCostTable } from "./budget.js";
+import { KeyProfiles, parseCallerProfiles, parseKeyProfiles } from "./credentials.js";
+import { parseRateLimits, RateLimits } from "./rate-limit.js";
+
+export const DEFAULT_BASE_URL = "https://api.freepik.com/v1";
+
+export type TransportMode = "stdio" | "http";
+
+/** A client credential accepted by the HTTP transport */
+export interface HttpAuthToken {
+  /** Who the token belongs to, reported as the requester of their tasks */
+  caller: string;
+  token: string;
+}
+
+export interface ServerConfig {
+  /** Default API key, used by sessions without a key of their own */
+  apiKey: string;
+  /** Named API keys that HTTP callers can be billed to */
+  apiKeyProfiles: KeyProfiles;
+  /** Key profile per HTTP caller */
+  callerProfiles: Record<string, string>;
+  baseUrl: string;
+  fakeApi: boolean;
+  fakeApiPort: number;
+  /** How MCP clients connect: over stdio, or over HTTP with server-sent events */
+  transport: TransportMode;
+  httpPort: number;
+  httpHost: string;
+  /** Tokens MCP clients must present over HTTP; without any, only loopback hosts are allowed */
+  httpAuthTokens: HttpAuthToken[];
+  /** Browser origins allowed to call the HTTP transport; `*` allows any */
+  httpCorsOrigins: string[];
+  /** Most MCP sessions open at once over HTTP */
+  httpMaxSessions: number;
+  /** How long shutdown waits for running tool calls before closing sessions */
+  httpShutdownTimeoutSeconds: number;
+  /**
+   * Whether HTTP clients may use the host: read local image files, fetch image
+   * URLs on private networks and save downloads outside `outputDir`
+   */
+  httpLocalAccess: boolean;
+  /** Default directory for downloaded files; when unset, downloads only return URLs */
+  outputDir?: string;
+  /** Whether tool calls only preview their Freepik requests instead of sending them */
+  dryRun: boolean;
+  /** Whether tools embed result images as MCP image content by default */
+  includeImages: boolean;
+  imageMaxDimension: number;
+  imageMaxBytes: number;
+  /** Most images embedded in a single tool result */
+  imageMaxCount: number;
+  /** How often subscribed tasks are polled for status changes */
+  watchIntervalSeconds: number;
+  /** Timeout of a single Freepik API request */
+  requestTimeoutSeconds: number;
+  /** Retries of a failed Freepik API request that is safe to repeat */
+  maxRetries: number;
+  /** Longest wait between retries; a longer `Retry-After` fails the request instead */
+  maxRetryDelaySeconds: number;
+  /** Client-side rate and concurrency limits per endpoint family */
+  rateLimits: RateLimits;
+  /** Port of the built-in webhook receiver; the receiver is off when unset */
+  webhookPort?: number;
+  webhookHost: string;
+  /** Public origin forwarding to the webhook receiver, e.g. a tunnel */
+  webhookPublicUrl?: string;
+  /** Secret path segment of the callback URL; random when unset */
+  webhookToken?: string;
+  /** HTTP endpoints that receive task completion events */
+  notifyUrls: string[];
+  /** Shell command run with each task completion event on stdin */
+  notifyCommand?: string;
+  /** JSONL file each task completion event is appended to */
+  notifyFile?: string;
+  /** HMAC key used to sign task completion events */
+  notifySecret?: string;
+  /** Delivery attempts per sink before an event is dead-lettered */
+  notifyMaxAttempts: number;
+  notifyDeadLetterFile: string;
+  /** Name reported as the requester of each task; defaults to the OS user */
+  notifyRequester?: string;
+  /** JSON-lines file recording every AI task submitted; the journal is off when unset */
+  journalFile?: string;
+  /** Most search and resource-detail responses cached in memory; 0 disables the cache */
+  cacheMaxEntries: number;
+  /** Directory that also stores cached responses across restarts */
+  cacheDir?: string;
+  /** How long cached `search_resources` responses stay fresh */
+  cacheResourcesTtlSeconds: number;
+  /** How long cached `search_icons` responses stay fresh */
+  cacheIconsTtlSeconds: number;
+  /** How long cached `get_resource_details` responses stay fresh */
+  cacheResourceDetailsTtlSeconds: number;
+  /** Estimated credits per paid tool and argument combination */
+  costTable: CostTable;
+  /** Credits that may be spent per calendar day; unlimited when unset */
+  dailyBudget?: number;
+  /** Credits that may be spent per MCP session; unlimited when unset */
+  sessionBudget?: number;
+  /** Calls estimated above this many credits need `confirm: true` */
+  confirmAboveCredits?: number;
+  /** Whether calls over a budget are refused or only need `confirm: true` */
+  budgetEnforcement: BudgetEnforcement;
+  /** JSON-lines file of paid calls that keeps daily spend across restarts; in memory only when unset */
+  usageFile?: string;
+}
+
+function intValue(value: string | undefined, fallback: number): number {
+  const parsed = value ? parseInt(value, 10) : NaN;
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+function numberValue(value: string | undefined): number | undefined {
+  const parsed = value ? Number(value) : NaN;
+  return Number.isNaN(parsed) ? undefined : Math.max(0, parsed);
+}
+
+function listValue(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses `FREEPIK_HTTP_AUTH_TOKENS`: comma-separated `caller:token` pairs. A
+ * token without a caller name is named after its position.
+ */
+function parseAuthTokens(value: string | undefined): HttpAuthToken[] {
+  return listValue(value).map((entry, index) => {
+    const separator = entry.indexOf(":");
+    return separator > 0
+      ? { caller: entry.slice(0, separator).trim(), token: entry.slice(separator + 1).trim() }
+      : { caller: `client-${index + 1}`, token: entry };
+  });
+}
+
+function isEnabled(value: string | undefined): boolean {
+  return value !== undefined && ["1", "true", "yes", "on"].includes(value.toLowerCase());
+}
+
+/**
+ * Reads server settings from the environment.
+ *
+ * - `FREEPIK_API_KEY`: default API key sent with requests (not required with the fake API)
+ * - `FREEPIK_API_KEY_PROFILES`: JSON, or the path of a JSON file, mapping profile names to API keys
+ * - `FREEPIK_CALLER_PROFILES`: comma-separated `caller:profile` pairs choosing the key of each HTTP caller
+ * - `FREEPIK_BASE_URL`: API base URL, e.g. a staging proxy (default: https://api.freepik.com/v1)
+ * - `FREEPIK_FAKE_API`: start the bundled fake Freepik API in-process and use it instead
+ * - `FREEPIK_FAKE_API_PORT`: port for the fake API (default: random free port)
+ * - `FREEPIK_TRANSPORT`: `stdio` or `http` (default: stdio)
+ * - `FREEPIK_HTTP_PORT`: port of the HTTP transport (default: 3000)
+ * - `FREEPIK_HTTP_HOST`: interface the HTTP transport listens on (default: 127.0.0.1)
+ * - `FREEPIK_HTTP_AUTH_TOKENS`: comma-separated `caller:token` pairs accepted from MCP clients over HTTP
+ * - `FREEPIK_HTTP_CORS_ORIGINS`: comma-separated browser origins allowed to connect, or `*`
+ * - `FREEPIK_HTTP_MAX_SESSIONS`: most MCP sessions open at once over HTTP (default: 100)
+ * - `FREEPIK_HTTP_SHUTDOWN_TIMEOUT_SECONDS`: how long shutdown waits for running tool calls (default: 30)
+ * - `FREEPIK_HTTP_LOCAL_ACCESS`: let HTTP clients read local files, reach private networks and save anywhere
+ * - `FREEPIK_DRY_RUN`: preview the Freepik request of every tool call instead of sending it
+ * - `FREEPIK_OUTPUT_DIR`: default directory that download tools save files to
+ * - `FREEPIK_INCLUDE_IMAGES`: embed result images and thumbnails as image content by default
+ * - `FREEPIK_IMAGE_MAX_DIMENSION`: longest side of embedded images in pixels (default: 1024)
+ * - `FREEPIK_IMAGE_MAX_BYTES`: largest size of an embedded image (default: 1048576)
+ * - `FREEPIK_IMAGE_MAX_COUNT`: most images embedded in one result (default: 10)
+ * - `FREEPIK_WATCH_INTERVAL_SECONDS`: how often subscribed tasks are polled (default: 10)
+ * - `FREEPIK_REQUEST_TIMEOUT_SECONDS`: timeout of each API request (default: 30)
+ * - `FREEPIK_MAX_RETRIES`: retries of rate-limited or failed requests that are safe to repeat (default: 3)
+ * - `FREEPIK_MAX_RETRY_DELAY_SECONDS`: longest wait between retries (default: 30)
+ * - `FREEPIK_RATE_LIMITS`: JSON overrides of the per-family request limits, e.g. `{"mystic": {"per_minute": 5, "concurrency": 1}}`
+ * - `FREEPIK_WEBHOOK_PORT`: start the built-in webhook receiver on this port (0 for a random port)
+ * - `FREEPIK_WEBHOOK_HOST`: interface the webhook receiver listens on (default: 127.0.0.1)
+ * - `FREEPIK_WEBHOOK_PUBLIC_URL`: public URL that forwards to the receiver, such as a tunnel
+ * - `FREEPIK_WEBHOOK_TOKEN`: secret path segment of the callback URL (default: random per start)
+ * - `FREEPIK_NOTIFY_URLS`: comma-separated HTTP endpoints that receive task completion events
+ * - `FREEPIK_NOTIFY_COMMAND`: shell command run with each task completion event on stdin
+ * - `FREEPIK_NOTIFY_FILE`: JSONL file that task completion events are appended to
+ * - `FREEPIK_NOTIFY_SECRET`: HMAC-SHA256 key that signs task completion events
+ * - `FREEPIK_NOTIFY_MAX_ATTEMPTS`: delivery attempts per sink before dead-lettering (default: 5)
+ * - `FREEPIK_NOTIFY_DEAD_LETTER_FILE`: JSONL file for undeliverable events (default: ~/.freepik-mcp/notifications-dead-letter.jsonl)
+ * - `FREEPIK_NOTIFY_REQUESTER`: requester name included in events (default: the OS user name)
+ * - `FREEPIK_JOURNAL_FILE`: task journal file, e.g. ~/.freepik-mcp/task-journal.jsonl (default: off)
+ * - `FREEPIK_CACHE_MAX_ENTRIES`: search and resource-detail responses cached in memory, 0 to disable (default: 500)
+ * - `FREEPIK_CACHE_DIR`: directory that also stores cached responses across restarts
+ * - `FREEPIK_CACHE_TTL_RESOURCES_SECONDS`: freshness of cached resource searches (default: 300)
+ * - `FREEPIK_CACHE_TTL_ICONS_SECONDS`: freshness of cached icon searches (default: 300)
+ * - `FREEPIK_CACHE_TTL_RESOURCE_DETAILS_SECONDS`: freshness of cached resource details (default: 3600)
+ * - `FREEPIK_COST_TABLE`: JSON, or the path of a JSON file, overriding the estimated credits per paid tool
+ * - `FREEPIK_DAILY_BUDGET`: credits that may be spent per calendar day (default: unlimited)
+ * - `FREEPIK_SESSION_BUDGET`: credits that may be spent per MCP session (default: unlimited)
+ * - `FREEPIK_CONFIRM_ABOVE`: calls estimated above this many credits need `confirm: true`
+ * - `FREEPIK_BUDGET_ENFORCEMENT`: `refuse` calls over a budget, or only require `confirm` (default: refuse)
+ * - `FREEPIK_USAGE_FILE`: usage file that keeps daily spend across restarts, e.g. ~/.freepik-mcp/usage.jsonl (default: off)
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const fakeApi = isEnabled(env.FREEPIK_FAKE_API);
+  const apiKeyProfiles = parseKeyProfiles(env.FREEPIK_API_KEY_PROFILES);
+
+  return {
+    apiKey: env.FREEPIK_API_KEY || (fakeApi ? "fake-api-key" : ""),
+    apiKeyProfiles,
+    callerProfiles: parseCallerProfiles(env.FREEPIK_CALLER_PROFILES, apiKeyProfiles),
+    baseUrl: (env.FREEPIK_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, ""),
+    fakeApi,
+    fakeApiPort: intValue(env.FREEPIK_FAKE_API_PORT, 0),
+    transport: env.FREEPIK_TRANSPORT?.toLowerCase() === "http" ? "http" : "stdio",
+    httpPort: intValue(env.FREEPIK_HTTP_PORT, 3000),
+    httpHost: env.FREEPIK_HTTP_HOST || "127.0.0.1",
+    httpAuthTokens: parseAuthTokens(env.FREEPIK_HTTP_AUTH_TOKENS),
+    httpCorsOrigins: listValue(env.FREEPIK_HTTP_CORS_ORIGINS),
+    httpMaxSessions: Math.max(1, intValue(env.FREEPIK_HTTP_MAX_SESSIONS, 100)),
+    httpShutdownTimeoutSeconds: Math.max(0, intValue(env.FREEPIK_HTTP_SHUTDOWN_TIMEOUT_SECONDS, 30)),
+    httpLocalAccess: isEnabled(env.FREEPIK_HTTP_LOCAL_ACCESS),
+    dryRun: isEnabled(env.FREEPIK_DRY_RUN),
+    outputDir: env.FREEPIK_OUTPUT_DIR || undefined,
+    includeImages: isEnabled(env.FREEPIK_INCLUDE_IMAGES),
+    imageMaxDimension: intValue(env.FREEPIK_IMAGE_MAX_DIMENSION, 1024),
+    imageMaxBytes: intValue(env.FREEPIK_IMAGE_MAX_BYTES, 1024 * 1024),
+    imageMaxCount: intValue(env.FREEPIK_IMAGE_MAX_COUNT, 10),
+    watchIntervalSeconds: Math.max(1, intValue(env.FREEPIK_WATCH_INTERVAL_SECONDS, 10)),
+    requestTimeoutSeconds: Math.max(1, intValue(env.FREEPIK_REQUEST_TIMEOUT_SECONDS, 30)),
+    maxRetries: Math.max(0, intValue(env.FREEPIK_MAX_RETRIES, 3)),
+    maxRetryDelaySeconds: Math.max(0, intValue(env.FREEPIK_MAX_RETRY_DELAY_SECONDS, 30)),
+    rateLimits: parseRateLimits(env.FREEPIK_RATE_LIMITS),
+    webhookPort: env.FREEPIK_WEBHOOK_PORT ? intValue(env.FREEPIK_WEBHOOK_PORT, 0) : undefined,
+    webhookHost: env.FREEPIK_WEBHOOK_HOST || "127.0.0.1",
+    webhookPublicUrl: env.FREEPIK_WEBHOOK_PUBLIC_URL || undefined,
+    webhookToken: env.FREEPIK_WEBHOOK_TOKEN || undefined,
+    notifyUrls: listValue(env.FREEPIK_NOTIFY_URLS),
+    notifyCommand: env.FREEPIK_NOTIFY_COMMAND || undefined,
+    notifyFile: env.FREEPIK_NOTIFY_FILE || undefined,
+    notifySecret: env.FREEPIK_NOTIFY_SECRET || undefined,
+    notifyMaxAttempts: Math.max(1, intValue(env.FREEPIK_NOTIFY_MAX_ATTEMPTS, 5)),
+    notifyDeadLetterFile: env.FREEPIK_NOTIFY_DEAD_LETTER_FILE || "~/.freepik-mcp/notifications-dead-letter.jsonl",
+    notifyRequester: env.FREEPIK_NOTIFY_REQUESTER || undefined,
+    journalFile:
+      env.FREEPIK_JOURNAL_FILE && env.FREEPIK_JOURNAL_FILE.toLowerCase() !== "off" ? env.FREEPIK_JOURNAL_FILE : undefined,
+    cacheMaxEntries: Math.max(0, intValue(env.FREEPIK_CACHE_MAX_ENTRIES, 500)),
+    cacheDir: env.FREEPIK_CACHE_DIR || undefined,
+    cacheResourcesTtlSeconds: Math.max(0, intValue(env.FREEPIK_CACHE_TTL_RESOURCES_SECONDS, 300)),
+    cacheIconsTtlSeconds: Math.max(0, intValue(env.FREEPIK_CACHE_TTL_ICONS_SECONDS, 300)),
+    cacheResourceDetailsTtlSeconds: Math.max(0, intValue(env.FREEPIK_CACHE_TTL_RESOURCE_DETAILS_SECONDS, 3600)),
+    costTable: parseCostTable(env.FREEPIK_COST_TABLE),
+    dailyBudget: numberValue(env.FREEPIK_DAILY_BUDGET),
+    sessionBudget: numberValue(env.FREEPIK_SESSION_BUDGET),
+    confirmAboveCredits: numberValue(env.FREEPIK_CONFIRM_ABOVE),
+    budgetEnforcement: env.FREEPIK_BUDGET_ENFORCEMENT?.toLowerCase() === "confirm" ? "confirm" : "refuse",
+    usageFile:
+      env.FREEPIK_USAGE_FILE && env.FREEPIK_USAGE_FILE.toLowerCase() !== "off" ? env.FREEPIK_USAGE_FILE : undefined,
+  };
+}
+
+/**
+ * Reads command-line overrides of the transport settings: `--transport
+ * stdio|http` (or `--http`), `--port` and `--host`.
+ */
+export function parseServerArgs(argv: string[]): Partial<ServerConfig> {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      transport: { type: "string" },
+      http: { type: "boolean" },
+      port: { type: "string" },
+      host: { type: "string" },
+    },
+  });
+
+  const overrides: Partial<ServerConfig> = {};
+  if (values.transport !== undefined) {
+    if (values.transport !== "stdio" && values.transport !== "http") {
+      throw new Error(`--transport must be "stdio" or "http", got "${values.transport}"`);
+    }
+    overrides.transport = values.transport;
+  }
+  if (values.http) overrides.transport = "http";
+  if (values.port !== undefined) {
+    const port = Number(values.port);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) throw new Error(`--port must be a port number, got "${values.port}"`);
+    overrides.httpPort = port;
+  }
+  if (values.host !== undefined) overrides.httpHost = values.host;
+  return overrides;
+}
@@ -0,0 +1,121 @@
+import crypto from "crypto";
+import fs from "fs";
+
+/** Profile name of the server's own key, `FREEPIK_API_KEY` */
+export const DEFAULT_PROFILE = "default";
+
+/** Named Freepik API keys, from `FREEPIK_API_KEY_PROFILES` */
+export type KeyProfiles = Record<string, string>;
+
+/** The Freepik API key an MCP session uses, and the profile its usage is attributed to */
+export interface FreepikCredential {
+  profile: string;
+  apiKey: string;
+  /** Where the key came from: the client's connection, the caller's profile or the server default */
+  source: "client" | "caller" | "default";
+}
+
+/** What an MCP session knows about who connected */
+export interface SessionIdentity {
+  /** Caller named by the HTTP token the client authenticated with */
+  caller?: string;
+  /** Freepik API key the client sent with its connection */
+  apiKey?: string;
+}
+
+export interface CredentialOptions {
+  defaultApiKey?: string;
+  profiles: KeyProfiles;
+  /** Profile name per HTTP caller */
+  callerProfiles: Record<string, string>;
+}
+
+const PROFILE_NAME = /^[A-Za-z0-9_.-]+$/;
+
+/** Short, stable label for a key that is safe to show and record */
+export function keyFingerprint(apiKey: string): string {
+  return crypto.createHash("sha256").update(apiKey).digest("hex").slice(0, 8);
+}
+
+/**
+ * Parses `FREEPIK_API_KEY_PROFILES`: a JSON object mapping profile names to
+ * API keys, given inline or as the path of a JSON file so the keys can stay out
+ * of the environment. Error messages never include a key.
+ */
+export function parseKeyProfiles(value: string | undefined): KeyProfiles {
+  if (!value?.trim()) return {};
+
+  let json = value;
+  if (!value.trim().startsWith("{")) {
+    try {
+      json = fs.readFileSync(value.trim(), "utf8");
+    } catch (error) {
+      throw new Error(`FREEPIK_API_KEY_PROFILES file ${value.trim()} cannot be read: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  let profiles: unknown;
+  try {
+    profiles = JSON.parse(json);
+  } catch {
+    throw new Error("FREEPIK_API_KEY_PROFILES is not valid JSON");
+  }
+  if (!profiles || typeof profiles !== "object" || Array.isArray(profiles)) {
+    throw new Error("FREEPIK_API_KEY_PROFILES must be a JSON object mapping profile names to API keys");
+  }
+
+  for (const [name, apiKey] of Object.entries(profiles)) {
+    if (name === DEFAULT_PROFILE || !PROFILE_NAME.test(name)) {
+      throw new Error(
+        `FREEPIK_API_KEY_PROFILES has an invalid profile name "${name}" (use letters, digits, ".", "_" or "-"; "${DEFAULT_PROFILE}" is FREEPIK_API_KEY)`
+      );
+    }
+    if (typeof apiKey !== "string" || !apiKey.trim()) {
+      throw new Error(`FREEPIK_API_KEY_PROFILES.${name} must be a non-empty API key string`);
+    }
+  }
+  return profiles as KeyProfiles;
+}
+
+/**
+ * Parses `FREEPIK_CALLER_PROFILES`: comma-separated `caller:profile` pairs
+ * naming the key profile each HTTP caller bills to.
+ */
+export function parseCallerProfiles(value: string | undefined, profiles: KeyProfiles): Record<string, string> {
+  const callerProfiles: Record<string, string> = {};
+  for (const entry of (value ?? "").split(",").map((item) => item.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(":");
+    const caller = entry.slice(0, separator).trim();
+    const profile = entry.slice(separator + 1).trim();
+    if (separator <= 0 || !profile) {
+      throw new Error(`FREEPIK_CALLER_PROFILES entry "${entry}" must be caller:profile`);
+    }
+    if (profile !== DEFAULT_PROFILE && !(profile in profiles)) {
+      throw new Error(`FREEPIK_CALLER_PROFILES maps ${caller} to the unknown profile "${profile}"`);
+    }
+    callerProfiles[caller] = profile;
+  }
+  return callerProfiles;
+}
+
+/**
+ * Picks the key for a new MCP session: the key the client sent with its
+ * connection, else the profile mapped to its caller, else the server default.
+ * A client key that matches a configured one is attributed to that profile;
+ * any other is attributed to `client-<fingerprint>`. Returns undefined when
+ * no key applies.
+ */
+export function resolveCredential(options: CredentialOptions, identity: SessionIdentity): FreepikCredential | undefined {
+  const clientKey = identity.apiKey?.trim();
+  if (clientKey) {
+    const known = Object.entries(options.profiles).find(([, apiKey]) => apiKey === clientKey)?.[0];
+    const profile = known ?? (clientKey === options.defaultApiKey ? DEFAULT_PROFILE : `client-${keyFingerprint(clientKey)}`);
+    return { profile, apiKey: clientKey, source: "client" };
+  }
+
+  const mapped = identity.caller !== undefined ? options.callerProfiles[identity.caller] : undefined;
+  if (mapped && mapped !== DEFAULT_PROFILE) {
+    return { profile: mapped, apiKey: options.profiles[mapped], source: "caller" };
+  }
+  return options.defaultApiKey ? { profile: DEFAULT_PROFILE, apiKey: options.defaultApiKey, source: "default" } : undefined;
+}
@@ -0,0 +1,133 @@
+import axios from "axios";
+import crypto from "crypto";
+import { createWriteStream } from "fs";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Transform } from "stream";
+import { pipeline } from "stream/promises";
+
+export interface SavedFile {
+  /** Absolute path of the saved file */
+  path: string;
+  bytes: number;
+  sha256: string;
+  contentType?: string;
+}
+
+const MAX_FILENAME_LENGTH = 200;
+
+/**
+ * Reduces a server- or user-supplied name to a plain file name that cannot
+ * escape the target directory.
+ */
+export function safeFilename(name: string | undefined, fallback: string): string {
+  const base = (name ?? "").split(/[\\/]/).pop() ?? "";
+  let cleaned = base
+    .replace(/[\u0000-\u001f\u007f<>:"|?*]/g, "_")
+    .replace(/^[.\s]+|[.\s]+$/g, "")
+    .trim();
+
+  if (!cleaned) {
+    cleaned = fallback;
+  }
+  if (cleaned.length > MAX_FILENAME_LENGTH) {
+    const ext = path.extname(cleaned).slice(0, 16);
+    cleaned = cleaned.slice(0, MAX_FILENAME_LENGTH - ext.length) + ext;
+  }
+  return cleaned;
+}
+
+function filenameFromUrl(url: string): string | undefined {
+  try {
+    return decodeURIComponent(new URL(url).pathname.split("/").pop() || "") || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function expandHome(dir: string): string {
+  return dir === "~" || dir.startsWith("~/") ? path.join(os.homedir(), dir.slice(1)) : dir;
+}
+
+/**
+ * Moves `tempPath` to `directory/filename`, adding " (1)", " (2)", ... to the
+ * name instead of overwriting an existing file.
+ */
+async function claimUniquePath(tempPath: string, directory: string, filename: string): Promise<string> {
+  const ext = path.extname(filename);
+  const stem = filename.slice(0, filename.length - ext.length);
+
+  for (let attempt = 0; attempt < 1000; attempt++) {
+    const candidate = path.join(directory, attempt === 0 ? filename : `${stem} (${attempt})${ext}`);
+    try {
+      await fs.link(tempPath, candidate);
+    } catch (error: any) {
+      if (error?.code === "EEXIST") continue;
+      if (!["EPERM", "ENOTSUP", "EXDEV", "ENOSYS"].includes(error?.code)) throw error;
+      // File systems without hard links: fall back to an exclusive copy.
+      try {
+        await fs.copyFile(tempPath, candidate, fs.constants.COPYFILE_EXCL);
+      } catch (copyError: any) {
+        if (copyError?.code === "EEXIST") continue;
+        throw copyError;
+      }
+    }
+    await fs.unlink(tempPath);
+    return candidate;
+  }
+  throw new Error(`Could not find a free file name for ${filename} in ${directory}`);
+}
+
+/**
+ * Streams `url` into `directory` (created if missing) without overwriting
+ * existing files, verifying the length against `Content-Length` and recording
+ * a SHA-256 of the content.
+ */
+export async function downloadToDirectory(url: string, directory: string, filename?: string): Promise<SavedFile> {
+  const targetDir = path.resolve(expandHome(directory));
+  await fs.mkdir(targetDir, { recursive: true });
+
+  const name = safeFilename(filename ?? filenameFromUrl(url), "download");
+  const tempPath = path.join(targetDir, `.${name}.${crypto.randomBytes(6).toString("hex")}.part`);
+
+  // Ask for an unencoded body so the byte count can be checked against Content-Length.
+  const response = await axios.get(url, {
+    responseType: "stream",
+    timeout: 60_000,
+    headers: { "Accept-Encoding": "identity" },
+  });
+  const expectedLength = parseInt(String(response.headers["content-length"] ?? ""), 10);
+  const hash = crypto.createHash("sha256");
+  let bytes = 0;
+
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      bytes += chunk.length;
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    await pipeline(response.data, meter, createWriteStream(tempPath, { flags: "wx" }));
+    if (!Number.isNaN(expectedLength) && bytes !== expectedLength) {
+      throw new Error(`Download of ${name} is incomplete: received ${bytes} of ${expectedLength} bytes`);
+    }
+    const savedPath = await claimUniquePath(tempPath, targetDir, name);
+
+    return {
+      path: savedPath,
+      bytes,
+      sha256: hash.digest("hex"),
+      contentType: response.headers["content-type"]?.toString(),
+    };
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+export function formatSavedFile(file: SavedFile): string {
+  return `- **Saved To**: ${file.path}\n- **Size**: ${file.bytes} bytes\n- **SHA-256**: ${file.sha256}`;
+}
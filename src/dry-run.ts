@@ -0,0 +1,146 @@
+import { AsyncLocalStorage } from "async_hooks";
+import crypto from "crypto";
+import { URLSearchParams } from "url";
+import { sniffImageType } from "./images.js";
+import { isInlineData } from "./journal.js";
+
+/** A request the http client was about to send */
+export interface OutgoingRequest {
+  method: string;
+  url: string;
+  params?: URLSearchParams;
+  headers: Record<string, string>;
+  body?: unknown;
+  /** The body is `application/x-www-form-urlencoded` */
+  form?: boolean;
+}
+
+/**
+ * A Freepik API request as it would have been sent, safe to show: the API key
+ * is redacted and inline images are summarized.
+ */
+export interface RequestPreview {
+  method: string;
+  /** Full URL including the query string */
+  url: string;
+  query: Record<string, string | string[]>;
+  headers: Record<string, string>;
+  body?: unknown;
+  body_encoding?: "json" | "form";
+}
+
+const SECRET_HEADER = /api-key|authorization/i;
+const SHORT_BASE64 = /^[A-Za-z0-9+/]{16,}={0,2}$/;
+
+class DryRunStop extends Error {
+  constructor() {
+    super("Request not sent: dry run");
+    this.name = "DryRunStop";
+  }
+}
+
+const dryRunRequests = new AsyncLocalStorage<RequestPreview[]>();
+
+/** Decodes a value that carries an image inline */
+function inlineImage(value: string): Buffer | undefined {
+  if (isInlineData(value)) {
+    return Buffer.from(value.startsWith("data:") ? value.slice(value.indexOf(",") + 1) : value, "base64");
+  }
+  // Small images fall under the journal's length threshold; recognize them by their contents.
+  if (SHORT_BASE64.test(value)) {
+    const bytes = Buffer.from(value, "base64");
+    if (sniffImageType(bytes)) return bytes;
+  }
+  return undefined;
+}
+
+/** Replaces inline images with their type, decoded size and SHA-256, which match a saved file's */
+function summarizeInlineData(value: unknown): unknown {
+  if (typeof value === "string") {
+    const bytes = inlineImage(value);
+    if (!bytes) return value;
+    const hash = crypto.createHash("sha256").update(bytes).digest("hex");
+    return `[base64 ${sniffImageType(bytes) ?? "data"}, ${bytes.length} bytes, sha256 ${hash}]`;
+  }
+  if (Array.isArray(value)) return value.map(summarizeInlineData);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, summarizeInlineData(item)]));
+  }
+  return value;
+}
+
+function paramsObject(params: URLSearchParams): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const [name, value] of params.entries()) {
+    const existing = query[name];
+    query[name] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+  }
+  return query;
+}
+
+function previewRequest(request: OutgoingRequest): RequestPreview {
+  const search = request.params?.toString();
+  const headers = Object.fromEntries(
+    Object.entries(request.headers).map(([name, value]) => [name, SECRET_HEADER.test(name) ? "[redacted]" : value])
+  );
+  let body = request.body;
+  if (request.form && typeof body === "string") body = paramsObject(new URLSearchParams(body));
+
+  return {
+    method: request.method.toUpperCase(),
+    url: search ? `${request.url}?${search}` : request.url,
+    query: request.params ? paramsObject(request.params) : {},
+    headers,
+    ...(body !== undefined ? { body: summarizeInlineData(body), body_encoding: request.form ? "form" : "json" } : {}),
+  };
+}
+
+/**
+ * Called by the http client before every request. Inside `collectDryRun` it
+ * records a preview of the request and throws instead of sending it.
+ */
+export function interceptDryRun(request: OutgoingRequest) {
+  const requests = dryRunRequests.getStore();
+  if (!requests) return;
+  requests.push(previewRequest(request));
+  throw new DryRunStop();
+}
+
+/**
+ * Runs `fn` with every Freepik API request stopped before it is sent. Returns
+ * the previews of the requests it tried to make, or its result when it made
+ * none. Handlers stop at their first request, except where they start several
+ * at once, such as listing every task kind.
+ */
+export async function collectDryRun<T>(fn: () => Promise<T>): Promise<{ value?: T; requests: RequestPreview[] }> {
+  const requests: RequestPreview[] = [];
+  try {
+    const value = await dryRunRequests.run(requests, fn);
+    return requests.length > 0 ? { requests } : { value, requests };
+  } catch (error) {
+    // Handlers may wrap the stop in errors of their own; a recorded request means it was ours.
+    if (requests.length > 0) return { requests };
+    throw error;
+  }
+}
+
+/** Whether the current tool call is a dry run */
+export function isDryRun(): boolean {
+  return dryRunRequests.getStore() !== undefined;
+}
+
+export function formatRequestPreview(preview: RequestPreview): string {
+  const lines = [
+    `${preview.method} ${preview.url}`,
+    ...Object.entries(preview.headers).map(([name, value]) => `${name}: ${value}`),
+  ];
+  if (preview.body !== undefined) {
+    lines.push(
+      "",
+      preview.body_encoding === "form"
+        ? new URLSearchParams(preview.body as Record<string, string>).toString()
+        : JSON.stringify(preview.body, null, 2)
+    );
+  }
+  return `\`\`\`http\n${lines.join("\n")}\n\`\`\``;
+}
@@ -0,0 +1,193 @@
+import axios, { AxiosError } from "axios";
+import { BudgetError } from "./budget.js";
+import { ImageInputError } from "./images.js";
+import { ToolArgumentsError } from "./validation.js";
+
+/**
+ * A failed Freepik API request, after any retries. Keeps the HTTP status and
+ * the response body, which carries Freepik's explanation of the failure.
+ */
+export class FreepikApiError extends Error {
+  constructor(
+    message: string,
+    public method: string,
+    public path: string,
+    public status?: number,
+    public body?: unknown,
+    /** Network-level error code such as `ECONNABORTED` when there was no response */
+    public code?: string,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "FreepikApiError";
+  }
+
+  static fromAxios(error: AxiosError, method: string, path: string, retryAfterMs?: number): FreepikApiError {
+    const status = error.response?.status;
+    const body = error.response?.data;
+    const apiMessage = messageFromBody(body);
+    const message = status
+      ? `Freepik API returned ${status} for ${method} ${path}${apiMessage ? `: ${apiMessage}` : ""}`
+      : `Freepik API request ${method} ${path} failed: ${error.message}`;
+    return new FreepikApiError(message, method, path, status, body, status ? undefined : error.code, retryAfterMs);
+  }
+}
+
+/**
+ * Error details returned to the client with `isError: true`, both as text for
+ * the model and as data under `_meta["freepik/error"]`.
+ */
+export interface ToolErrorDetails {
+  message: string;
+  /** HTTP status of the failed Freepik API request */
+  status?: number;
+  /** Freepik error code, a network error code such as `ECONNABORTED`, `invalid_arguments`, `invalid_image`, `confirmation_required` or `budget_exceeded` */
+  code?: string;
+  /** Tool argument that caused the failure */
+  parameter?: string;
+  /** Per-parameter problems reported by the API or found by argument validation */
+  invalid_params?: Array<{ name: string; reason: string }>;
+  /** Whether repeating the same call later can succeed */
+  retryable: boolean;
+  retry_after_seconds?: number;
+  hint?: string;
+}
+
+const STATUS_HINTS: Record<number, string> = {
+  400: "Fix the arguments named in the error and call the tool again.",
+  401: "The API key was rejected. Check FREEPIK_API_KEY, or the key profile or X-Freepik-Api-Key header this session uses.",
+  402: "The Freepik account has run out of credits for this operation.",
+  403: "The API key cannot access this. The resource may require a premium license or a higher plan.",
+  404: "Nothing exists under this ID. Check it, for example by searching again or calling list_tasks.",
+  413: "The request is too large. Use a smaller image.",
+  422: "Fix the arguments named in the error and call the tool again.",
+  429: "Freepik is rate limiting requests. Wait before calling again.",
+};
+
+function messageFromBody(body: unknown): string | undefined {
+  if (typeof body === "string") return body.trim().slice(0, 500) || undefined;
+  if (!body || typeof body !== "object") return undefined;
+  const data = body as Record<string, any>;
+  const message = data.message ?? data.error?.message ?? data.detail ?? data.error;
+  return typeof message === "string" ? message : undefined;
+}
+
+function invalidParamsFromBody(body: unknown): Array<{ name: string; reason: string }> | undefined {
+  const params = (body as any)?.invalid_params ?? (body as any)?.error?.invalid_params;
+  if (!Array.isArray(params)) return undefined;
+  const parsed = params
+    .filter((param) => param && typeof param.name === "string")
+    .map((param) => ({ name: param.name as string, reason: String(param.reason ?? param.message ?? "invalid") }));
+  return parsed.length > 0 ? parsed : undefined;
+}
+
+function codeFromBody(body: unknown): string | undefined {
+  const code = (body as any)?.code ?? (body as any)?.error?.code ?? (body as any)?.error_code;
+  return code === undefined || code === null ? undefined : String(code);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function describeApiError(error: FreepikApiError): ToolErrorDetails {
+  const invalidParams = invalidParamsFromBody(error.body);
+  const details: ToolErrorDetails = {
+    message: error.message,
+    retryable: error.status === undefined ? true : isRetryableStatus(error.status),
+  };
+  if (error.status !== undefined) details.status = error.status;
+
+  const code = codeFromBody(error.body) ?? error.code;
+  if (code) details.code = code;
+  if (invalidParams) {
+    details.invalid_params = invalidParams;
+    details.parameter = invalidParams[0].name;
+  }
+  if (error.retryAfterMs !== undefined) {
+    details.retry_after_seconds = Math.ceil(error.retryAfterMs / 1000);
+  }
+
+  if (error.status === undefined) {
+    details.hint =
+      error.code === "ECONNABORTED" || error.code === "ETIMEDOUT"
+        ? "The request timed out. Try again, or raise FREEPIK_REQUEST_TIMEOUT_SECONDS."
+        : "Freepik could not be reached. Check the network connection and FREEPIK_BASE_URL.";
+  } else if (STATUS_HINTS[error.status]) {
+    details.hint = STATUS_HINTS[error.status];
+  } else if (error.status >= 500) {
+    details.hint = "Freepik had a server error. Try again in a moment.";
+  }
+  return details;
+}
+
+/**
+ * Maps any error thrown by a tool handler to details the model can act on.
+ */
+export function describeError(error: unknown): ToolErrorDetails {
+  if (error instanceof FreepikApiError) {
+    return describeApiError(error);
+  }
+  if (error instanceof ToolArgumentsError) {
+    return {
+      message: `Invalid arguments for ${error.tool}`,
+      code: "invalid_arguments",
+      parameter: error.issues[0].name,
+      invalid_params: error.issues,
+      retryable: false,
+      hint: "Nothing was sent to Freepik. Fix the listed arguments to match the tool's input schema and call it again.",
+    };
+  }
+  if (error instanceof BudgetError) {
+    return {
+      message: error.message,
+      code: error.code,
+      ...(error.code === "confirmation_required" ? { parameter: "confirm" } : {}),
+      retryable: false,
+      hint: error.hint,
+    };
+  }
+  if (error instanceof ImageInputError) {
+    return {
+      message: error.message,
+      code: "invalid_image",
+      parameter: error.field,
+      retryable: false,
+      hint: "Pass a readable local path (not over HTTP), an http(s) URL, a data URI or base64 image data.",
+    };
+  }
+  if (axios.isAxiosError(error)) {
+    // Requests outside the API, such as fetching a download URL or an image argument.
+    const status = error.response?.status;
+    return {
+      message: status ? `Request to ${error.config?.url} failed with status ${status}` : error.message,
+      ...(status ? { status } : {}),
+      ...(error.code ? { code: error.code } : {}),
+      retryable: status === undefined || isRetryableStatus(status),
+      ...(status === 403 || status === 404
+        ? { hint: "Download URLs are temporary. Request a new one and use it right away." }
+        : {}),
+    };
+  }
+  return {
+    message: error instanceof Error ? error.message : String(error),
+    retryable: false,
+  };
+}
+
+export function formatToolError(details: ToolErrorDetails): string {
+  const lines = [`Error: ${details.message}`];
+  if (details.invalid_params) {
+    lines.push(...details.invalid_params.map((param) => `- \`${param.name}\`: ${param.reason}`));
+  } else if (details.parameter) {
+    lines.push(`- Parameter: \`${details.parameter}\``);
+  }
+  if (details.code) lines.push(`- Code: ${details.code}`);
+  lines.push(
+    `- Retryable: ${details.retryable ? "yes" : "no"}${
+      details.retry_after_seconds !== undefined ? ` (after ${details.retry_after_seconds}s)` : ""
+    }`
+  );
+  if (details.hint) lines.push(`\n*${details.hint}*`);
+  return lines.join("\n");
+}
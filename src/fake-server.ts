@@ -0,0 +1,436 @@
+#!/usr/bin/env node
+
+import http from "http";
+import { AddressInfo } from "net";
+import { URL } from "url";
+import zlib from "zlib";
+
+/**
+ * A small in-process stand-in for the Freepik API, used for offline development and CI.
+ *
+ * It implements the endpoints the MCP server calls with deterministic fixture data:
+ * search and detail routes for resources and icons, the download routes, and every
+ * `/ai/*` task family (create, poll, list). AI tasks start as `CREATED`, move to
+ * `IN_PROGRESS` on the first poll and become `COMPLETED` after `pollsUntilComplete`
+ * polls. Prompts containing the word "fail" produce a `FAILED` task instead.
+ *
+ * Generated and downloadable files are served from `/files/*` as small PNG or SVG images.
+ */
+
+export interface FakeFreepikServerOptions {
+  port?: number;
+  host?: string;
+  /** Number of status polls before a task reports `COMPLETED` (default: 2) */
+  pollsUntilComplete?: number;
+}
+
+export interface FakeFreepikServer {
+  /** Base URL to use as `FREEPIK_BASE_URL`, e.g. `http://127.0.0.1:4010/v1` */
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+interface FakeTask {
+  task_id: string;
+  path: string;
+  polls: number;
+  fails: boolean;
+}
+
+interface FakeRequest {
+  method: string;
+  url: URL;
+  params: string[];
+  body: any;
+}
+
+interface FakeResponse {
+  status: number;
+  body?: any;
+  contentType?: string;
+}
+
+type RouteHandler = (request: FakeRequest) => FakeResponse;
+
+const TASK_PATHS = [
+  "ai/mystic",
+  "ai/text-to-image/flux-dev",
+  "ai/beta/text-to-image/reimagine-flux",
+  "ai/image-upscaler",
+  "ai/image-expand/flux-pro",
+  "ai/text-to-icon",
+];
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(typeAndData));
+  return Buffer.concat([length, typeAndData, crc]);
+}
+
+function hash(text: string): number {
+  let h = 2166136261;
+  for (const char of text) h = Math.imul(h ^ char.charCodeAt(0), 16777619);
+  return h >>> 0;
+}
+
+/**
+ * Renders a solid-color RGB PNG whose color is derived from `seed`.
+ */
+export function renderFixturePng(seed: string, width = 64, height = 64): Buffer {
+  const h = hash(seed);
+  const rgb = [h & 0xff, (h >>> 8) & 0xff, (h >>> 16) & 0xff];
+  const row = Buffer.alloc(1 + width * 3);
+  for (let x = 0; x < width; x++) row.set(rgb, 1 + x * 3);
+  const raw = Buffer.concat(Array.from({ length: height }, () => row));
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(width, 0);
+  header.writeUInt32BE(height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: RGB
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk("IHDR", header),
+    pngChunk("IDAT", zlib.deflateSync(raw)),
+    pngChunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+function renderFixtureSvg(seed: string): string {
+  const color = (hash(seed) & 0xffffff).toString(16).padStart(6, "0");
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64" viewBox="0 0 64 64"><circle cx="32" cy="32" r="28" fill="#${color}"/></svg>`;
+}
+
+/** A 400 response in the shape Freepik uses for validation errors */
+function invalidParam(name: string, reason: string): FakeResponse {
+  return { status: 400, body: { message: "Validation error", invalid_params: [{ name, reason }] } };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+class FakeFreepikApi {
+  private routes: Array<{ method: string; pattern: RegExp; handler: RouteHandler }> = [];
+  private tasks = new Map<string, FakeTask>();
+  private taskCounter = 0;
+
+  constructor(private origin: string, private pollsUntilComplete: number) {
+    this.route("GET", /^\/v1\/resources$/, (req) => this.searchResources(req));
+    this.route("GET", /^\/v1\/resources\/([^/]+)$/, (req) => ({ status: 200, body: this.resource(req.params[0]) }));
+    this.route("GET", /^\/v1\/resources\/([^/]+)\/download$/, (req) =>
+      this.download(`resource-${req.params[0]}-${req.url.searchParams.get("image_size") || "original"}`, "jpg")
+    );
+    this.route("GET", /^\/v1\/resources\/([^/]+)\/download\/([^/]+)$/, (req) =>
+      this.download(`resource-${req.params[0]}`, req.params[1])
+    );
+    this.route("GET", /^\/v1\/icons$/, (req) => this.searchIcons(req));
+    this.route("GET", /^\/v1\/icons\/([^/]+)\/download$/, (req) =>
+      this.download(`icon-${req.params[0]}`, req.url.searchParams.get("format") || "svg")
+    );
+    this.route("POST", /^\/v1\/ai\/beta\/remove-background$/, (req) => this.removeBackground(req));
+    this.route("POST", /^\/v1\/ai\/text-to-icon\/preview$/, (req) => this.createIconTask(req));
+    this.route("POST", /^\/v1\/ai\/text-to-icon\/([^/]+)\/render\/([^/]+)$/, (req) => this.renderIcon(req));
+    this.route("POST", /^\/v1\/ai\/text-to-icon$/, (req) => this.createIconTask(req));
+
+    for (const path of TASK_PATHS) {
+      const prefix = `^\\/v1\\/${escapeRegExp(path).replace(/\//g, "\\/")}`;
+      this.route("GET", new RegExp(`${prefix}$`), () => this.listTasks(path));
+      this.route("GET", new RegExp(`${prefix}\\/([^/]+)$`), (req) => this.pollTask(path, req.params[0]));
+      if (path !== "ai/text-to-icon") {
+        this.route("POST", new RegExp(`${prefix}$`), (req) => ({ status: 200, body: { data: this.taskView(this.createTask(path, req.body)) } }));
+      }
+    }
+
+    this.route("GET", /^\/files\/(.+)$/, (req) => this.file(req.params[0]));
+  }
+
+  private route(method: string, pattern: RegExp, handler: RouteHandler) {
+    this.routes.push({ method, pattern, handler });
+  }
+
+  handle(method: string, url: URL, headers: http.IncomingHttpHeaders, body: any): FakeResponse {
+    const matches = this.routes
+      .map((route) => ({ route, match: route.pattern.exec(url.pathname) }))
+      .filter(({ match }) => match !== null);
+
+    if (matches.length === 0) {
+      return { status: 404, body: { message: `Not found: ${url.pathname}` } };
+    }
+
+    const match = matches.find(({ route }) => route.method === method);
+    if (!match) {
+      return { status: 405, body: { message: `Method ${method} not allowed on ${url.pathname}` } };
+    }
+
+    if (url.pathname.startsWith("/v1/") && !headers["x-freepik-api-key"]) {
+      return { status: 401, body: { message: "Invalid API key" } };
+    }
+
+    return match.route.handler({
+      method,
+      url,
+      params: match.match!.slice(1).map(decodeURIComponent),
+      body,
+    });
+  }
+
+  private fileUrl(name: string): string {
+    return `${this.origin}/files/${name}`;
+  }
+
+  private resource(id: string) {
+    const index = hash(id) % 1000;
+    return {
+      id,
+      title: `Fixture resource ${id}`,
+      url: `https://www.freepik.com/free-photo/fixture_${id}.htm`,
+      image: { source: { url: this.fileUrl(`resource-${id}.png`) } },
+      author: { username: `author_${index % 7}` },
+      license: index % 2 === 0 ? "freemium" : "premium",
+    };
+  }
+
+  private searchResources(req: FakeRequest): FakeResponse {
+    const term = req.url.searchParams.get("term") || "";
+    const page = parseInt(req.url.searchParams.get("page") || "1", 10);
+    const limit = parseInt(req.url.searchParams.get("limit") || "20", 10);
+    const total = 45;
+    const lastPage = Math.ceil(total / limit);
+    const first = (page - 1) * limit;
+    const count = Math.max(0, Math.min(limit, total - first));
+    const seed = hash(term) % 100000;
+
+    return {
+      status: 200,
+      body: {
+        data: Array.from({ length: count }, (_, i) => {
+          const resource = this.resource(String(seed + first + i));
+          return term ? { ...resource, title: `${term} ${first + i + 1}` } : resource;
+        }),
+        meta: { current_page: page, per_page: limit, last_page: lastPage, total, clean_search: false },
+      },
+    };
+  }
+
+  private searchIcons(req: FakeRequest): FakeResponse {
+    const term = req.url.searchParams.get("term") || req.url.searchParams.get("slug") || "icon";
+    const page = parseInt(req.url.searchParams.get("page") || "1", 10);
+    const perPage = parseInt(req.url.searchParams.get("per_page") || "20", 10);
+    const familyId = parseInt(req.url.searchParams.get("family-id") || "100", 10);
+    const total = 30;
+    const first = (page - 1) * perPage;
+    const count = Math.max(0, Math.min(perPage, total - first));
+    const seed = hash(term) % 100000;
+
+    return {
+      status: 200,
+      body: {
+        data: Array.from({ length: count }, (_, i) => {
+          const id = seed + first + i;
+          return {
+            id,
+            name: `${term} ${first + i + 1}`,
+            thumbnails: { png: this.fileUrl(`icon-${id}.png`), svg: this.fileUrl(`icon-${id}.svg`) },
+            author: { username: `iconist_${id % 5}` },
+            tags: [term, "fixture"],
+            family: { id: familyId, name: `Family ${familyId}` },
+          };
+        }),
+        meta: {
+          pagination: { current_page: page, per_page: perPage, last_page: Math.ceil(total / perPage), total },
+        },
+      },
+    };
+  }
+
+  private download(name: string, format: string): FakeResponse {
+    const filename = `${name}.${format}`;
+    return { status: 200, body: { data: { filename, url: this.fileUrl(filename) } } };
+  }
+
+  private removeBackground(req: FakeRequest): FakeResponse {
+    const imageUrl = typeof req.body === "object" && req.body ? req.body.image_url : undefined;
+    if (!imageUrl) {
+      return invalidParam("image_url", "image_url is required");
+    }
+    const name = `nobg-${hash(imageUrl)}`;
+    return {
+      status: 200,
+      body: {
+        original: imageUrl,
+        high_resolution: this.fileUrl(`${name}-hd.png`),
+        preview: this.fileUrl(`${name}-preview.png`),
+        url: this.fileUrl(`${name}.png`),
+      },
+    };
+  }
+
+  private createTask(path: string, body: any): FakeTask {
+    this.taskCounter += 1;
+    const task: FakeTask = {
+      task_id: `fake-${String(this.taskCounter).padStart(6, "0")}`,
+      path,
+      polls: 0,
+      fails: typeof body?.prompt === "string" && /\bfail\b/i.test(body.prompt),
+    };
+    this.tasks.set(task.task_id, task);
+    return task;
+  }
+
+  private taskStatus(task: FakeTask): string {
+    if (task.polls === 0) return "CREATED";
+    if (task.polls < this.pollsUntilComplete) return "IN_PROGRESS";
+    return task.fails ? "FAILED" : "COMPLETED";
+  }
+
+  private taskView(task: FakeTask) {
+    const status = this.taskStatus(task);
+    return {
+      task_id: task.task_id,
+      status,
+      generated:
+        status === "COMPLETED"
+          ? [this.fileUrl(`${task.task_id}-1.png`)]
+          : [],
+      ...(task.path === "ai/mystic" ? { has_nsfw: false } : {}),
+    };
+  }
+
+  private createIconTask(req: FakeRequest): FakeResponse {
+    if (!req.body?.prompt) {
+      return invalidParam("prompt", "prompt is required");
+    }
+    const task = this.createTask("ai/text-to-icon", req.body);
+    return { status: 200, body: { task_id: task.task_id, task_status: this.taskStatus(task) } };
+  }
+
+  private renderIcon(req: FakeRequest): FakeResponse {
+    const [taskId, format] = req.params;
+    const task = this.tasks.get(taskId);
+    if (!task || task.path !== "ai/text-to-icon") {
+      return { status: 404, body: { message: `Task ${taskId} not found` } };
+    }
+    task.polls += 1;
+    const status = this.taskStatus(task);
+    return {
+      status: 200,
+      body: {
+        task_id: task.task_id,
+        task_status: status,
+        generated: status === "COMPLETED" ? [this.fileUrl(`${task.task_id}-1.${format}`)] : [],
+      },
+    };
+  }
+
+  private pollTask(path: string, taskId: string): FakeResponse {
+    const task = this.tasks.get(taskId);
+    if (!task || task.path !== path) {
+      return { status: 404, body: { message: `Task ${taskId} not found` } };
+    }
+    task.polls += 1;
+    return { status: 200, body: { data: this.taskView(task) } };
+  }
+
+  private listTasks(path: string): FakeResponse {
+    const tasks = [...this.tasks.values()]
+      .filter((task) => task.path === path)
+      .map((task) => ({ task_id: task.task_id, status: this.taskStatus(task) }));
+    return { status: 200, body: { data: tasks } };
+  }
+
+  private file(name: string): FakeResponse {
+    if (name.endsWith(".svg")) {
+      return { status: 200, body: renderFixtureSvg(name), contentType: "image/svg+xml" };
+    }
+    return { status: 200, body: renderFixturePng(name), contentType: "image/png" };
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("error", reject);
+    req.on("end", () => {
+      const raw = Buffer.concat(chunks).toString("utf8");
+      if (!raw) return resolve(undefined);
+      const contentType = req.headers["content-type"] || "";
+      if (contentType.includes("application/x-www-form-urlencoded")) {
+        return resolve(Object.fromEntries(new URLSearchParams(raw)));
+      }
+      try {
+        resolve(JSON.parse(raw));
+      } catch {
+        resolve(raw);
+      }
+    });
+  });
+}
+
+/**
+ * Starts the fake Freepik API on `host:port` (default: 127.0.0.1 on a random free port).
+ */
+export async function startFakeFreepikServer(options: FakeFreepikServerOptions = {}): Promise<FakeFreepikServer> {
+  const host = options.host || "127.0.0.1";
+  let api: FakeFreepikApi;
+
+  const httpServer = http.createServer(async (req, res) => {
+    try {
+      const url = new URL(req.url || "/", `http://${req.headers.host || host}`);
+      const body = await readBody(req);
+      const result = api.handle(req.method || "GET", url, req.headers, body);
+
+      if (Buffer.isBuffer(result.body) || result.contentType) {
+        res.writeHead(result.status, { "Content-Type": result.contentType || "application/octet-stream" });
+        res.end(result.body);
+      } else {
+        res.writeHead(result.status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(result.body ?? {}));
+      }
+    } catch (error) {
+      res.writeHead(500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ message: error instanceof Error ? error.message : String(error) }));
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port || 0, host, () => resolve());
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  const origin = `http://${host}:${port}`;
+  api = new FakeFreepikApi(origin, Math.max(1, options.pollsUntilComplete ?? 2));
+
+  return {
+    baseUrl: `${origin}/v1`,
+    close: () =>
+      new Promise<void>((resolve, reject) => httpServer.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
+
+if (require.main === module) {
+  startFakeFreepikServer({ port: parseInt(process.env.PORT || "4010", 10) })
+    .then((fake) => process.stderr.write(`Fake Freepik API listening on ${fake.baseUrl}\n`))
+    .catch((error) => {
+      process.stderr.write(`Error: ${error}\n`);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,239 @@
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import { URL } from "url";
+import { HttpAuthToken } from "./config.js";
+import { SessionIdentity } from "./credentials.js";
+
+export interface HttpTransportOptions {
+  /** Port to listen on; 0 picks a free port */
+  port: number;
+  host: string;
+  /** Accepted client tokens; without any, requests are not authenticated */
+  tokens: HttpAuthToken[];
+  /** Browser origins allowed to connect; `*` allows any */
+  corsOrigins: string[];
+  maxSessions: number;
+}
+
+/** An MCP session served over one SSE stream */
+export interface HttpSession {
+  close(): Promise<void>;
+}
+
+/**
+ * Creates and connects the MCP server for a new session. `identity.caller`
+ * names the token the client authenticated with, and `identity.apiKey` is the
+ * Freepik API key it sent in `X-Freepik-Api-Key`, if any. Throws a
+ * `SessionRejectedError` to turn the session down.
+ */
+export type HttpSessionFactory = (transport: SSEServerTransport, identity: SessionIdentity) => Promise<HttpSession>;
+
+/** Thrown by a session factory to refuse a session with an HTTP error */
+export class SessionRejectedError extends Error {
+  constructor(message: string, public status = 403) {
+    super(message);
+    this.name = "SessionRejectedError";
+  }
+}
+
+const SSE_PATH = "/sse";
+const MESSAGES_PATH = "/messages";
+const LOOPBACK_HOSTS = ["127.0.0.1", "::1", "localhost"];
+// Comment lines on idle streams keep proxies from closing them.
+const KEEPALIVE_INTERVAL_MS = 25_000;
+const CORS_HEADERS = {
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Authorization, X-API-Key, X-Freepik-Api-Key, Content-Type",
+  "Access-Control-Max-Age": "600",
+};
+
+export function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(host);
+}
+
+function digest(token: string): Buffer {
+  return crypto.createHash("sha256").update(token).digest();
+}
+
+/** The token from `Authorization: Bearer <token>` or `X-API-Key: <token>` */
+function presentedToken(req: http.IncomingMessage): string | undefined {
+  const authorization = req.headers.authorization;
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const apiKey = req.headers["x-api-key"];
+  return bearer?.trim() || (typeof apiKey === "string" ? apiKey.trim() : undefined) || undefined;
+}
+
+/**
+ * Serves MCP over HTTP with server-sent events: `GET /sse` opens a session and
+ * streams server messages, and the client posts its messages to
+ * `POST /messages?sessionId=…`. Each session has its own MCP server and is
+ * bound to the token that opened it.
+ *
+ * Also answers `GET /healthz` (the process is up) and `GET /readyz` (new
+ * sessions are accepted), which need no token.
+ */
+export class McpHttpServer {
+  private httpServer?: http.Server;
+  private sessions = new Map<string, { transport: SSEServerTransport; caller?: string; session?: HttpSession }>();
+  private tokens: Array<{ caller: string; digest: Buffer }>;
+  private state: "starting" | "ready" | "draining" = "starting";
+  private url?: string;
+
+  constructor(private options: HttpTransportOptions, private createSession: HttpSessionFactory) {
+    if (options.tokens.length === 0 && !isLoopbackHost(options.host)) {
+      throw new Error(
+        `Set FREEPIK_HTTP_AUTH_TOKENS before listening on ${options.host}; without tokens the HTTP transport only listens on loopback addresses`
+      );
+    }
+    this.tokens = options.tokens.map(({ caller, token }) => ({ caller, digest: digest(token) }));
+  }
+
+  /** URL clients connect to; available once `start` has resolved */
+  get sseUrl(): string {
+    if (!this.url) throw new Error("HTTP transport is not running");
+    return `${this.url}${SSE_PATH}`;
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async start() {
+    const httpServer = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        process.stderr.write(`HTTP transport request failed: ${error}\n`);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(this.options.port, this.options.host, () => resolve());
+    });
+    this.httpServer = httpServer;
+    const { port } = httpServer.address() as AddressInfo;
+    const host = this.options.host.includes(":") ? `[${this.options.host}]` : this.options.host;
+    this.url = `http://${host}:${port}`;
+    this.state = "ready";
+  }
+
+  /**
+   * Shuts down gracefully: stops accepting sessions and requests, waits for
+   * `drain` (running tool calls) up to `timeoutMs`, then closes every session.
+   */
+  async close(drain: () => Promise<void>, timeoutMs: number) {
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (!httpServer) return;
+    this.state = "draining";
+
+    const stopped = new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([drain(), new Promise<void>((resolve) => (timer = setTimeout(resolve, timeoutMs)))]);
+    clearTimeout(timer);
+
+    await Promise.allSettled([...this.sessions.values()].map(({ session }) => session?.close()));
+    this.sessions.clear();
+    httpServer.closeAllConnections();
+    await stopped;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const reply = (status: number, body: object, headers: http.OutgoingHttpHeaders = {}) => {
+      res.writeHead(status, { ...headers, "Content-Type": "application/json" });
+      res.end(JSON.stringify(body));
+    };
+
+    if (!this.applyCors(req, res)) return reply(403, { message: "Origin not allowed" });
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const url = new URL(req.url || "/", "http://localhost");
+    if (req.method === "GET" && url.pathname === "/healthz") return reply(200, { status: "ok" });
+    if (req.method === "GET" && url.pathname === "/readyz") {
+      return reply(this.state === "ready" ? 200 : 503, { status: this.state, sessions: this.sessions.size });
+    }
+    if (url.pathname !== SSE_PATH && url.pathname !== MESSAGES_PATH) return reply(404, { message: "Not found" });
+
+    const caller = this.authenticate(req);
+    if (caller === false) {
+      return reply(401, { message: "Missing or unknown token" }, { "WWW-Authenticate": 'Bearer realm="freepik-mcp"' });
+    }
+    if (this.state !== "ready") return reply(503, { message: "The server is shutting down" });
+
+    if (url.pathname === SSE_PATH) {
+      if (req.method !== "GET") return reply(405, { message: "Open a session with GET" });
+      if (this.sessions.size >= this.options.maxSessions) {
+        return reply(503, { message: "Too many open sessions" }, { "Retry-After": "30" });
+      }
+      const apiKey = req.headers["x-freepik-api-key"];
+      return this.openSession(res, { caller, apiKey: typeof apiKey === "string" ? apiKey : undefined });
+    }
+
+    if (req.method !== "POST") return reply(405, { message: "Send messages with POST" });
+    const entry = this.sessions.get(url.searchParams.get("sessionId") ?? "");
+    if (!entry) return reply(404, { message: "Unknown session; open a new one with GET /sse" });
+    if (entry.caller !== caller) return reply(403, { message: "The session belongs to another token" });
+    await entry.transport.handlePostMessage(req, res);
+  }
+
+  private async openSession(res: http.ServerResponse, identity: SessionIdentity) {
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    const entry: { transport: SSEServerTransport; caller?: string; session?: HttpSession } = {
+      transport,
+      caller: identity.caller,
+    };
+    this.sessions.set(transport.sessionId, entry);
+
+    const keepalive = setInterval(() => res.write(": keepalive\n\n"), KEEPALIVE_INTERVAL_MS);
+    res.on("close", () => {
+      clearInterval(keepalive);
+      this.sessions.delete(transport.sessionId);
+    });
+    try {
+      entry.session = await this.createSession(transport, identity);
+    } catch (error) {
+      if (!(error instanceof SessionRejectedError) || res.headersSent) throw error;
+      this.sessions.delete(transport.sessionId);
+      res.writeHead(error.status, { "Content-Type": "application/json" }).end(JSON.stringify({ message: error.message }));
+    }
+  }
+
+  /**
+   * Returns the caller named by the presented token, undefined when no tokens
+   * are configured, or false when the token is missing or unknown.
+   */
+  private authenticate(req: http.IncomingMessage): string | undefined | false {
+    if (this.tokens.length === 0) return undefined;
+    const token = presentedToken(req);
+    if (!token) return false;
+    const presented = digest(token);
+    // Compare against every token so the time taken does not reveal which one matched.
+    let caller: string | undefined;
+    for (const candidate of this.tokens) {
+      if (crypto.timingSafeEqual(candidate.digest, presented)) caller ??= candidate.caller;
+    }
+    return caller ?? false;
+  }
+
+  /**
+   * Adds CORS headers for allowed browser origins. Returns false for requests
+   * from any other origin, which are rejected so web pages cannot reach a
+   * server on the local network.
+   */
+  private applyCors(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+    const origin = req.headers.origin;
+    if (!origin) return true;
+    const allowed = this.options.corsOrigins.includes("*") || this.options.corsOrigins.includes(origin);
+    if (!allowed) return false;
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Vary", "Origin");
+    for (const [name, value] of Object.entries(CORS_HEADERS)) res.setHeader(name, value);
+    return true;
+  }
+}
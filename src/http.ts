@@ -0,0 +1,144 @@
+import axios, { AxiosError, AxiosRequestConfig } from "axios";
+import { interceptDryRun } from "./dry-run.js";
+import { FreepikApiError } from "./errors.js";
+import { RateLimiter } from "./rate-limit.js";
+
+export interface ApiConnection {
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface RetryPolicy {
+  /** Per-attempt request timeout */
+  timeoutMs: number;
+  /** Retries after the first attempt; 0 disables retrying */
+  maxRetries: number;
+  /** Longest wait between attempts, including waits requested by `Retry-After` */
+  maxDelayMs: number;
+}
+
+export interface PostOptions {
+  /**
+   * The request can be repeated without side effects, so it is retried like a
+   * GET. Leave unset for requests that create (and bill) a new task.
+   */
+  idempotent?: boolean;
+  /** Send `body` as `application/x-www-form-urlencoded` instead of JSON */
+  form?: boolean;
+}
+
+const BASE_DELAY_MS = 500;
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+// Failures where the connection was never established, so the server cannot have seen the request.
+const NOT_SENT_CODES = ["ECONNREFUSED", "ENOTFOUND", "EAI_AGAIN"];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Parses a `Retry-After` header given either in seconds or as an HTTP date.
+ */
+export function parseRetryAfter(value: unknown, now = Date.now()): number | undefined {
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  if (/^\d+$/.test(value.trim())) return parseInt(value, 10) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function isRetryable(error: AxiosError, idempotent: boolean): boolean {
+  const status = error.response?.status;
+  // A 429 means the request was rejected before any work was done, so even task-creating POSTs are safe to repeat.
+  if (status === 429) return true;
+  if (error.code && NOT_SENT_CODES.includes(error.code)) return true;
+  if (!idempotent) return false;
+  return status === undefined || RETRYABLE_STATUSES.includes(status);
+}
+
+/**
+ * Client for the Freepik API shared by every tool, resource and task lookup.
+ *
+ * Adds the API key header and a timeout to each request. Failed requests are
+ * retried with exponential backoff and full jitter, honoring `Retry-After`:
+ * GETs and idempotent POSTs on timeouts, network errors, 408, 429 and 5xx;
+ * other POSTs only on 429 or when the connection could not be opened, so a
+ * paid task is never submitted twice. With a `RateLimiter`, every attempt
+ * first waits for a free slot in its endpoint family. During a dry run nothing
+ * is sent; see `collectDryRun`.
+ */
+export class FreepikHttpClient {
+  constructor(
+    private connection: () => ApiConnection,
+    private policy: RetryPolicy,
+    private limiter?: RateLimiter
+  ) {}
+
+  /** API base URL requests currently go to */
+  get baseUrl(): string {
+    return this.connection().baseUrl;
+  }
+
+  async get<T>(path: string, params?: URLSearchParams): Promise<T> {
+    return this.request<T>(path, { method: "GET", params }, true);
+  }
+
+  async post<T>(path: string, body: unknown, options: PostOptions = {}): Promise<T> {
+    return this.request<T>(
+      path,
+      {
+        method: "POST",
+        data: body,
+        headers: {
+          "Content-Type": options.form ? "application/x-www-form-urlencoded" : "application/json",
+        },
+      },
+      options.idempotent === true
+    );
+  }
+
+  /**
+   * Sends a request, retrying it while `isRetryable` allows. The final failure
+   * is thrown as a `FreepikApiError`.
+   */
+  private async request<T>(path: string, config: AxiosRequestConfig, idempotent: boolean): Promise<T> {
+    const { baseUrl, apiKey } = this.connection();
+    const headers: Record<string, string> = { ...(config.headers as Record<string, string>), "x-freepik-api-key": apiKey };
+    interceptDryRun({
+      method: config.method ?? "GET",
+      url: `${baseUrl}${path}`,
+      params: config.params,
+      headers,
+      body: config.data,
+      form: headers["Content-Type"] === "application/x-www-form-urlencoded",
+    });
+
+    for (let attempt = 0; ; attempt++) {
+      let retryDelayMs: number;
+      const release = await this.limiter?.acquire(config.method ?? "GET", path);
+      try {
+        const response = await axios.request<T>({
+          ...config,
+          url: `${baseUrl}${path}`,
+          timeout: this.policy.timeoutMs,
+          headers,
+        });
+        return response.data;
+      } catch (error) {
+        if (!axios.isAxiosError(error)) throw error;
+        const retryAfterMs = parseRetryAfter(error.response?.headers["retry-after"]);
+        const giveUp =
+          attempt >= this.policy.maxRetries ||
+          !isRetryable(error, idempotent) ||
+          (retryAfterMs !== undefined && retryAfterMs > this.policy.maxDelayMs);
+        if (giveUp) {
+          throw FreepikApiError.fromAxios(error, config.method ?? "GET", path, retryAfterMs);
+        }
+
+        const backoffMs = Math.min(this.policy.maxDelayMs, BASE_DELAY_MS * 2 ** attempt);
+        retryDelayMs = retryAfterMs ?? Math.random() * backoffMs;
+      } finally {
+        // Free the slot before backing off, so a request waiting to retry does not block others.
+        release?.();
+      }
+      await sleep(retryDelayMs);
+    }
+  }
+}
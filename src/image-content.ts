@@ -0,0 +1,89 @@
+import axios from "axios";
+import sharp from "sharp";
+import { sniffImageType } from "./images.js";
+
+export interface ImageContent {
+  type: "image";
+  data: string;
+  mimeType: string;
+}
+
+export interface ImageContentOptions {
+  /** Longest side, in pixels, of an embedded image */
+  maxDimension: number;
+  /** Largest encoded size, in bytes, of an embedded image */
+  maxBytes: number;
+}
+
+/** Largest image fetched from a result URL (25 MB) */
+export const MAX_SOURCE_BYTES = 25 * 1024 * 1024;
+const FETCH_TIMEOUT_MS = 30_000;
+const EMBEDDABLE_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif"];
+
+function isSvg(data: Buffer, contentType: string | undefined): boolean {
+  return contentType?.includes("svg") === true || /^\s*(<\?xml[^>]*>\s*)?<svg[\s>]/i.test(data.subarray(0, 512).toString("utf8"));
+}
+
+/**
+ * Shrinks an image until it fits `options`, keeping PNG for images with
+ * transparency and using JPEG otherwise.
+ */
+async function downscale(data: Buffer, options: ImageContentOptions): Promise<ImageContent> {
+  const metadata = await sharp(data).metadata();
+  const keepAlpha = metadata.hasAlpha === true;
+  let dimension = Math.min(options.maxDimension, Math.max(metadata.width ?? 0, metadata.height ?? 0) || options.maxDimension);
+
+  for (;;) {
+    const pipeline = sharp(data).resize(dimension, dimension, { fit: "inside", withoutEnlargement: true });
+    const output = keepAlpha
+      ? await pipeline.png({ compressionLevel: 9 }).toBuffer()
+      : await pipeline.flatten({ background: "#ffffff" }).jpeg({ quality: 80 }).toBuffer();
+
+    if (output.length <= options.maxBytes || dimension <= 64) {
+      return { type: "image", data: output.toString("base64"), mimeType: keepAlpha ? "image/png" : "image/jpeg" };
+    }
+    dimension = Math.floor(dimension * 0.75);
+  }
+}
+
+/**
+ * Fetches a result image, failing on files larger than `MAX_SOURCE_BYTES` or
+ * servers slower than 30 seconds.
+ */
+export async function fetchImageData(url: string): Promise<{ data: Buffer; contentType?: string }> {
+  const response = await axios.get<ArrayBuffer>(url, {
+    responseType: "arraybuffer",
+    maxContentLength: MAX_SOURCE_BYTES,
+    timeout: FETCH_TIMEOUT_MS,
+  });
+  return { data: Buffer.from(response.data), contentType: response.headers["content-type"]?.toString() };
+}
+
+/**
+ * Fetches an image URL and returns it as an MCP image content block,
+ * downscaling it locally when it exceeds the configured size caps.
+ * SVG images are rasterized to PNG.
+ */
+export async function fetchImageContent(url: string, options: ImageContentOptions): Promise<ImageContent> {
+  const { data, contentType } = await fetchImageData(url);
+
+  if (isSvg(data, contentType)) {
+    return downscale(await sharp(data).png().toBuffer(), options);
+  }
+
+  const mimeType = sniffImageType(data);
+  if (!mimeType || !EMBEDDABLE_TYPES.includes(mimeType)) {
+    throw new Error(`${url} is not a supported image (${contentType || "unknown type"})`);
+  }
+
+  const metadata = await sharp(data).metadata();
+  const fits =
+    data.length <= options.maxBytes &&
+    (metadata.width ?? 0) <= options.maxDimension &&
+    (metadata.height ?? 0) <= options.maxDimension;
+
+  if (fits) {
+    return { type: "image", data: data.toString("base64"), mimeType };
+  }
+  return downscale(data, options);
+}
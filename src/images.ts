@@ -0,0 +1,253 @@
+import axios from "axios";
+import dns from "dns";
+import fs from "fs/promises";
+import http from "http";
+import https from "https";
+import net from "net";
+import path from "path";
+import { fileURLToPath } from "url";
+import { expandHome } from "./downloads.js";
+
+export const SUPPORTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+/** Largest image the server will read, fetch or forward (20 MB) */
+export const MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+export const IMAGE_INPUT_DESCRIPTION =
+  "local file path, file:// URI, http(s) URL, data URI or raw base64 (PNG, JPEG or WebP)";
+
+export class ImageInputError extends Error {
+  constructor(public field: string, message: string) {
+    super(`Invalid ${field}: ${message}`);
+    this.name = "ImageInputError";
+  }
+}
+
+/** What an image argument may point at; everything is allowed by default */
+export interface ImageInputOptions {
+  /** Read local paths and `file://` URIs */
+  allowLocalFiles?: boolean;
+  /** Fetch URLs on loopback, private and link-local addresses */
+  allowPrivateNetworks?: boolean;
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local, carrier-grade NAT
+ * or unspecified, i.e. on the server's side of the network rather than the
+ * public internet.
+ */
+export function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+  const lower = address.toLowerCase().replace(/^\[|\]$/g, "");
+  const mapped = /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/.exec(lower);
+  if (mapped) {
+    if (mapped[1]) return isPrivateAddress(mapped[1]);
+    const high = parseInt(mapped[2], 16);
+    const low = parseInt(mapped[3], 16);
+    return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return lower === "::" || lower === "::1" || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+}
+
+/**
+ * Resolves host names like `dns.lookup`, but fails for any that resolve to a
+ * private address. Checking at connect time also covers redirects and DNS
+ * answers that change between a check and the request.
+ */
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (error, address: string | dns.LookupAddress[], family?: number) => {
+    if (error) return callback(error, address as string, family);
+    const addresses = Array.isArray(address) ? address.map((entry) => entry.address) : [address];
+    if (addresses.some(isPrivateAddress)) {
+      return callback(
+        Object.assign(new Error(`${hostname} resolves to a private network address`), { code: "EPRIVATEADDRESS" }),
+        address as string,
+        family
+      );
+    }
+    callback(null, address as string, family);
+  });
+};
+
+const publicOnlyAgents = {
+  httpAgent: new http.Agent({ lookup: publicOnlyLookup }),
+  httpsAgent: new https.Agent({ lookup: publicOnlyLookup }),
+};
+
+/** IP literals never go through the lookup, so they are checked by hand, also on redirects */
+function assertPublicHost(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  if (net.isIP(host) && isPrivateAddress(host)) {
+    throw new Error(`${host} is a private network address`);
+  }
+}
+
+/**
+ * Detects the image MIME type from the file's magic bytes.
+ */
+export function sniffImageType(data: Buffer): string | undefined {
+  if (data.length >= 8 && data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return "image/png";
+  }
+  if (data.length >= 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+    return "image/jpeg";
+  }
+  if (data.length >= 12 && data.toString("ascii", 0, 4) === "RIFF" && data.toString("ascii", 8, 12) === "WEBP") {
+    return "image/webp";
+  }
+  if (data.length >= 6 && ["GIF87a", "GIF89a"].includes(data.toString("ascii", 0, 6))) {
+    return "image/gif";
+  }
+  return undefined;
+}
+
+function checkImage(field: string, data: Buffer, source: string): string {
+  if (data.length === 0) {
+    throw new ImageInputError(field, `${source} is empty`);
+  }
+  if (data.length > MAX_IMAGE_BYTES) {
+    throw new ImageInputError(
+      field,
+      `${source} is ${(data.length / 1024 / 1024).toFixed(1)} MB, larger than the ${MAX_IMAGE_BYTES / 1024 / 1024} MB limit`
+    );
+  }
+  const type = sniffImageType(data);
+  if (!type || !SUPPORTED_IMAGE_TYPES.includes(type)) {
+    throw new ImageInputError(
+      field,
+      `${source} is ${type ? `a ${type}` : "not a recognized"} image; supported types are ${SUPPORTED_IMAGE_TYPES.join(", ")}`
+    );
+  }
+  return data.toString("base64");
+}
+
+function looksLikePath(value: string): boolean {
+  return (
+    /^(\/|\.{1,2}[\\/]|~[\\/]?|[a-zA-Z]:[\\/])/.test(value) ||
+    /\.(png|jpe?g|webp|gif)$/i.test(value)
+  );
+}
+
+async function readImageFile(field: string, filePath: string): Promise<string> {
+  const resolved = path.resolve(expandHome(filePath));
+  let data: Buffer;
+  try {
+    const stat = await fs.stat(resolved);
+    if (!stat.isFile()) {
+      throw new ImageInputError(field, `${resolved} is not a file`);
+    }
+    if (stat.size > MAX_IMAGE_BYTES) {
+      throw new ImageInputError(field, `${resolved} is larger than the ${MAX_IMAGE_BYTES / 1024 / 1024} MB limit`);
+    }
+    data = await fs.readFile(resolved);
+  } catch (error: any) {
+    if (error instanceof ImageInputError) throw error;
+    if (error?.code === "ENOENT") {
+      throw new ImageInputError(field, `file not found: ${resolved}`);
+    }
+    throw new ImageInputError(field, `could not read ${resolved}: ${error?.message ?? error}`);
+  }
+  return checkImage(field, data, `file ${resolved}`);
+}
+
+async function fetchImage(field: string, url: string, allowPrivateNetworks: boolean): Promise<string> {
+  let data: Buffer;
+  try {
+    if (!allowPrivateNetworks) assertPublicHost(new URL(url).hostname);
+    const response = await axios.get<ArrayBuffer>(url, {
+      responseType: "arraybuffer",
+      maxContentLength: MAX_IMAGE_BYTES,
+      timeout: 30_000,
+      ...(allowPrivateNetworks ? {} : { ...publicOnlyAgents, beforeRedirect: (options) => assertPublicHost(options.hostname) }),
+    });
+    data = Buffer.from(response.data);
+  } catch (error) {
+    const reason =
+      axios.isAxiosError(error) && error.response
+        ? `HTTP ${error.response.status}`
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    throw new ImageInputError(field, `could not fetch ${url}: ${reason}`);
+  }
+  return checkImage(field, data, url);
+}
+
+function localFilesRefused(field: string): ImageInputError {
+  return new ImageInputError(
+    field,
+    "this server does not read local files for remote clients; send an http(s) URL, data URI or base64 instead"
+  );
+}
+
+function decodeDataUri(field: string, uri: string): string {
+  const match = /^data:([^;,]+)?(;base64)?,(.*)$/s.exec(uri);
+  if (!match || !match[2]) {
+    throw new ImageInputError(field, "data URI must be base64 encoded (data:image/png;base64,...)");
+  }
+  if (match[1] && !SUPPORTED_IMAGE_TYPES.includes(match[1])) {
+    throw new ImageInputError(field, `data URI type ${match[1]} is not supported; use ${SUPPORTED_IMAGE_TYPES.join(", ")}`);
+  }
+  return checkImage(field, Buffer.from(match[3], "base64"), "data URI");
+}
+
+/**
+ * Resolves an image argument to the raw base64 string the Freepik API expects.
+ *
+ * Accepts a local file path, a `file://` URI, an `http(s)` URL, a data URI or
+ * raw base64. The image is read or fetched by the server and its type is
+ * checked against `SUPPORTED_IMAGE_TYPES`. `options` can rule out local files
+ * and private network addresses, for inputs from remote clients.
+ */
+export async function resolveImageInput(field: string, value: unknown, options: ImageInputOptions = {}): Promise<string> {
+  const { allowLocalFiles = true, allowPrivateNetworks = true } = options;
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new ImageInputError(field, `expected a ${IMAGE_INPUT_DESCRIPTION}`);
+  }
+  const input = value.trim();
+
+  if (input.startsWith("data:")) {
+    return decodeDataUri(field, input);
+  }
+  if (/^https?:\/\//i.test(input)) {
+    return fetchImage(field, input, allowPrivateNetworks);
+  }
+  if (input.startsWith("file://")) {
+    if (!allowLocalFiles) throw localFilesRefused(field);
+    return readImageFile(field, fileURLToPath(input));
+  }
+
+  // Raw JPEG base64 starts with "/9j/", so a short string is only treated as a
+  // path if it points at an existing file or cannot be base64 image data.
+  const decoded = Buffer.from(input, "base64");
+  const isBase64Image = /^[A-Za-z0-9+/=\s]+$/.test(input) && sniffImageType(decoded) !== undefined;
+
+  if (!allowLocalFiles) {
+    // Without local files, probing the path would still reveal whether it exists.
+    if (!isBase64Image && looksLikePath(input)) throw localFilesRefused(field);
+  } else if (input.length <= 4096 && !input.includes("\n")) {
+    const exists = await fs
+      .stat(path.resolve(expandHome(input)))
+      .then((stat) => stat.isFile())
+      .catch(() => false);
+    if (exists || (!isBase64Image && looksLikePath(input))) {
+      return readImageFile(field, input);
+    }
+  }
+
+  if (!isBase64Image) {
+    throw new ImageInputError(field, `expected a ${IMAGE_INPUT_DESCRIPTION}`);
+  }
+  return checkImage(field, decoded, "base64 image");
+}
@@ -2,171 +2,162 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
   CallToolRequestSchema,
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  McpError,
+  ProgressToken,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import axios from "axios";
-import { URLSearchParams } from "url";
-
-interface FreepikResource {
-  id: string;
-  title: string;
-  url: string;
-  image: {
-    source: {
-      url: string;
-    };
-  };
-  author: {
-    username: string;
-  };
-  license: string;
-}
-
-interface FreepikResponse {
-  data: FreepikResource[];
-  meta: {
-    current_page: number;
-    per_page: number;
-    last_page: number;
-    total: number;
-    clean_search: boolean;
-  };
-}
-
-interface FreepikIcon {
-  id: number;
-  name: string;
-  thumbnails: {
-    png: string;
-    svg: string;
-  };
-  author: {
-    username: string;
-  };
-  tags: string[];
-  family: {
-    id: number;
-    name: string;
-  };
-}
-
-interface FreepikIconResponse {
-  data: FreepikIcon[];
-  meta: {
-    pagination: {
-      current_page: number;
-      per_page: number;
-      last_page: number;
-      total: number;
-    };
-  };
-}
-
-interface FreepikDownloadResponse {
-  data: {
-    filename: string;
-    url: string;
-  };
-}
-
-interface FreepikIconGenerationResponse {
-  task_id: string;
-  task_status: string;
-  generated?: string[];
-}
-
-interface FreepikIconGenerationRequest {
-  prompt: string;
-  webhook_url: string;
-  format?: string;
-  style?: string;
-  num_inference_steps?: number;
-  guidance_scale?: number;
-}
-
-interface FreepikMysticRequest {
-  prompt: string;
-  webhook_url?: string;
-  structure_reference?: string;
-  style_reference?: string;
-  resolution?: string;
-  aspect_ratio?: string;
-  model?: string;
-}
-
-interface FreepikFluxDevRequest {
-  prompt: string;
-  webhook_url?: string;
-  aspect_ratio?: string;
-  styling?: {
-    effects?: string[];
-    color?: string;
-  };
-  seed?: number;
+import crypto from "crypto";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { Reservation, SpendingSession, UsageReport } from "./budget.js";
+import { CacheInfo, CacheMode, collectCacheInfo } from "./cache.js";
+import { FreepikClient } from "./client.js";
+import { loadConfig, parseServerArgs, ServerConfig } from "./config.js";
+import { FreepikCredential } from "./credentials.js";
+import { collectDryRun, formatRequestPreview, RequestPreview } from "./dry-run.js";
+import { downloadToDirectory, expandHome, formatSavedFile, SavedFile } from "./downloads.js";
+import { describeError, formatToolError } from "./errors.js";
+import { McpHttpServer, SessionRejectedError } from "./http-transport.js";
+import { fetchImageContent, fetchImageData, ImageContent } from "./image-content.js";
+import { ImageInputOptions, resolveImageInput, sniffImageType } from "./images.js";
+import { journalPrompt } from "./journal.js";
+import { Requester } from "./notifications.js";
+import { getPrompt, listPrompts } from "./prompts.js";
+import { collectQueueWaits, QueueWait } from "./rate-limit.js";
+import {
+  assetUri,
+  generatedImageUri,
+  mimeTypeForPath,
+  parseResourceUri,
+  RESOURCE_TEMPLATES,
+  resourceUri,
+  taskUri,
+} from "./resources.js";
+import {
+  StructuredDownload,
+  StructuredIcon,
+  structuredJournalEntry,
+  StructuredResource,
+  structuredTask,
+} from "./structured-output.js";
+import { FreepikAccount, FreepikServices } from "./services.js";
+import { WatchReason } from "./task-watcher.js";
+import {
+  DEFAULT_POLL_INTERVAL_SECONDS,
+  DEFAULT_WAIT_TIMEOUT_SECONDS,
+  formatTask,
+  isTaskKind,
+  TASK_KIND_NAMES,
+  TASK_KINDS,
+  AITask,
+  TaskKind,
+  TaskTimeoutError,
+} from "./tasks.js";
+import { TOOLS } from "./tools.js";
+import {
+  FreepikDownloadResponse,
+  FreepikFluxDevRequest,
+  FreepikIcon,
+  FreepikIconGenerationRequest,
+  FreepikIconPreviewRequest,
+  FreepikImageExpandRequest,
+  FreepikImageUpscalerRequest,
+  FreepikMysticRequest,
+  FreepikReimagineFluxRequest,
+  FreepikResource,
+} from "./types.js";
+import { ToolArgumentsError, validateArguments } from "./validation.js";
+
+/**
+ * Per-call state handed to tool handlers alongside their arguments.
+ */
+interface ToolContext {
+  /** Name of the tool being called */
+  tool: string;
+  /** Token from the request's `_meta`, if the client asked for progress notifications */
+  progressToken?: ProgressToken;
+  /**
+   * Credits held for a paid call. Handlers commit it as soon as Freepik has
+   * accepted the paid request, so failures after that point are still charged.
+   */
+  reservation?: Reservation;
 }
 
-interface FreepikReimagineFluxRequest {
-  image: string;
-  prompt?: string;
-  webhook_url?: string;
-  imagination?: string;
-  aspect_ratio?: string;
+/** Result of a tool call, as sent in reply to `tools/call` */
+export interface ToolResult {
+  content: Array<{ type: string; text?: string; data?: string; mimeType?: string }>;
+  structuredContent?: Record<string, any>;
+  isError?: boolean;
+  _meta?: Record<string, any>;
 }
 
-interface FreepikAITaskResponse {
-  data: {
-    task_id: string;
-    status: string;
-    generated?: string[];
-    has_nsfw?: boolean;
+/**
+ * Adds the time a tool call spent queued behind the client-side rate limits to
+ * its result: in `_meta` for clients and as a note in the text for the model.
+ */
+function withQueueWaits<T extends { content: Array<{ type: string; text?: string }> }>(result: T, waits: QueueWait[]) {
+  if (waits.length === 0) return result;
+
+  const waitedMs = waits.reduce((total, wait) => total + wait.waited_ms, 0);
+  const families = [...new Set(waits.map((wait) => wait.family))].join(", ");
+  const note = `\n\n*Queued for ${(waitedMs / 1000).toFixed(1)}s by the client-side limits on ${families} requests.*`;
+  const [first, ...rest] = result.content;
+
+  return {
+    ...result,
+    content: first?.type === "text" ? [{ ...first, text: `${first.text}${note}` }, ...rest] : result.content,
+    _meta: { "freepik/queue": { waited_ms: waitedMs, requests: waits } },
   };
 }
 
-interface FreepikAITasksResponse {
-  data: Array<{
-    task_id: string;
-    status: string;
-  }>;
-}
-
-interface FreepikImageUpscalerRequest {
-  image: string;
-  webhook_url?: string;
-  scale_factor?: string;
-  optimized_for?: string;
-  prompt?: string;
-  creativity?: number;
-  hdr?: number;
-  resemblance?: number;
-  fractality?: number;
-  engine?: string;
-}
-
-interface FreepikRemoveBackgroundResponse {
-  original: string;
-  high_resolution: string;
-  preview: string;
-  url: string;
-}
-
-interface FreepikImageExpandRequest {
-  image: string;
-  prompt?: string;
-  left?: number;
-  right?: number;
-  top?: number;
-  bottom?: number;
-  webhook_url?: string;
+/**
+ * Parses a `YYYY-MM-DD` date (local time) or an ISO timestamp. A bare date used
+ * as an upper bound covers the whole day.
+ */
+function parseDateArgument(tool: string, name: string, value: string, endOfDay: boolean): Date {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(dateOnly ? `${value}T${endOfDay ? "23:59:59.999" : "00:00:00"}` : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new ToolArgumentsError(tool, [{ name, reason: `must be a date like 2025-01-31 or an ISO timestamp, got "${value}"` }]);
+  }
+  return date;
 }
 
+/**
+ * The MCP server of one client session: tools, resources and prompts on top of
+ * the services shared by every session.
+ */
 class FreepikMCPServer {
-  private server: Server;
-  private apiKey: string;
-  private baseUrl = "https://api.freepik.com/v1";
-
-  constructor() {
+  readonly server: Server;
+  /** Called once the client connection has closed */
+  onclose?: () => void;
+  private config: ServerConfig;
+  /** Freepik client and tasks of the key this session uses */
+  private account: FreepikAccount;
+  private client: FreepikClient;
+  /** Identifies this session and its key profile in task watches and usage records */
+  private session: SpendingSession;
+  /** Name of the token the client authenticated with over HTTP */
+  private caller?: string;
+  /** Resource URIs the client has subscribed to */
+  private subscriptions = new Set<string>();
+  /** Files saved by download tools during this session, keyed by absolute path */
+  private assets = new Map<string, SavedFile>();
+  private stopTaskUpdates?: () => void;
+
+  constructor(private services: FreepikServices, credential: FreepikCredential, caller?: string) {
     this.server = new Server(
       {
         name: "freepik-mcp",
@@ -175,718 +166,380 @@ class FreepikMCPServer {
       {
         capabilities: {
           tools: {},
+          prompts: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
         },
       }
     );
 
-    this.apiKey = process.env.FREEPIK_API_KEY || "";
-    if (!this.apiKey) {
-      console.error("FREEPIK_API_KEY environment variable is required");
-      process.exit(1);
-    }
+    this.config = services.config;
+    this.account = services.account(credential);
+    this.client = this.account.client;
+    this.session = { id: crypto.randomUUID(), started_at: new Date().toISOString(), profile: credential.profile };
+    this.caller = caller;
 
     this.setupToolHandlers();
+    this.setupResourceHandlers();
+    this.setupPromptHandlers();
+    this.server.onclose = () => {
+      this.dispose();
+      this.onclose?.();
+    };
+  }
+
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
+  async close() {
+    await this.server.close();
+  }
+
+  /** Releases what this session holds in the shared services */
+  private dispose() {
+    this.stopTaskUpdates?.();
+    for (const uri of this.subscriptions) {
+      const target = parseResourceUri(uri);
+      if (target && "taskId" in target) this.account.watcher.unwatch(target.kind, target.taskId, this.watchReason);
+    }
+    this.subscriptions.clear();
+    this.services.spending.endSession(this.session.id);
+    this.services.releaseAccount(this.account);
+  }
+
+  private get watchReason(): WatchReason {
+    return `session:${this.session.id}`;
   }
 
   private setupToolHandlers() {
     this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
-        {
-          name: "search_resources",
-          description: "Search for Freepik resources (images, vectors, PSDs) with various filters",
-          inputSchema: {
-            type: "object",
-            properties: {
-              query: {
-                type: "string",
-                description: "Search query for resources",
-              },
-              page: {
-                type: "number",
-                description: "Page number for pagination (default: 1)",
-                default: 1,
-              },
-              limit: {
-                type: "number",
-                description: "Number of results per page (default: 20, max: 200)",
-                default: 20,
-              },
-              orientation: {
-                type: "string",
-                enum: ["landscape", "portrait", "square", "panoramic"],
-                description: "Image orientation filter",
-              },
-              order: {
-                type: "string",
-                enum: ["relevance", "recent"],
-                description: "Sort order for results (default: relevance)",
-              },
-              license: {
-                type: "string",
-                enum: ["freemium", "premium"],
-                description: "License type filter",
-              },
-              people_number: {
-                type: "string",
-                enum: ["none", "one", "two", "group"],
-                description: "Number of people in the image",
-              },
-              people_ethnicity: {
-                type: "string",
-                enum: ["caucasian", "hispanic", "asian", "african", "middle_eastern", "native_american", "pacific_islander", "mixed"],
-                description: "Ethnicity filter for people in images",
-              },
-              ai_generated: {
-                type: "boolean",
-                description: "Filter for AI-generated content",
-              },
-              content_type: {
-                type: "string",
-                enum: ["photo", "vector", "psd"],
-                description: "Type of content to search for",
-              },
-              color: {
-                type: "string",
-                description: "Color filter (hex code without #, e.g., 'ff0000' for red)",
-              },
-              people_age: {
-                type: "string",
-                enum: ["infants", "children", "teenagers", "twenties", "thirties", "forties", "fifties", "sixties", "older"],
-                description: "Age group filter for people in images",
-              },
-              people_gender: {
-                type: "string",
-                enum: ["male", "female"],
-                description: "Gender filter for people in images",
-              },
-            },
-            required: [],
-          },
-        },
-        {
-          name: "search_icons",
-          description: "Search for Freepik icons with various filters",
-          inputSchema: {
-            type: "object",
-            properties: {
-              term: {
-                type: "string",
-                description: "Search term for icons",
-              },
-              slug: {
-                type: "string",
-                description: "Search by icon slug",
-              },
-              page: {
-                type: "number",
-                description: "Page number for pagination (default: 1)",
-                default: 1,
-              },
-              per_page: {
-                type: "number",
-                description: "Number of results per page (default: 20)",
-                default: 20,
-              },
-              family_id: {
-                type: "number",
-                description: "Specific icon family ID",
-              },
-              order: {
-                type: "string",
-                enum: ["relevance", "recent"],
-                description: "Sort order for results (default: relevance)",
-              },
-              color: {
-                type: "string",
-                description: "Color filter (e.g., red, blue, multicolor)",
-              },
-              shape: {
-                type: "string",
-                enum: ["outline", "fill"],
-                description: "Icon style filter",
-              },
-              free_svg: {
-                type: "boolean",
-                description: "Filter for free SVG icons",
-              },
-            },
-            required: [],
-          },
-        },
-        {
-          name: "download_icon",
-          description: "Download a Freepik icon in specified format and size",
-          inputSchema: {
-            type: "object",
-            properties: {
-              icon_id: {
-                type: "number",
-                description: "Unique icon resource ID",
-              },
-              format: {
-                type: "string",
-                enum: ["svg", "png", "gif", "mp4", "aep", "json", "psd", "eps"],
-                description: "Download format (default: svg)",
-                default: "svg",
-              },
-              png_size: {
-                type: "number",
-                enum: [512, 256, 128, 64, 32, 24, 16],
-                description: "PNG size in pixels (default: 512, only applies to PNG format)",
-                default: 512,
-              },
-            },
-            required: ["icon_id"],
-          },
-        },
-        {
-          name: "download_resource",
-          description: "Download a Freepik resource (photo, vector, PSD) by ID",
-          inputSchema: {
-            type: "object",
-            properties: {
-              resource_id: {
-                type: "string",
-                description: "Unique resource ID",
-              },
-              image_size: {
-                type: "string",
-                enum: ["small", "medium", "large", "original"],
-                description: "Resize photo while maintaining aspect ratio (default: original)",
-                default: "original",
-              },
-            },
-            required: ["resource_id"],
-          },
-        },
-        {
-          name: "download_resource_format",
-          description: "Download a Freepik resource in a specific format",
-          inputSchema: {
-            type: "object",
-            properties: {
-              resource_id: {
-                type: "string",
-                description: "Unique resource ID",
-              },
-              format: {
-                type: "string",
-                enum: ["psd", "ai", "eps", "png", "jpg", "svg"],
-                description: "Desired download format",
-              },
-            },
-            required: ["resource_id", "format"],
-          },
-        },
-        {
-          name: "generate_icon",
-          description: "Generate AI icons from text prompts using Freepik AI",
-          inputSchema: {
-            type: "object",
-            properties: {
-              prompt: {
-                type: "string",
-                description: "Text description for icon generation",
-              },
-              webhook_url: {
-                type: "string",
-                description: "URL to receive task results",
-              },
-              format: {
-                type: "string",
-                enum: ["png", "svg"],
-                description: "Output format (default: png)",
-                default: "png",
-              },
-              style: {
-                type: "string",
-                enum: ["solid", "outline", "color", "flat", "sticker"],
-                description: "Icon style",
-              },
-              num_inference_steps: {
-                type: "number",
-                minimum: 10,
-                maximum: 50,
-                description: "Generation complexity (10-50)",
-              },
-              guidance_scale: {
-                type: "number",
-                minimum: 0,
-                maximum: 10,
-                description: "Generation precision (0-10)",
-              },
-            },
-            required: ["prompt", "webhook_url"],
-          },
-        },
-        {
-          name: "generate_icon_preview",
-          description: "Generate AI icon previews from text prompts",
-          inputSchema: {
-            type: "object",
-            properties: {
-              prompt: {
-                type: "string",
-                description: "Text description for icon generation",
-              },
-              webhook_url: {
-                type: "string",
-                description: "URL to receive task results",
-              },
-              style: {
-                type: "string",
-                enum: ["solid", "outline", "color", "flat", "sticker"],
-                description: "Icon style",
-              },
-              num_inference_steps: {
-                type: "number",
-                minimum: 10,
-                maximum: 50,
-                description: "Generation complexity (10-50)",
-              },
-              guidance_scale: {
-                type: "number",
-                minimum: 0,
-                maximum: 10,
-                description: "Generation precision (0-10)",
-              },
-            },
-            required: ["prompt", "webhook_url"],
-          },
-        },
-        {
-          name: "render_generated_icon",
-          description: "Download generated AI icon in specified format",
-          inputSchema: {
-            type: "object",
-            properties: {
-              task_id: {
-                type: "string",
-                description: "Unique identifier for the icon generation task",
-              },
-              format: {
-                type: "string",
-                enum: ["png", "svg"],
-                description: "Download format",
-                default: "png",
-              },
-            },
-            required: ["task_id", "format"],
-          },
-        },
-        {
-          name: "generate_mystic",
-          description: "Generate high-resolution images using Freepik's Mystic AI workflow",
-          inputSchema: {
-            type: "object",
-            properties: {
-              prompt: {
-                type: "string",
-                description: "Text description of desired image",
-              },
-              webhook_url: {
-                type: "string",
-                description: "Optional callback URL for task status updates",
-              },
-              structure_reference: {
-                type: "string",
-                description: "Base64 image to influence image shape",
-              },
-              style_reference: {
-                type: "string",
-                description: "Base64 image to influence image aesthetic",
-              },
-              resolution: {
-                type: "string",
-                enum: ["1k", "2k", "4k"],
-                description: "Image resolution",
-              },
-              aspect_ratio: {
-                type: "string",
-                enum: ["square_1_1", "widescreen_16_9", "classic_4_3", "social_story_9_16"],
-                description: "Image aspect ratio",
-              },
-              model: {
-                type: "string",
-                enum: ["realism", "fluid", "zen"],
-                description: "Generation model type",
-              },
-            },
-            required: ["prompt"],
-          },
-        },
-        {
-          name: "get_mystic_task",
-          description: "Get status and results of a Mystic generation task",
-          inputSchema: {
-            type: "object",
-            properties: {
-              task_id: {
-                type: "string",
-                description: "Unique identifier for the Mystic task",
-              },
-            },
-            required: ["task_id"],
-          },
-        },
-        {
-          name: "list_mystic_tasks",
-          description: "List all Mystic generation tasks",
-          inputSchema: {
-            type: "object",
-            properties: {},
-            required: [],
-          },
-        },
-        {
-          name: "generate_flux_dev",
-          description: "Generate images using Flux Dev AI model",
-          inputSchema: {
-            type: "object",
-            properties: {
-              prompt: {
-                type: "string",
-                description: "Text description of desired image",
-              },
-              webhook_url: {
-                type: "string",
-                description: "Optional callback URL for task status updates",
-              },
-              aspect_ratio: {
-                type: "string",
-                enum: ["square_1_1", "classic_4_3", "widescreen_16_9", "social_story_9_16"],
-                description: "Image aspect ratio (default: square_1_1)",
-                default: "square_1_1",
-              },
-              styling: {
-                type: "object",
-                properties: {
-                  effects: {
-                    type: "array",
-                    items: { type: "string" },
-                    description: "Visual effects (color, framing, lightning)",
-                  },
-                  color: {
-                    type: "string",
-                    description: "Custom color palette",
-                  },
-                },
-                description: "Styling options for the generated image",
-              },
-              seed: {
-                type: "number",
-                description: "Specific seed for image generation",
-              },
-            },
-            required: ["prompt"],
-          },
-        },
-        {
-          name: "get_flux_dev_task",
-          description: "Get status and results of a Flux Dev generation task",
-          inputSchema: {
-            type: "object",
-            properties: {
-              task_id: {
-                type: "string",
-                description: "Unique identifier for the Flux Dev task",
-              },
-            },
-            required: ["task_id"],
-          },
-        },
-        {
-          name: "list_flux_dev_tasks",
-          description: "List all Flux Dev generation tasks",
-          inputSchema: {
-            type: "object",
-            properties: {},
-            required: [],
-          },
-        },
-        {
-          name: "reimagine_flux",
-          description: "Reimagine existing images using Flux AI (Beta)",
-          inputSchema: {
-            type: "object",
-            properties: {
-              image: {
-                type: "string",
-                description: "Base64 encoded image",
-              },
-              prompt: {
-                type: "string",
-                description: "Optional text description for image generation",
-              },
-              webhook_url: {
-                type: "string",
-                description: "Optional callback URL for task status updates",
-              },
-              imagination: {
-                type: "string",
-                enum: ["wild", "subtle", "vivid"],
-                description: "Creativity level for reimagining",
-              },
-              aspect_ratio: {
-                type: "string",
-                enum: ["original", "square_1_1", "classic_4_3", "widescreen_16_9", "social_story_9_16"],
-                description: "Image aspect ratio (default: original)",
-                default: "original",
-              },
-            },
-            required: ["image"],
-          },
-        },
-        {
-          name: "upscale_image",
-          description: "Upscale images using AI image upscaler",
-          inputSchema: {
-            type: "object",
-            properties: {
-              image: {
-                type: "string",
-                description: "Base64 encoded image to upscale (max 25.3 million pixels)",
-              },
-              webhook_url: {
-                type: "string",
-                description: "Optional callback URL for task notifications",
-              },
-              scale_factor: {
-                type: "string",
-                enum: ["2x", "4x", "8x", "16x"],
-                description: "Image scaling factor",
-              },
-              optimized_for: {
-                type: "string",
-                enum: ["standard", "soft_portraits", "art_n_illustration"],
-                description: "Optimization style",
-              },
-              prompt: {
-                type: "string",
-                description: "Guide the upscaling process",
-              },
-              creativity: {
-                type: "number",
-                minimum: -10,
-                maximum: 10,
-                description: "AI creativity level (-10 to 10)",
-              },
-              hdr: {
-                type: "number",
-                minimum: -10,
-                maximum: 10,
-                description: "Detail/definition level (-10 to 10)",
-              },
-              resemblance: {
-                type: "number",
-                minimum: -10,
-                maximum: 10,
-                description: "Original image similarity (-10 to 10)",
-              },
-              fractality: {
-                type: "number",
-                minimum: -10,
-                maximum: 10,
-                description: "Prompt strength per pixel (-10 to 10)",
-              },
-              engine: {
-                type: "string",
-                description: "Specific Magnific model (e.g., 'magnific_sparkle')",
-              },
-            },
-            required: ["image"],
-          },
-        },
-        {
-          name: "get_upscaler_task",
-          description: "Get status and results of an image upscaler task",
-          inputSchema: {
-            type: "object",
-            properties: {
-              task_id: {
-                type: "string",
-                description: "Unique identifier for the upscaler task",
-              },
-            },
-            required: ["task_id"],
-          },
-        },
-        {
-          name: "list_upscaler_tasks",
-          description: "List all image upscaler tasks",
-          inputSchema: {
-            type: "object",
-            properties: {},
-            required: [],
-          },
-        },
-        {
-          name: "remove_background",
-          description: "Remove background from an image (Beta)",
-          inputSchema: {
-            type: "object",
-            properties: {
-              image_url: {
-                type: "string",
-                description: "URL of the image to process",
-              },
-            },
-            required: ["image_url"],
-          },
-        },
-        {
-          name: "expand_image",
-          description: "Expand an image using AI Flux Pro model",
-          inputSchema: {
-            type: "object",
-            properties: {
-              image: {
-                type: "string",
-                description: "Base64 encoded image",
-              },
-              prompt: {
-                type: "string",
-                description: "Text description guiding expansion",
-              },
-              left: {
-                type: "number",
-                minimum: 0,
-                maximum: 2048,
-                description: "Pixels to expand left (max 2048)",
-              },
-              right: {
-                type: "number",
-                minimum: 0,
-                maximum: 2048,
-                description: "Pixels to expand right (max 2048)",
-              },
-              top: {
-                type: "number",
-                minimum: 0,
-                maximum: 2048,
-                description: "Pixels to expand top (max 2048)",
-              },
-              bottom: {
-                type: "number",
-                minimum: 0,
-                maximum: 2048,
-                description: "Pixels to expand bottom (max 2048)",
-              },
-              webhook_url: {
-                type: "string",
-                description: "Optional callback URL for task status updates",
-              },
-            },
-            required: ["image"],
-          },
-        },
-        {
-          name: "get_expand_task",
-          description: "Get status and results of an image expand task",
-          inputSchema: {
-            type: "object",
-            properties: {
-              task_id: {
-                type: "string",
-                description: "Unique identifier for the expand task",
-              },
-            },
-            required: ["task_id"],
-          },
-        },
-        {
-          name: "list_expand_tasks",
-          description: "List all image expand tasks",
-          inputSchema: {
-            type: "object",
-            properties: {},
-            required: [],
+      tools: TOOLS,
+    }));
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (request) =>
+      this.callTool(request.params.name, request.params.arguments, request.params._meta?.progressToken)
+    );
+  }
+
+  /**
+   * Validates and runs one tool call as `tools/call` does, budget checks and
+   * dry runs included. Failures are returned as an `isError` result rather
+   * than thrown. The command-line interface calls tools through here.
+   */
+  async callTool(name: string, rawArgs: unknown, progressToken?: ProgressToken): Promise<ToolResult> {
+    const context: ToolContext = { tool: name, progressToken };
+
+    try {
+      const tool = TOOLS.find((candidate) => candidate.name === name);
+      if (!tool) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+      // Defaults below go on a copy, so the caller's arguments stay as sent.
+      const args: any = { ...validateArguments(name, tool.inputSchema, rawArgs) };
+      if (this.services.webhooks && tool.inputSchema.properties?.webhook_url && args.webhook_url === undefined) {
+        args.webhook_url = this.services.webhooks.callbackUrl;
+      }
+
+      if (args.save_to !== undefined) {
+        args.save_to = this.saveDirectory(name, args.save_to);
+      }
+
+      if (args.dry_run ?? this.config.dryRun) {
+        return await this.services.track(() => this.dryRun(name, args, context));
+      }
+
+      context.reservation = this.services.spending.authorize(name, args, this.session);
+      let outcome;
+      try {
+        outcome = await this.services.track(() => collectQueueWaits(() => this.runTool(name, args, context)));
+      } finally {
+        // Frees the credits unless the handler committed them, i.e. the paid request itself failed.
+        context.reservation?.release();
+      }
+      return withQueueWaits(outcome.value, outcome.waits);
+    } catch (error) {
+      const details = describeError(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatToolError(details),
           },
-        },
+        ],
+        isError: true,
+        _meta: { "freepik/error": details },
+      };
+    }
+  }
+
+  /**
+   * Runs a tool with its Freepik requests stopped before they are sent, and
+   * returns previews of them with the estimated cost. Tools that never call
+   * Freepik return their usual result.
+   */
+  private async dryRun(name: string, args: any, context: ToolContext) {
+    const { value, requests } = await collectDryRun(() => this.runTool(name, args, context));
+    if (requests.length === 0) return value!;
+
+    const credits = this.services.spending.estimate(name, args);
+    const preview: { tool: string; estimated_credits?: number; requests: RequestPreview[] } = {
+      tool: name,
+      ...(credits !== undefined ? { estimated_credits: credits } : {}),
+      requests,
+    };
+    const blocks = requests.map((request) => formatRequestPreview(request)).join("\n\n");
+
+    return {
+      content: [
         {
-          name: "get_resource_details",
-          description: "Get detailed information about a specific Freepik resource",
-          inputSchema: {
-            type: "object",
-            properties: {
-              resource_id: {
-                type: "string",
-                description: "The ID of the resource to get details for",
-              },
-            },
-            required: ["resource_id"],
-          },
+          type: "text",
+          text: `**Dry Run: ${name}**\n\n- **Estimated cost**: ${
+            credits !== undefined ? `${credits} credit${credits === 1 ? "" : "s"}` : "free"
+          }\n\n${blocks}\n\n*Nothing was sent to Freepik. Call again without dry_run to send ${
+            requests.length === 1 ? "this request" : "these requests"
+          }.*`,
         },
       ],
+      _meta: { "freepik/dry_run": preview },
+    };
+  }
+
+  private async runTool(name: string, args: any, context: ToolContext) {
+    switch (name) {
+      case "search_resources":
+        return await this.searchResources(args);
+      case "search_icons":
+        return await this.searchIcons(args);
+      case "download_icon":
+        return await this.downloadIcon(args, context);
+      case "download_resource":
+        return await this.downloadResource(args, context);
+      case "download_resource_format":
+        return await this.downloadResourceFormat(args, context);
+      case "generate_icon":
+        return await this.generateIcon(args, context);
+      case "generate_icon_preview":
+        return await this.generateIconPreview(args, context);
+      case "render_generated_icon":
+        return await this.renderGeneratedIcon(args);
+      case "generate_mystic":
+        return await this.generateMystic(args, context);
+      case "get_mystic_task":
+        return await this.getTask({ ...args, kind: "mystic" });
+      case "list_mystic_tasks":
+        return await this.listTasks({ kind: "mystic" });
+      case "generate_flux_dev":
+        return await this.generateFluxDev(args, context);
+      case "get_flux_dev_task":
+        return await this.getTask({ ...args, kind: "flux_dev" });
+      case "list_flux_dev_tasks":
+        return await this.listTasks({ kind: "flux_dev" });
+      case "reimagine_flux":
+        return await this.reimagineFlux(args, context);
+      case "upscale_image":
+        return await this.upscaleImage(args, context);
+      case "get_upscaler_task":
+        return await this.getTask({ ...args, kind: "upscaler" });
+      case "list_upscaler_tasks":
+        return await this.listTasks({ kind: "upscaler" });
+      case "remove_background":
+        return await this.removeBackground(args, context);
+      case "expand_image":
+        return await this.expandImage(args, context);
+      case "get_expand_task":
+        return await this.getTask({ ...args, kind: "expand" });
+      case "list_expand_tasks":
+        return await this.listTasks({ kind: "expand" });
+      case "get_task":
+        return await this.getTask(args);
+      case "list_tasks":
+        return await this.listTasks(args);
+      case "wait_for_task":
+        return await this.waitForTask(args, context);
+      case "search_task_history":
+        return this.searchTaskHistory(args);
+      case "get_webhook_events":
+        return this.getWebhookEvents(args);
+      case "get_resource_details":
+        return await this.getResourceDetails(args);
+      case "get_cache_stats":
+        return this.getCacheStats();
+      case "get_usage":
+        return this.getUsage();
+      default:
+        throw new Error(`Unknown tool: ${name}`);
+    }
+  }
+
+  private setupResourceHandlers() {
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const target = parseResourceUri(uri);
+      if (target?.type !== "task" && target?.type !== "generated") {
+        throw new McpError(ErrorCode.InvalidParams, `Only task resources can be subscribed to: ${uri}`);
+      }
+      this.subscriptions.add(uri);
+      this.account.watcher.watch(target.kind, target.taskId, this.watchReason);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      this.subscriptions.delete(uri);
+      const target = parseResourceUri(uri);
+      if (target && (target.type === "task" || target.type === "generated")) {
+        const stillWatched = [...this.subscriptions].some((other) => {
+          const parsed = parseResourceUri(other);
+          return parsed && "taskId" in parsed && parsed.taskId === target.taskId && parsed.kind === target.kind;
+        });
+        if (!stillWatched) this.account.watcher.unwatch(target.kind, target.taskId, this.watchReason);
+      }
+      return {};
+    });
+
+    this.stopTaskUpdates = this.client.tasks.onStatusChange(
+      (task, previousStatus) => void this.notifyTaskChanged(task, previousStatus)
+    );
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_TEMPLATES,
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: [...this.listTaskResources(), ...(await this.listAssetResources())],
+    }));
 
-      try {
-        switch (name) {
-          case "search_resources":
-            return await this.searchResources(args);
-          case "search_icons":
-            return await this.searchIcons(args);
-          case "download_icon":
-            return await this.downloadIcon(args);
-          case "download_resource":
-            return await this.downloadResource(args);
-          case "download_resource_format":
-            return await this.downloadResourceFormat(args);
-          case "generate_icon":
-            return await this.generateIcon(args);
-          case "generate_icon_preview":
-            return await this.generateIconPreview(args);
-          case "render_generated_icon":
-            return await this.renderGeneratedIcon(args);
-          case "generate_mystic":
-            return await this.generateMystic(args);
-          case "get_mystic_task":
-            return await this.getMysticTask(args);
-          case "list_mystic_tasks":
-            return await this.listMysticTasks(args);
-          case "generate_flux_dev":
-            return await this.generateFluxDev(args);
-          case "get_flux_dev_task":
-            return await this.getFluxDevTask(args);
-          case "list_flux_dev_tasks":
-            return await this.listFluxDevTasks(args);
-          case "reimagine_flux":
-            return await this.reimagineFlux(args);
-          case "upscale_image":
-            return await this.upscaleImage(args);
-          case "get_upscaler_task":
-            return await this.getUpscalerTask(args);
-          case "list_upscaler_tasks":
-            return await this.listUpscalerTasks(args);
-          case "remove_background":
-            return await this.removeBackground(args);
-          case "expand_image":
-            return await this.expandImage(args);
-          case "get_expand_task":
-            return await this.getExpandTask(args);
-          case "list_expand_tasks":
-            return await this.listExpandTasks(args);
-          case "get_resource_details":
-            return await this.getResourceDetails(args);
-          default:
-            throw new Error(`Unknown tool: ${name}`);
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      const target = parseResourceUri(uri);
+
+      switch (target?.type) {
+        case "task": {
+          const task = await this.client.tasks.get(target.kind, target.taskId);
+          return {
+            contents: [{ uri, mimeType: "application/json", text: JSON.stringify(task, null, 2) }],
+          };
+        }
+        case "generated": {
+          const task = await this.client.tasks.get(target.kind, target.taskId);
+          const url = task.generated?.[target.index - 1];
+          if (!url) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `Task ${target.taskId} has no generated image ${target.index} (status: ${task.status})`
+            );
+          }
+          const { data } = await fetchImageData(url);
+          return {
+            contents: [{ uri, mimeType: sniffImageType(data) ?? mimeTypeForPath(url), blob: data.toString("base64") }],
+          };
+        }
+        case "resource": {
+          const { value: resource } = await this.fetchResource(target.id);
+          return {
+            contents: [{ uri, mimeType: "application/json", text: JSON.stringify(resource, null, 2) }],
+          };
+        }
+        case "asset": {
+          if (!this.isReadableAsset(target.path)) {
+            throw new McpError(ErrorCode.InvalidParams, `Not a downloaded asset: ${target.path}`);
+          }
+          const data = await fs.readFile(target.path).catch(() => {
+            throw new McpError(ErrorCode.InvalidParams, `Asset not found: ${target.path}`);
+          });
+          return {
+            contents: [{ uri, mimeType: mimeTypeForPath(target.path), blob: data.toString("base64") }],
+          };
         }
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: "text",
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`,
-            },
-          ],
-        };
+        default:
+          throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
       }
     });
   }
 
+  private setupPromptHandlers() {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: listPrompts(),
+    }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      getPrompt(request.params.name, request.params.arguments)
+    );
+  }
+
+  /**
+   * Sends `notifications/resources/updated` for every subscribed URI of a task
+   * whose status changed, and `list_changed` when the task gains generated images.
+   */
+  private async notifyTaskChanged(task: AITask, previousStatus: string | undefined) {
+    // Sessions used without a client, such as by the command-line interface, have no one to notify.
+    if (!this.server.transport) return;
+    const prefix = taskUri(task.kind, task.task_id);
+    try {
+      for (const uri of this.subscriptions) {
+        if (uri === prefix || uri.startsWith(`${prefix}/`)) {
+          await this.server.sendResourceUpdated({ uri });
+        }
+      }
+      if (previousStatus !== undefined && task.generated && task.generated.length > 0) {
+        await this.server.sendResourceListChanged();
+      }
+    } catch (error) {
+      process.stderr.write(`Failed to send resource notification: ${error}\n`);
+    }
+  }
+
+  private listTaskResources() {
+    return this.client.tasks.known().flatMap(({ kind, task_id, last }) => [
+      {
+        uri: taskUri(kind, task_id),
+        name: `${TASK_KINDS[kind].label} task ${task_id}`,
+        description: last ? `Status: ${last.status}` : "Submitted through this server",
+        mimeType: "application/json",
+      },
+      ...(last?.generated ?? []).map((url, index) => ({
+        uri: generatedImageUri(kind, task_id, index + 1),
+        name: `${TASK_KINDS[kind].label} task ${task_id} image ${index + 1}`,
+        mimeType: mimeTypeForPath(new URL(url).pathname),
+      })),
+    ]);
+  }
+
+  /**
+   * Lists files saved during this session plus any files already in the
+   * configured output directory.
+   */
+  private async listAssetResources() {
+    const paths = new Set(this.assets.keys());
+    if (this.config.outputDir) {
+      const directory = path.resolve(this.config.outputDir);
+      const entries = await fs.readdir(directory, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        if (entry.isFile() && !entry.name.startsWith(".")) paths.add(path.join(directory, entry.name));
+      }
+    }
+
+    return [...paths].map((filePath) => ({
+      uri: assetUri(filePath),
+      name: path.basename(filePath),
+      description: this.assets.has(filePath) ? `SHA-256: ${this.assets.get(filePath)!.sha256}` : undefined,
+      mimeType: mimeTypeForPath(filePath),
+    }));
+  }
+
+  /**
+   * Assets are limited to files saved by this server and files directly inside
+   * the configured output directory, so resource reads cannot reach arbitrary paths.
+   */
+  private isReadableAsset(filePath: string) {
+    if (this.assets.has(filePath)) return true;
+    if (!this.config.outputDir) return false;
+    return path.dirname(filePath) === path.resolve(this.config.outputDir) && !path.basename(filePath).startsWith(".");
+  }
+
   private async searchResources(args: any) {
     const {
       query = "",
@@ -902,53 +555,56 @@ class FreepikMCPServer {
       people_number,
       people_ethnicity,
       ai_generated,
+      cache: cacheMode,
     } = args;
 
-    const params = new URLSearchParams();
-    if (query) params.append("term", query);
-    params.append("page", page.toString());
-    params.append("limit", Math.min(limit, 200).toString());
-    if (orientation) params.append("orientation", orientation);
-    if (order) params.append("order", order);
-    if (license) params.append("license", license);
-    if (content_type) params.append("content_type", content_type);
-    if (color) params.append("color", color);
-    if (people_age) params.append("people_age", people_age);
-    if (people_gender) params.append("people_gender", people_gender);
-    if (people_number) params.append("people_number", people_number);
-    if (people_ethnicity) params.append("people_ethnicity", people_ethnicity);
-    if (ai_generated !== undefined) params.append("ai_generated", ai_generated.toString());
-
-    const response = await axios.get<FreepikResponse>(
-      `${this.baseUrl}/resources?${params.toString()}`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-        },
-      }
+    const { value: response, cache } = await collectCacheInfo(() =>
+      this.client.searchResources(
+        {
+          term: query,
+          page,
+          limit,
+          orientation,
+          order,
+          license,
+          content_type,
+          color,
+          people_age,
+          people_gender,
+          people_number,
+          people_ethnicity,
+          ai_generated,
+        },
+        { cache: cacheMode }
+      )
     );
 
-    const resources = response.data.data.map((resource: FreepikResource) => ({
-      id: resource.id,
-      title: resource.title,
-      url: resource.url,
-      image_url: resource.image.source.url,
-      author: resource.author.username,
-      license: resource.license,
-    }));
+    const resources = response.data.map((resource) => this.structuredResource(resource));
+    const { meta } = response;
 
     return {
       content: [
         {
           type: "text",
-          text: `Found ${response.data.meta.total} resources (showing page ${response.data.meta.current_page} of ${response.data.meta.last_page}):\n\n${resources
+          text: `Found ${meta.total} resources (showing page ${meta.current_page} of ${meta.last_page}):\n\n${resources
             .map(
-              (r: any) =>
+              (r) =>
                 `**${r.title}**\n- ID: ${r.id}\n- Author: ${r.author}\n- License: ${r.license}\n- Image: ${r.image_url}\n- URL: ${r.url}`
             )
-            .join("\n\n")}`,
+            .join("\n\n")}${this.cacheNote(cache)}`,
         },
+        ...(await this.imageContent(resources.map((r) => r.image_url), args)),
       ],
+      structuredContent: {
+        resources,
+        pagination: {
+          page: meta.current_page,
+          per_page: meta.per_page,
+          last_page: meta.last_page,
+          total: meta.total,
+        },
+        ...(cache ? { cache } : {}),
+      },
     };
   }
 
@@ -963,415 +619,322 @@ class FreepikMCPServer {
       color,
       shape,
       free_svg,
+      cache: cacheMode,
     } = args;
 
-    const params = new URLSearchParams();
-    if (term) params.append("term", term);
-    if (slug) params.append("slug", slug);
-    params.append("page", page.toString());
-    params.append("per_page", per_page.toString());
-    if (family_id) params.append("family-id", family_id.toString());
-    if (order) params.append("order", order);
-    if (color) params.append("color", color);
-    if (shape) params.append("shape", shape);
-    if (free_svg !== undefined) params.append("free_svg", free_svg.toString());
-
-    const response = await axios.get<FreepikIconResponse>(
-      `${this.baseUrl}/icons?${params.toString()}`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-        },
-      }
+    const { value: response, cache } = await collectCacheInfo(() =>
+      this.client.searchIcons({ term, slug, page, per_page, family_id, order, color, shape, free_svg }, { cache: cacheMode })
     );
 
-    const icons = response.data.data.map((icon: FreepikIcon) => ({
+    const icons = response.data.map((icon: FreepikIcon): StructuredIcon => ({
       id: icon.id,
       name: icon.name,
       png_url: icon.thumbnails.png,
       svg_url: icon.thumbnails.svg,
       author: icon.author.username,
-      tags: icon.tags.join(", "),
+      tags: icon.tags,
+      family_id: icon.family.id,
       family: icon.family.name,
     }));
+    const { pagination } = response.meta;
 
     return {
       content: [
         {
           type: "text",
-          text: `Found ${response.data.meta.pagination.total} icons (showing page ${response.data.meta.pagination.current_page} of ${response.data.meta.pagination.last_page}):\n\n${icons
+          text: `Found ${pagination.total} icons (showing page ${pagination.current_page} of ${pagination.last_page}):\n\n${icons
             .map(
-              (i: any) =>
-                `**${i.name}**\n- ID: ${i.id}\n- Author: ${i.author}\n- Family: ${i.family}\n- Tags: ${i.tags}\n- PNG: ${i.png_url}\n- SVG: ${i.svg_url}`
+              (i) =>
+                `**${i.name}**\n- ID: ${i.id}\n- Author: ${i.author}\n- Family: ${i.family}\n- Tags: ${i.tags.join(", ")}\n- PNG: ${i.png_url}\n- SVG: ${i.svg_url}`
             )
-            .join("\n\n")}`,
+            .join("\n\n")}${this.cacheNote(cache)}`,
         },
+        ...(await this.imageContent(icons.map((icon) => icon.png_url), args)),
       ],
+      structuredContent: {
+        icons,
+        pagination: {
+          page: pagination.current_page,
+          per_page: pagination.per_page,
+          last_page: pagination.last_page,
+          total: pagination.total,
+        },
+        ...(cache ? { cache } : {}),
+      },
     };
   }
 
-  private async downloadIcon(args: any) {
+  private async downloadIcon(args: any, context: ToolContext) {
     const { icon_id, format = "svg", png_size = 512 } = args;
 
-    const params = new URLSearchParams();
-    if (format) params.append("format", format);
-    if (format === "png" && png_size) params.append("png_size", png_size.toString());
-
-    const response = await axios.get<FreepikDownloadResponse>(
-      `${this.baseUrl}/icons/${icon_id}/download?${params.toString()}`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-        },
-      }
-    );
+    const response = await this.client.downloadIcon(icon_id, { format, png_size });
+    context.reservation?.commit();
 
-    const downloadData = response.data.data;
+    const downloadData = response.data;
+    const saved = await this.saveDownload(downloadData.url, downloadData.filename, args);
 
     return {
       content: [
         {
           type: "text",
-          text: `**Icon Download Ready**\n\n- **Filename**: ${downloadData.filename}\n- **Format**: ${format}\n- **Download URL**: ${downloadData.url}\n\n*Note: Download URL is temporary and should be used immediately.*`,
+          text: `**Icon Download Ready**\n\n- **Filename**: ${downloadData.filename}\n- **Format**: ${format}\n- **Download URL**: ${downloadData.url}${this.downloadFooter(saved)}`,
         },
       ],
+      structuredContent: this.structuredDownload(downloadData, saved, { format }),
     };
   }
 
-  private async downloadResource(args: any) {
+  private async downloadResource(args: any, context: ToolContext) {
     const { resource_id, image_size = "original" } = args;
 
-    const params = new URLSearchParams();
-    if (image_size && image_size !== "original") {
-      params.append("image_size", image_size);
-    }
-
-    const response = await axios.get<FreepikDownloadResponse>(
-      `${this.baseUrl}/resources/${resource_id}/download?${params.toString()}`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-        },
-      }
-    );
+    const response = await this.client.downloadResource(resource_id, { image_size });
+    context.reservation?.commit();
 
-    const downloadData = response.data.data;
+    const downloadData = response.data;
+    const saved = await this.saveDownload(downloadData.url, downloadData.filename, args);
 
     return {
       content: [
         {
           type: "text",
-          text: `**Resource Download Ready**\n\n- **Filename**: ${downloadData.filename}\n- **Image Size**: ${image_size}\n- **Download URL**: ${downloadData.url}\n\n*Note: Download URL is temporary and should be used immediately.*`,
+          text: `**Resource Download Ready**\n\n- **Filename**: ${downloadData.filename}\n- **Image Size**: ${image_size}\n- **Download URL**: ${downloadData.url}${this.downloadFooter(saved)}`,
         },
       ],
+      structuredContent: this.structuredDownload(downloadData, saved, { image_size }),
     };
   }
 
-  private async downloadResourceFormat(args: any) {
+  private async downloadResourceFormat(args: any, context: ToolContext) {
     const { resource_id, format } = args;
 
-    const response = await axios.get<FreepikDownloadResponse>(
-      `${this.baseUrl}/resources/${resource_id}/download/${format}`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-        },
-      }
-    );
+    const response = await this.client.downloadResourceFormat(resource_id, format);
+    context.reservation?.commit();
 
-    const downloadData = response.data.data;
+    const downloadData = response.data;
+    const saved = await this.saveDownload(downloadData.url, downloadData.filename, args);
 
     return {
       content: [
         {
           type: "text",
-          text: `**Resource Download Ready**\n\n- **Filename**: ${downloadData.filename}\n- **Format**: ${format}\n- **Download URL**: ${downloadData.url}\n\n*Note: Download URL is temporary and should be used immediately.*`,
+          text: `**Resource Download Ready**\n\n- **Filename**: ${downloadData.filename}\n- **Format**: ${format}\n- **Download URL**: ${downloadData.url}${this.downloadFooter(saved)}`,
         },
       ],
+      structuredContent: this.structuredDownload(downloadData, saved, { format }),
     };
   }
 
-  private async generateIcon(args: any) {
-    const {
-      prompt,
-      webhook_url,
-      format = "png",
-      style,
-      num_inference_steps,
-      guidance_scale,
-    } = args;
+  /**
+   * Whether this session's client is remote, and so must not reach the host's
+   * files or private network through tool arguments.
+   */
+  private get hostRestricted(): boolean {
+    return this.config.transport === "http" && !this.config.httpLocalAccess;
+  }
 
-    const requestBody: FreepikIconGenerationRequest = {
-      prompt,
-      webhook_url,
-    };
+  private get imageInputOptions(): ImageInputOptions {
+    return { allowLocalFiles: !this.hostRestricted, allowPrivateNetworks: !this.hostRestricted };
+  }
 
-    if (format) requestBody.format = format;
-    if (style) requestBody.style = style;
-    if (num_inference_steps) requestBody.num_inference_steps = num_inference_steps;
-    if (guidance_scale) requestBody.guidance_scale = guidance_scale;
+  /**
+   * Checks a `save_to` argument. Remote clients may only name a directory
+   * inside the output directory, resolved relative to it.
+   */
+  private saveDirectory(tool: string, saveTo: string): string {
+    if (!this.hostRestricted) return saveTo;
+    const refuse = (reason: string) => new ToolArgumentsError(tool, [{ name: "save_to", reason }]);
+    if (!this.config.outputDir) {
+      throw refuse("cannot be used over HTTP without FREEPIK_OUTPUT_DIR; set FREEPIK_HTTP_LOCAL_ACCESS to allow any directory");
+    }
+    const root = path.resolve(expandHome(this.config.outputDir));
+    const directory = path.resolve(root, saveTo);
+    const relative = path.relative(root, directory);
+    if (relative === ".." || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+      throw refuse(`must be a directory inside the output directory ${root}`);
+    }
+    return directory;
+  }
 
-    const response = await axios.post<FreepikIconGenerationResponse>(
-      `${this.baseUrl}/ai/text-to-icon`,
-      requestBody,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      }
+  /**
+   * Saves a download URL to `save_to` or the configured output directory.
+   * Returns undefined when neither is set.
+   */
+  private async saveDownload(url: string, filename: string | undefined, args: any): Promise<SavedFile | undefined> {
+    const directory = args.save_to || this.config.outputDir;
+    if (!directory) return undefined;
+    const saved = await downloadToDirectory(url, directory, filename);
+    this.assets.set(saved.path, saved);
+    return saved;
+  }
+
+  /**
+   * Fetches result images as MCP image content when `include_images` (or the
+   * server default) asks for it. Images that cannot be fetched are listed in a
+   * text block instead of failing the call.
+   */
+  private async imageContent(urls: string[] | undefined, args: any) {
+    const enabled = args.include_images ?? this.config.includeImages;
+    if (!enabled || !urls || urls.length === 0) return [];
+
+    const selected = urls.slice(0, this.config.imageMaxCount);
+    const results = await Promise.allSettled(
+      selected.map((url) =>
+        fetchImageContent(url, {
+          maxDimension: this.config.imageMaxDimension,
+          maxBytes: this.config.imageMaxBytes,
+        })
+      )
     );
 
-    const taskData = response.data;
+    const blocks: Array<ImageContent | { type: "text"; text: string }> = results
+      .filter((result): result is PromiseFulfilledResult<ImageContent> => result.status === "fulfilled")
+      .map((result) => result.value);
+    const failed = selected.filter((_, index) => results[index].status === "rejected");
+    if (failed.length > 0) {
+      blocks.push({ type: "text", text: `*Could not load ${failed.length} image(s):*\n${failed.join("\n")}` });
+    }
+    return blocks;
+  }
+
+  private structuredDownload(
+    download: FreepikDownloadResponse["data"],
+    saved: SavedFile | undefined,
+    details: Pick<StructuredDownload, "format" | "image_size">
+  ): StructuredDownload {
+    return { filename: download.filename, url: download.url, ...details, ...(saved ? { saved } : {}) };
+  }
 
+  private structuredResource(resource: FreepikResource): StructuredResource {
     return {
-      content: [
-        {
-          type: "text",
-          text: `**AI Icon Generation Started**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.task_status}\n- **Prompt**: ${prompt}\n- **Format**: ${format}\n- **Webhook URL**: ${webhook_url}\n\n*The generation is running. Results will be sent to your webhook URL when complete. Use the task ID to check status or download the icon.*`,
-        },
-      ],
+      id: resource.id,
+      title: resource.title,
+      url: resource.url,
+      image_url: resource.image.source.url,
+      author: resource.author.username,
+      license: resource.license,
     };
   }
 
-  private async generateIconPreview(args: any) {
+  private downloadFooter(saved: SavedFile | undefined) {
+    return saved
+      ? `\n${formatSavedFile(saved)}`
+      : `\n\n*Note: Download URL is temporary and should be used immediately.*`;
+  }
+
+  /**
+   * The text-to-icon endpoints only accept requests with a callback URL, which
+   * defaults to the built-in webhook receiver.
+   */
+  private requireWebhookUrl(tool: string, webhookUrl: string | undefined): string {
+    if (!webhookUrl) {
+      throw new ToolArgumentsError(tool, [
+        { name: "webhook_url", reason: "is required unless the built-in webhook receiver is enabled (FREEPIK_WEBHOOK_PORT)" },
+      ]);
+    }
+    return webhookUrl;
+  }
+
+  private async generateIcon(args: any, context: ToolContext) {
     const {
       prompt,
       webhook_url,
+      format = "png",
       style,
       num_inference_steps,
       guidance_scale,
     } = args;
 
-    const requestBody: Partial<FreepikIconGenerationRequest> = {
+    const requestBody: FreepikIconGenerationRequest = {
       prompt,
-      webhook_url,
+      webhook_url: this.requireWebhookUrl("generate_icon", webhook_url),
     };
 
+    if (format) requestBody.format = format;
     if (style) requestBody.style = style;
     if (num_inference_steps) requestBody.num_inference_steps = num_inference_steps;
     if (guidance_scale) requestBody.guidance_scale = guidance_scale;
 
-    const response = await axios.post<FreepikIconGenerationResponse>(
-      `${this.baseUrl}/ai/text-to-icon/preview`,
-      requestBody,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    const taskData = response.data;
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `**AI Icon Preview Generation Started**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.task_status}\n- **Prompt**: ${prompt}\n- **Webhook URL**: ${webhook_url}\n\n*Preview generation is running. Results will be sent to your webhook URL when complete.*`,
-        },
-      ],
-    };
-  }
-
-  private async renderGeneratedIcon(args: any) {
-    const { task_id, format = "png" } = args;
-
-    const response = await axios.post<FreepikIconGenerationResponse>(
-      `${this.baseUrl}/ai/text-to-icon/${task_id}/render/${format}`,
-      {},
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    const taskData = response.data;
-
-    let statusText = `**Generated Icon Status**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.task_status}\n- **Format**: ${format}`;
-
-    if (taskData.generated && taskData.generated.length > 0) {
-      statusText += `\n\n**Generated Icons:**\n${taskData.generated
-        .map((url, index) => `${index + 1}. ${url}`)
-        .join("\n")}`;
-    } else {
-      statusText += `\n\n*Generation is still in progress. Check back later or wait for webhook notification.*`;
-    }
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: statusText,
-        },
-      ],
-    };
-  }
-
-  private async generateMystic(args: any) {
-    const {
-      prompt,
-      webhook_url,
-      structure_reference,
-      style_reference,
-      resolution,
-      aspect_ratio,
-      model,
-    } = args;
-
-    const requestBody: FreepikMysticRequest = { prompt };
-    if (webhook_url) requestBody.webhook_url = webhook_url;
-    if (structure_reference) requestBody.structure_reference = structure_reference;
-    if (style_reference) requestBody.style_reference = style_reference;
-    if (resolution) requestBody.resolution = resolution;
-    if (aspect_ratio) requestBody.aspect_ratio = aspect_ratio;
-    if (model) requestBody.model = model;
-
-    const response = await axios.post<FreepikAITaskResponse>(
-      `${this.baseUrl}/ai/mystic`,
-      requestBody,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      }
-    );
-
-    const taskData = response.data.data;
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `**Mystic AI Generation Started**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.status}\n- **Prompt**: ${prompt}\n- **Model**: ${model || 'default'}\n- **Resolution**: ${resolution || 'default'}\n\n*Ultra-realistic, high-resolution image generation is running. Results will be available via webhook or task status check.*`,
-        },
-      ],
-    };
-  }
-
-  private async getMysticTask(args: any) {
-    const { task_id } = args;
-
-    const response = await axios.get<FreepikAITaskResponse>(
-      `${this.baseUrl}/ai/mystic/${task_id}`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-        },
-      }
-    );
-
-    const taskData = response.data.data;
-    let statusText = `**Mystic Task Status**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.status}`;
-
-    if (taskData.has_nsfw !== undefined) {
-      statusText += `\n- **NSFW Content**: ${taskData.has_nsfw ? 'Yes' : 'No'}`;
-    }
-
-    if (taskData.generated && taskData.generated.length > 0) {
-      statusText += `\n\n**Generated Images:**\n${taskData.generated
-        .map((url, index) => `${index + 1}. ${url}`)
-        .join("\n")}`;
-    } else if (taskData.status === "COMPLETED") {
-      statusText += `\n\n*Task completed but no images were generated.*`;
-    } else {
-      statusText += `\n\n*Generation is still in progress.*`;
-    }
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: statusText,
-        },
-      ],
-    };
-  }
-
-  private async listMysticTasks(args: any) {
-    const response = await axios.get<FreepikAITasksResponse>(
-      `${this.baseUrl}/ai/mystic`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-        },
-      }
-    );
-
-    const tasks = response.data.data;
-    const tasksList = tasks
-      .map((task, index) => `${index + 1}. **${task.task_id}** - Status: ${task.status}`)
-      .join("\n");
+    const taskData = await this.client.generateIcon(requestBody);
+    context.reservation?.commit();
+    this.taskSubmitted("text_to_icon", taskData.task_id, taskData.task_status, requestBody, context);
 
     return {
       content: [
         {
           type: "text",
-          text: `**All Mystic Tasks**\n\n${tasksList || "*No tasks found.*"}`,
+          text: `**AI Icon Generation Started**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.task_status}\n- **Prompt**: ${prompt}\n- **Format**: ${format}\n- **Webhook URL**: ${webhook_url}\n\n*The generation is running. Results will be sent to your webhook URL when complete. Use the task ID to check status or download the icon.*`,
         },
       ],
+      structuredContent: {
+        task: structuredTask({ kind: "text_to_icon", task_id: taskData.task_id, status: taskData.task_status }),
+      },
     };
   }
 
-  private async generateFluxDev(args: any) {
-    const { prompt, webhook_url, aspect_ratio, styling, seed } = args;
+  private async generateIconPreview(args: any, context: ToolContext) {
+    const {
+      prompt,
+      webhook_url,
+      style,
+      num_inference_steps,
+      guidance_scale,
+    } = args;
 
-    const requestBody: FreepikFluxDevRequest = { prompt };
-    if (webhook_url) requestBody.webhook_url = webhook_url;
-    if (aspect_ratio) requestBody.aspect_ratio = aspect_ratio;
-    if (styling) requestBody.styling = styling;
-    if (seed) requestBody.seed = seed;
+    const requestBody: FreepikIconPreviewRequest = {
+      prompt,
+      webhook_url: this.requireWebhookUrl("generate_icon_preview", webhook_url),
+    };
 
-    const response = await axios.post<FreepikAITaskResponse>(
-      `${this.baseUrl}/ai/text-to-image/flux-dev`,
-      requestBody,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      }
-    );
+    if (style) requestBody.style = style;
+    if (num_inference_steps) requestBody.num_inference_steps = num_inference_steps;
+    if (guidance_scale) requestBody.guidance_scale = guidance_scale;
 
-    const taskData = response.data.data;
+    const taskData = await this.client.generateIconPreview(requestBody);
+    context.reservation?.commit();
+    this.taskSubmitted("text_to_icon", taskData.task_id, taskData.task_status, requestBody, context);
 
     return {
       content: [
         {
           type: "text",
-          text: `**Flux Dev Generation Started**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.status}\n- **Prompt**: ${prompt}\n- **Aspect Ratio**: ${aspect_ratio || 'square_1_1'}\n\n*AI image generation is running. Results will be available via webhook or task status check.*`,
+          text: `**AI Icon Preview Generation Started**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.task_status}\n- **Prompt**: ${prompt}\n- **Webhook URL**: ${webhook_url}\n\n*Preview generation is running. Results will be sent to your webhook URL when complete.*`,
         },
       ],
+      structuredContent: {
+        task: structuredTask({ kind: "text_to_icon", task_id: taskData.task_id, status: taskData.task_status }),
+      },
     };
   }
 
-  private async getFluxDevTask(args: any) {
-    const { task_id } = args;
+  private async renderGeneratedIcon(args: any) {
+    const { task_id, format = "png" } = args;
 
-    const response = await axios.get<FreepikAITaskResponse>(
-      `${this.baseUrl}/ai/text-to-image/flux-dev/${task_id}`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-        },
-      }
-    );
+    const taskData = await this.client.renderGeneratedIcon(task_id, format);
+    this.services.journal?.update({
+      kind: "text_to_icon",
+      task_id: taskData.task_id,
+      status: taskData.task_status,
+      generated: taskData.generated,
+    });
 
-    const taskData = response.data.data;
-    let statusText = `**Flux Dev Task Status**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.status}`;
+    const saved: SavedFile[] = [];
+    let statusText = `**Generated Icon Status**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.task_status}\n- **Format**: ${format}`;
 
     if (taskData.generated && taskData.generated.length > 0) {
-      statusText += `\n\n**Generated Images:**\n${taskData.generated
+      statusText += `\n\n**Generated Icons:**\n${taskData.generated
         .map((url, index) => `${index + 1}. ${url}`)
         .join("\n")}`;
-    } else if (taskData.status === "COMPLETED") {
-      statusText += `\n\n*Task completed but no images were generated.*`;
+
+      for (const [index, url] of taskData.generated.entries()) {
+        const file = await this.saveDownload(url, `${taskData.task_id}-${index + 1}.${format}`, args);
+        if (file) saved.push(file);
+      }
+      if (saved.length > 0) {
+        statusText += `\n\n**Saved Files:**\n${saved.map(formatSavedFile).join("\n\n")}`;
+        this.services.journal?.addFiles(taskData.task_id, saved);
+      }
     } else {
-      statusText += `\n\n*Generation is still in progress.*`;
+      statusText += `\n\n*Generation is still in progress. Check back later or wait for webhook notification.*`;
     }
 
     return {
@@ -1380,68 +943,110 @@ class FreepikMCPServer {
           type: "text",
           text: statusText,
         },
+        ...(await this.imageContent(taskData.generated, args)),
       ],
+      structuredContent: {
+        task: structuredTask({
+          kind: "text_to_icon",
+          task_id: taskData.task_id,
+          status: taskData.task_status,
+          generated: taskData.generated,
+        }),
+        ...(saved.length > 0 ? { saved } : {}),
+      },
     };
   }
 
-  private async listFluxDevTasks(args: any) {
-    const response = await axios.get<FreepikAITasksResponse>(
-      `${this.baseUrl}/ai/text-to-image/flux-dev`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-        },
-      }
+  private async generateMystic(args: any, context: ToolContext) {
+    const {
+      prompt,
+      webhook_url,
+      structure_reference,
+      style_reference,
+      resolution,
+      aspect_ratio,
+      model,
+    } = args;
+
+    const requestBody: FreepikMysticRequest = { prompt };
+    if (webhook_url) requestBody.webhook_url = webhook_url;
+    if (structure_reference) {
+      requestBody.structure_reference = await resolveImageInput("structure_reference", structure_reference, this.imageInputOptions);
+    }
+    if (style_reference) {
+      requestBody.style_reference = await resolveImageInput("style_reference", style_reference, this.imageInputOptions);
+    }
+    if (resolution) requestBody.resolution = resolution;
+    if (aspect_ratio) requestBody.aspect_ratio = aspect_ratio;
+    if (model) requestBody.model = model;
+
+    const response = await this.client.generateMystic(requestBody);
+    context.reservation?.commit();
+
+    const taskData = response.data;
+    return this.taskStarted(
+      "mystic",
+      taskData.task_id,
+      taskData.status,
+      requestBody,
+      args,
+      context,
+      `**Mystic AI Generation Started**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.status}\n- **Prompt**: ${prompt}\n- **Model**: ${model || 'default'}\n- **Resolution**: ${resolution || 'default'}`,
+      `*Ultra-realistic, high-resolution image generation is running. Results will be available via webhook or task status check.*`
     );
+  }
 
-    const tasks = response.data.data;
-    const tasksList = tasks
-      .map((task, index) => `${index + 1}. **${task.task_id}** - Status: ${task.status}`)
-      .join("\n");
+  private async generateFluxDev(args: any, context: ToolContext) {
+    const { prompt, webhook_url, aspect_ratio, styling, seed } = args;
 
-    return {
-      content: [
-        {
-          type: "text",
-          text: `**All Flux Dev Tasks**\n\n${tasksList || "*No tasks found.*"}`,
-        },
-      ],
-    };
+    const requestBody: FreepikFluxDevRequest = { prompt };
+    if (webhook_url) requestBody.webhook_url = webhook_url;
+    if (aspect_ratio) requestBody.aspect_ratio = aspect_ratio;
+    if (styling) requestBody.styling = styling;
+    if (seed) requestBody.seed = seed;
+
+    const response = await this.client.generateFluxDev(requestBody);
+    context.reservation?.commit();
+
+    const taskData = response.data;
+    return this.taskStarted(
+      "flux_dev",
+      taskData.task_id,
+      taskData.status,
+      requestBody,
+      args,
+      context,
+      `**Flux Dev Generation Started**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.status}\n- **Prompt**: ${prompt}\n- **Aspect Ratio**: ${aspect_ratio || 'square_1_1'}`,
+      `*AI image generation is running. Results will be available via webhook or task status check.*`
+    );
   }
 
-  private async reimagineFlux(args: any) {
+  private async reimagineFlux(args: any, context: ToolContext) {
     const { image, prompt, webhook_url, imagination, aspect_ratio } = args;
 
-    const requestBody: FreepikReimagineFluxRequest = { image };
+    const requestBody: FreepikReimagineFluxRequest = { image: await resolveImageInput("image", image, this.imageInputOptions) };
     if (prompt) requestBody.prompt = prompt;
     if (webhook_url) requestBody.webhook_url = webhook_url;
     if (imagination) requestBody.imagination = imagination;
     if (aspect_ratio) requestBody.aspect_ratio = aspect_ratio;
 
-    const response = await axios.post<FreepikAITaskResponse>(
-      `${this.baseUrl}/ai/beta/text-to-image/reimagine-flux`,
+    const response = await this.client.reimagineFlux(requestBody);
+    context.reservation?.commit();
+
+    const taskData = response.data;
+    return this.taskStarted(
+      "reimagine_flux",
+      taskData.task_id,
+      taskData.status,
       requestBody,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      }
+      args,
+      context,
+      `**Reimagine Flux Started**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.status}\n- **Imagination Level**: ${imagination || 'default'}\n- **Aspect Ratio**: ${aspect_ratio || 'original'}`,
+      `*Image reimagining is running. This is a Beta feature.*`
     );
-
-    const taskData = response.data.data;
-
-    return {
-      content: [
-        {
-          type: "text",
-          text: `**Reimagine Flux Started**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.status}\n- **Imagination Level**: ${imagination || 'default'}\n- **Aspect Ratio**: ${aspect_ratio || 'original'}\n\n*Image reimagining is running. This is a Beta feature.*`,
-        },
-      ],
-    };
   }
 
-  private async upscaleImage(args: any) {
+  private async upscaleImage(args: any, context: ToolContext) {
     const {
       image,
       webhook_url,
@@ -1455,7 +1060,7 @@ class FreepikMCPServer {
       engine,
     } = args;
 
-    const requestBody: FreepikImageUpscalerRequest = { image };
+    const requestBody: FreepikImageUpscalerRequest = { image: await resolveImageInput("image", image, this.imageInputOptions) };
     if (webhook_url) requestBody.webhook_url = webhook_url;
     if (scale_factor) requestBody.scale_factor = scale_factor;
     if (optimized_for) requestBody.optimized_for = optimized_for;
@@ -1466,242 +1071,539 @@ class FreepikMCPServer {
     if (fractality !== undefined) requestBody.fractality = fractality;
     if (engine) requestBody.engine = engine;
 
-    const response = await axios.post<FreepikAITaskResponse>(
-      `${this.baseUrl}/ai/image-upscaler`,
+    const response = await this.client.upscaleImage(requestBody);
+    context.reservation?.commit();
+
+    const taskData = response.data;
+    return this.taskStarted(
+      "upscaler",
+      taskData.task_id,
+      taskData.status,
       requestBody,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      }
+      args,
+      context,
+      `**Image Upscaling Started**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.status}\n- **Scale Factor**: ${scale_factor || 'default'}\n- **Optimization**: ${optimized_for || 'standard'}`,
+      `*AI image upscaling is running. Results will be available via webhook or task status check.*`
     );
+  }
+
+  private async removeBackground(args: any, context: ToolContext) {
+    const { image_url } = args;
 
-    const taskData = response.data.data;
+    const result = await this.client.removeBackground(image_url);
+    context.reservation?.commit();
 
     return {
       content: [
         {
           type: "text",
-          text: `**Image Upscaling Started**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.status}\n- **Scale Factor**: ${scale_factor || 'default'}\n- **Optimization**: ${optimized_for || 'standard'}\n\n*AI image upscaling is running. Results will be available via webhook or task status check.*`,
+          text: `**Background Removed Successfully**\n\n- **Original**: ${result.original}\n- **High Resolution**: ${result.high_resolution}\n- **Preview**: ${result.preview}\n- **Download URL**: ${result.url}\n\n*Note: URLs are temporary and valid for only 5 minutes.*`,
         },
       ],
+      structuredContent: {
+        original: result.original,
+        high_resolution: result.high_resolution,
+        preview: result.preview,
+        url: result.url,
+      },
     };
   }
 
-  private async getUpscalerTask(args: any) {
-    const { task_id } = args;
+  private async expandImage(args: any, context: ToolContext) {
+    const { image, prompt, left, right, top, bottom, webhook_url } = args;
 
-    const response = await axios.get<FreepikAITaskResponse>(
-      `${this.baseUrl}/ai/image-upscaler/${task_id}`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-        },
-      }
+    const requestBody: FreepikImageExpandRequest = { image: await resolveImageInput("image", image, this.imageInputOptions) };
+    if (prompt) requestBody.prompt = prompt;
+    if (left !== undefined) requestBody.left = left;
+    if (right !== undefined) requestBody.right = right;
+    if (top !== undefined) requestBody.top = top;
+    if (bottom !== undefined) requestBody.bottom = bottom;
+    if (webhook_url) requestBody.webhook_url = webhook_url;
+
+    const response = await this.client.expandImage(requestBody);
+    context.reservation?.commit();
+
+    const taskData = response.data;
+    return this.taskStarted(
+      "expand",
+      taskData.task_id,
+      taskData.status,
+      requestBody,
+      args,
+      context,
+      `**Image Expansion Started**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.status}\n- **Expansion**: Left:${left||0} Right:${right||0} Top:${top||0} Bottom:${bottom||0}`,
+      `*AI image expansion using Flux Pro is running.*`
     );
+  }
 
-    const taskData = response.data.data;
-    let statusText = `**Upscaler Task Status**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.status}`;
+  /**
+   * Remembers a newly submitted task and records it in the journal. With
+   * notification sinks enabled, the task is also watched until it finishes, so
+   * the completion event is sent even if the client never checks. The journal
+   * alone starts no polling; it records whatever status the server next sees.
+   */
+  private taskSubmitted(kind: TaskKind, taskId: string, status: string, requestBody: object, context: ToolContext) {
+    this.services.journal?.submitted(kind, taskId, context.tool, this.account.profile, requestBody, status);
+    this.services.notifier?.track({
+      kind,
+      task_id: taskId,
+      tool: context.tool,
+      ...("prompt" in requestBody && typeof requestBody.prompt === "string" ? { prompt: requestBody.prompt } : {}),
+      requester: this.requester(),
+      submitted_at: new Date().toISOString(),
+    });
+    if (this.services.notifier) {
+      this.account.watcher.watch(kind, taskId, "completion");
+    }
+  }
 
-    if (taskData.generated && taskData.generated.length > 0) {
-      statusText += `\n\n**Upscaled Images:**\n${taskData.generated
-        .map((url, index) => `${index + 1}. ${url}`)
-        .join("\n")}`;
-    } else if (taskData.status === "COMPLETED") {
-      statusText += `\n\n*Task completed but no images were generated.*`;
-    } else {
-      statusText += `\n\n*Upscaling is still in progress.*`;
+  private requester(): Requester {
+    const client = this.server.getClientVersion();
+    // Over HTTP the token's caller name identifies who started the task.
+    let user = this.caller ?? this.config.notifyRequester;
+    if (!user) {
+      try {
+        user = os.userInfo().username;
+      } catch {
+        // No passwd entry for the current uid, e.g. in some containers.
+      }
+    }
+    return {
+      ...(client ? { client: `${client.name}/${client.version}` } : {}),
+      ...(user ? { user } : {}),
+    };
+  }
+
+  /**
+   * Builds the result of a tool that submitted an AI task. With `wait`, polls the
+   * task to completion and returns its final status and generated images instead of `note`.
+   */
+  private async taskStarted(
+    kind: TaskKind,
+    taskId: string,
+    status: string,
+    requestBody: object,
+    args: any,
+    context: ToolContext,
+    summary: string,
+    note: string
+  ) {
+    this.taskSubmitted(kind, taskId, status, requestBody, context);
+    summary += `\n- **Resource**: ${taskUri(kind, taskId)}`;
+    let text = `${summary}\n\n${note}`;
+    let task: AITask = { kind, task_id: taskId, status };
+    let timedOut: boolean | undefined;
+
+    if (args.wait) {
+      ({ task, timedOut } = await this.awaitTask(kind, taskId, args, context));
+      text = `${summary}\n\n${formatTask(task)}`;
+      if (timedOut) {
+        text += `\n\n${this.timeoutNote(task.task_id, args)}`;
+      }
     }
 
     return {
       content: [
         {
           type: "text",
-          text: statusText,
+          text,
         },
+        ...(await this.imageContent(task.generated, args)),
       ],
+      structuredContent: {
+        task: structuredTask(task),
+        ...(timedOut !== undefined ? { timed_out: timedOut } : {}),
+      },
     };
   }
 
-  private async listUpscalerTasks(args: any) {
-    const response = await axios.get<FreepikAITasksResponse>(
-      `${this.baseUrl}/ai/image-upscaler`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-        },
+  private async awaitTask(kind: TaskKind | undefined, taskId: string, args: any, context: ToolContext) {
+    const {
+      timeout_seconds = DEFAULT_WAIT_TIMEOUT_SECONDS,
+      poll_interval = DEFAULT_POLL_INTERVAL_SECONDS,
+    } = args;
+
+    let polls = 0;
+    try {
+      const task = await this.client.tasks.wait(kind, taskId, {
+        timeoutMs: timeout_seconds * 1000,
+        intervalMs: poll_interval * 1000,
+        onPoll: (polled, elapsedMs) => this.reportTaskProgress(context, polled, elapsedMs, ++polls),
+      });
+      return { task, timedOut: false };
+    } catch (error) {
+      if (error instanceof TaskTimeoutError) {
+        return { task: error.task, timedOut: true };
       }
-    );
+      throw error;
+    }
+  }
+
+  /**
+   * Emits `notifications/progress` for a status poll when the client supplied a progress token.
+   * Notification failures never interrupt the wait.
+   */
+  private async reportTaskProgress(context: ToolContext, task: AITask, elapsedMs: number, polls: number) {
+    if (context.progressToken === undefined) return;
+
+    const elapsedSeconds = Math.round(elapsedMs / 1000);
+    try {
+      await this.server.notification({
+        method: "notifications/progress",
+        params: {
+          progressToken: context.progressToken,
+          progress: polls,
+          message: `${TASK_KINDS[task.kind].label} task ${task.task_id}: ${task.status} (${elapsedSeconds}s elapsed)`,
+        },
+      });
+    } catch (error) {
+      process.stderr.write(`Failed to send progress notification: ${error}\n`);
+    }
+  }
+
+  private timeoutNote(taskId: string, args: any) {
+    const { timeout_seconds = DEFAULT_WAIT_TIMEOUT_SECONDS } = args;
+    return `*Task did not finish within ${timeout_seconds}s. Call wait_for_task with task ID ${taskId} to keep waiting.*`;
+  }
+
+  private async getTask(args: any) {
+    const { task_id, kind } = args;
+
+    const task = await this.client.tasks.find(task_id, isTaskKind(kind) ? kind : undefined);
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: formatTask(task),
+        },
+        ...(await this.imageContent(task.generated, args)),
+      ],
+      structuredContent: {
+        task: structuredTask(task),
+      },
+    };
+  }
+
+  private async listTasks(args: any) {
+    const { kind, status } = args;
+
+    const kinds: TaskKind[] = isTaskKind(kind) ? [kind] : TASK_KIND_NAMES;
+    const results = await Promise.allSettled(kinds.map((k) => this.client.tasks.list(k)));
+
+    const tasks = results
+      .flatMap((result) => (result.status === "fulfilled" ? result.value : []))
+      .filter((task) => !status || task.status === status);
+    const failures = kinds.flatMap((k, index) => {
+      const result = results[index];
+      if (result.status === "fulfilled") return [];
+      return [{ kind: k, error: result.reason instanceof Error ? result.reason.message : String(result.reason) }];
+    });
+    const failureLines = failures.map((failure) => `- ${TASK_KINDS[failure.kind].label}: ${failure.error}`);
+
+    if (failures.length === kinds.length) {
+      throw new Error(`Could not list tasks:\n${failureLines.join("\n")}`);
+    }
 
-    const tasks = response.data.data;
     const tasksList = tasks
-      .map((task, index) => `${index + 1}. **${task.task_id}** - Status: ${task.status}`)
+      .map((task, index) => {
+        const entry = this.services.journal?.get(task.task_id);
+        const prompt = entry && journalPrompt(entry);
+        const history = entry ? ` - Submitted: ${entry.submitted_at}${prompt ? `\n   - Prompt: ${prompt}` : ""}` : "";
+        return `${index + 1}. **${task.task_id}** (${task.kind}) - Status: ${task.status}${history}`;
+      })
       .join("\n");
+    const title = kinds.length === 1 ? `All ${TASK_KINDS[kinds[0]].label} Tasks` : "All Tasks";
+
+    let text = `**${title}**${status ? ` (status: ${status})` : ""}\n\n${tasksList || "*No tasks found.*"}`;
+    if (failures.length > 0) {
+      text += `\n\n*Some task kinds could not be listed:*\n${failureLines.join("\n")}`;
+    }
 
     return {
       content: [
         {
           type: "text",
-          text: `**All Upscaler Tasks**\n\n${tasksList || "*No tasks found.*"}`,
+          text,
         },
       ],
+      structuredContent: {
+        tasks: tasks.map((task) => structuredTask(task, this.services.journal?.get(task.task_id))),
+        failures,
+      },
     };
   }
 
-  private async removeBackground(args: any) {
-    const { image_url } = args;
+  private async waitForTask(args: any, context: ToolContext) {
+    const { task_id, kind } = args;
 
-    const response = await axios.post<FreepikRemoveBackgroundResponse>(
-      `${this.baseUrl}/ai/beta/remove-background`,
-      `image_url=${encodeURIComponent(image_url)}`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-      }
+    const { task, timedOut } = await this.awaitTask(
+      isTaskKind(kind) ? kind : undefined,
+      task_id,
+      args,
+      context
     );
 
-    const result = response.data;
+    let text = formatTask(task);
+    if (timedOut) {
+      text += `\n\n${this.timeoutNote(task.task_id, args)}`;
+    }
 
     return {
       content: [
         {
           type: "text",
-          text: `**Background Removed Successfully**\n\n- **Original**: ${result.original}\n- **High Resolution**: ${result.high_resolution}\n- **Preview**: ${result.preview}\n- **Download URL**: ${result.url}\n\n*Note: URLs are temporary and valid for only 5 minutes.*`,
+          text,
         },
+        ...(await this.imageContent(task.generated, args)),
       ],
+      structuredContent: {
+        task: structuredTask(task),
+        timed_out: timedOut,
+      },
     };
   }
 
-  private async expandImage(args: any) {
-    const { image, prompt, left, right, top, bottom, webhook_url } = args;
+  private searchTaskHistory(args: any) {
+    const { query, model, kind, status, since, until, limit = 20 } = args;
 
-    const requestBody: FreepikImageExpandRequest = { image };
-    if (prompt) requestBody.prompt = prompt;
-    if (left !== undefined) requestBody.left = left;
-    if (right !== undefined) requestBody.right = right;
-    if (top !== undefined) requestBody.top = top;
-    if (bottom !== undefined) requestBody.bottom = bottom;
-    if (webhook_url) requestBody.webhook_url = webhook_url;
+    if (!this.services.journal) {
+      throw new Error("The task journal is disabled. Set FREEPIK_JOURNAL_FILE to a file to enable it.");
+    }
 
-    const response = await axios.post<FreepikAITaskResponse>(
-      `${this.baseUrl}/ai/image-expand/flux-pro`,
-      requestBody,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-          "Content-Type": "application/json",
-        },
-      }
-    );
+    const { entries, total } = this.services.journal.search({
+      text: query,
+      model,
+      kind,
+      status,
+      since: since ? parseDateArgument("search_task_history", "since", since, false) : undefined,
+      until: until ? parseDateArgument("search_task_history", "until", until, true) : undefined,
+      // Tasks submitted with other keys belong to other clients.
+      profile: this.account.profile,
+      limit,
+    });
 
-    const taskData = response.data.data;
+    const entriesList = entries
+      .map((entry, index) => {
+        const prompt = journalPrompt(entry);
+        let line = `${index + 1}. **${entry.task_id}** (${entry.kind}, ${entry.tool}) - Status: ${entry.status} - Submitted: ${entry.submitted_at}`;
+        if (prompt) line += `\n   - Prompt: ${prompt}`;
+        line += entry.generated.map((url) => `\n   - ${url}`).join("");
+        line += entry.files.map((file) => `\n   - Saved: ${file.path}`).join("");
+        return line;
+      })
+      .join("\n");
+    const shown = entries.length < total ? ` (showing ${entries.length})` : "";
 
     return {
       content: [
         {
           type: "text",
-          text: `**Image Expansion Started**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.status}\n- **Expansion**: Left:${left||0} Right:${right||0} Top:${top||0} Bottom:${bottom||0}\n\n*AI image expansion using Flux Pro is running.*`,
+          text: `**Task History**\n\nFound ${total} matching task${total === 1 ? "" : "s"}${shown}.\n\n${entriesList || "*No tasks found.*"}`,
         },
       ],
+      structuredContent: {
+        entries: entries.map(structuredJournalEntry),
+        total,
+      },
     };
   }
 
-  private async getExpandTask(args: any) {
+  private getWebhookEvents(args: any) {
     const { task_id } = args;
 
-    const response = await axios.get<FreepikAITaskResponse>(
-      `${this.baseUrl}/ai/image-expand/flux-pro/${task_id}`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-        },
-      }
-    );
-
-    const taskData = response.data.data;
-    let statusText = `**Expand Task Status**\n\n- **Task ID**: ${taskData.task_id}\n- **Status**: ${taskData.status}`;
-
-    if (taskData.generated && taskData.generated.length > 0) {
-      statusText += `\n\n**Expanded Images:**\n${taskData.generated
-        .map((url, index) => `${index + 1}. ${url}`)
-        .join("\n")}`;
-    } else if (taskData.status === "COMPLETED") {
-      statusText += `\n\n*Task completed but no images were generated.*`;
-    } else {
-      statusText += `\n\n*Expansion is still in progress.*`;
+    if (!this.services.webhooks) {
+      throw new Error("The built-in webhook receiver is not enabled. Set FREEPIK_WEBHOOK_PORT to start it.");
     }
 
+    // The receiver holds callbacks for the tasks of every key; a session only sees those its own key submitted.
+    const owned = (taskId: string) => this.client.tasks.kindOf(taskId) !== undefined;
+    const events = task_id
+      ? owned(task_id)
+        ? this.services.webhooks.eventsFor(task_id)
+        : []
+      : this.services.webhooks.latest().filter((event) => owned(event.task_id));
+    const eventsList = events
+      .map(
+        (event, index) =>
+          `${index + 1}. **${event.task_id}** - Status: ${event.status ?? "unknown"} (received ${event.received_at})${
+            event.generated?.length ? `\n${event.generated.map((url) => `   - ${url}`).join("\n")}` : ""
+          }`
+      )
+      .join("\n");
+    const title = task_id ? `Webhook Callbacks for ${task_id}` : "Latest Webhook Callbacks";
+
     return {
       content: [
         {
           type: "text",
-          text: statusText,
+          text: `**${title}**\n\n- **Callback URL**: ${this.services.webhooks.callbackUrl}\n\n${eventsList || "*No callbacks received yet.*"}`,
         },
       ],
+      structuredContent: {
+        callback_url: this.services.webhooks.callbackUrl,
+        events,
+      },
     };
   }
 
-  private async listExpandTasks(args: any) {
-    const response = await axios.get<FreepikAITasksResponse>(
-      `${this.baseUrl}/ai/image-expand/flux-pro`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
-        },
-      }
-    );
+  private async fetchResource(resourceId: string, cacheMode?: CacheMode) {
+    return collectCacheInfo(() => this.client.getResource(resourceId, { cache: cacheMode }));
+  }
 
-    const tasks = response.data.data;
-    const tasksList = tasks
-      .map((task, index) => `${index + 1}. **${task.task_id}** - Status: ${task.status}`)
-      .join("\n");
+  private cacheNote(cache: CacheInfo | undefined): string {
+    if (cache?.status !== "hit") return "";
+    return `\n\n*Served from cache (stored ${cache.age_seconds}s ago). Pass \`cache: "refresh"\` for fresh results.*`;
+  }
+
+  private getCacheStats() {
+    const endpoints = this.services.cache?.endpointStats() ?? [];
+    const lines = endpoints.map(
+      (stats) =>
+        `- **${stats.endpoint}** (TTL ${stats.ttl_seconds}s): ${stats.hits} hits, ${stats.misses} misses, ${stats.bypassed} bypassed`
+    );
+    const summary = this.services.cache
+      ? `- **Entries**: ${this.services.cache.size} of ${this.config.cacheMaxEntries}${
+          this.config.cacheDir ? `\n- **Directory**: ${this.config.cacheDir}` : ""
+        }\n\n${lines.join("\n")}`
+      : "*The response cache is disabled (FREEPIK_CACHE_MAX_ENTRIES is 0).*";
 
     return {
       content: [
         {
           type: "text",
-          text: `**All Expand Tasks**\n\n${tasksList || "*No tasks found.*"}`,
+          text: `**Response Cache**\n\n${summary}`,
         },
       ],
+      structuredContent: {
+        enabled: this.services.cache !== undefined,
+        entries: this.services.cache?.size ?? 0,
+        max_entries: this.config.cacheMaxEntries,
+        ...(this.config.cacheDir ? { directory: this.config.cacheDir } : {}),
+        endpoints,
+      },
     };
   }
 
-  private async getResourceDetails(args: any) {
-    const { resource_id } = args;
+  private getUsage() {
+    const usage = this.services.spending.usage(this.session);
+    const spend = (label: string, summary: UsageReport["today"]) =>
+      `- **${label}**: ${summary.credits} credits in ${summary.calls} calls${
+        summary.budget !== undefined ? ` (budget ${summary.budget}, ${summary.remaining} remaining)` : " (no budget)"
+      }`;
+    const lines = [
+      spend(`Today (${usage.date})`, usage.today),
+      spend(`This session (profile ${usage.profile})`, usage.session),
+      ...(usage.in_progress > 0 ? [`- **In progress**: ${usage.in_progress} credits reserved`] : []),
+      ...(usage.confirm_above !== undefined ? [`- **Confirmation needed above**: ${usage.confirm_above} credits`] : []),
+      `- **Over budget**: ${usage.enforcement === "refuse" ? "calls are refused" : "calls need confirm: true"}`,
+    ];
+    const byTool = usage.by_tool.map((entry) => `- **${entry.tool}**: ${entry.credits} credits in ${entry.calls} calls`);
+    const byProfile = usage.by_profile.map((entry) => `- **${entry.profile}**: ${entry.credits} credits in ${entry.calls} calls`);
 
-    const response = await axios.get<FreepikResource>(
-      `${this.baseUrl}/resources/${resource_id}`,
-      {
-        headers: {
-          "x-freepik-api-key": this.apiKey,
+    return {
+      content: [
+        {
+          type: "text",
+          text: `**Credit Usage**\n\n${lines.join("\n")}${
+            byTool.length > 0 ? `\n\n**Today by tool**\n\n${byTool.join("\n")}` : ""
+          }${byProfile.length > 1 ? `\n\n**Today by key profile**\n\n${byProfile.join("\n")}` : ""}\n\n*Credits are estimates from the cost table (FREEPIK_COST_TABLE), not the Freepik account balance.*`,
         },
-      }
-    );
+      ],
+      structuredContent: usage,
+    };
+  }
 
-    const resource = response.data;
+  private async getResourceDetails(args: any) {
+    const { resource_id, cache: cacheMode } = args;
+
+    const { value: resource, cache } = await this.fetchResource(resource_id, cacheMode);
 
     return {
       content: [
         {
           type: "text",
-          text: `**Resource Details**\n\n- **ID**: ${resource.id}\n- **Title**: ${resource.title}\n- **Author**: ${resource.author.username}\n- **License**: ${resource.license}\n- **Image URL**: ${resource.image.source.url}\n- **Resource URL**: ${resource.url}`,
+          text: `**Resource Details**\n\n- **ID**: ${resource.id}\n- **Title**: ${resource.title}\n- **Author**: ${resource.author.username}\n- **License**: ${resource.license}\n- **Image URL**: ${resource.image.source.url}\n- **Resource URL**: ${resource.url}${this.cacheNote(cache)}`,
         },
       ],
+      structuredContent: {
+        resource: this.structuredResource(resource),
+        ...(cache ? { cache } : {}),
+      },
     };
   }
 
-  async run() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+}
+
+/**
+ * Creates the MCP server for one client session, calling Freepik with
+ * `credential`. `caller` names the token the client authenticated with over
+ * HTTP; it is reported as the requester of the session's tasks.
+ */
+export function createServer(services: FreepikServices, credential: FreepikCredential, caller?: string): FreepikMCPServer {
+  return new FreepikMCPServer(services, credential, caller);
+}
+
+async function main() {
+  const config: ServerConfig = { ...loadConfig(), ...parseServerArgs(process.argv.slice(2)) };
+  // Over HTTP, sessions can bring their own key or use a caller's profile instead.
+  if (!config.apiKey && config.transport === "stdio") {
+    console.error("FREEPIK_API_KEY environment variable is required");
+    process.exit(1);
+  }
+  const services = new FreepikServices(config);
+
+  if (config.transport === "stdio") {
+    await services.start();
+    const session = createServer(services, services.credentialFor({})!);
+    session.onclose = () => void services.close();
+    await session.connect(new StdioServerTransport());
     process.stderr.write("Freepik MCP server running on stdio\n");
+    return;
+  }
+
+  const transport = new McpHttpServer(
+    {
+      port: config.httpPort,
+      host: config.httpHost,
+      tokens: config.httpAuthTokens,
+      corsOrigins: config.httpCorsOrigins,
+      maxSessions: config.httpMaxSessions,
+    },
+    async (sseTransport, identity) => {
+      const credential = services.credentialFor(identity);
+      if (!credential) {
+        throw new SessionRejectedError("No Freepik API key for this caller; send one in the X-Freepik-Api-Key header");
+      }
+      const session = createServer(services, credential, identity.caller);
+      await session.connect(sseTransport);
+      return session;
+    }
+  );
+  await services.start();
+  await transport.start();
+  if (config.httpAuthTokens.length === 0) {
+    process.stderr.write("The HTTP transport accepts clients without a token; set FREEPIK_HTTP_AUTH_TOKENS to require one\n");
   }
+  process.stderr.write(`Freepik MCP server listening on ${transport.sseUrl}\n`);
+
+  let stopping = false;
+  const shutdown = async (signal: string) => {
+    if (stopping) return;
+    stopping = true;
+    process.stderr.write(`Received ${signal}; waiting for running tool calls before shutting down\n`);
+    await transport.close(() => services.idle(), config.httpShutdownTimeoutSeconds * 1000);
+    await services.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", () => void shutdown("SIGINT"));
+  process.on("SIGTERM", () => void shutdown("SIGTERM"));
 }
 
-const server = new FreepikMCPServer();
-server.run().catch((error) => {
-  process.stderr.write(`Error: ${error}\n`);
-  process.exit(1);
-});
\ No newline at end of file
+// Only start when run as a script, so the package can be imported without starting a server.
+if (require.main === module) {
+  main().catch((error) => {
+    process.stderr.write(`Error: ${error}\n`);
+    process.exit(1);
+  });
+}
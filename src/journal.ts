@@ -0,0 +1,199 @@
+import fs from "fs/promises";
+import path from "path";
+import { DEFAULT_PROFILE } from "./credentials.js";
+import { SavedFile } from "./downloads.js";
+import { AITask, TaskKind } from "./tasks.js";
+
+/**
+ * One AI task submitted through this server, as recorded in the journal.
+ */
+export interface JournalEntry {
+  kind: TaskKind;
+  task_id: string;
+  /** Tool that submitted the task, e.g. `generate_mystic` */
+  tool: string;
+  /** Key profile the task was submitted with; missing from entries written before profiles existed */
+  profile?: string;
+  /** Request body sent to Freepik, with inline images replaced by a placeholder */
+  request: Record<string, unknown>;
+  /** ISO timestamp */
+  submitted_at: string;
+  /** Last status seen by the server */
+  status: string;
+  /** ISO timestamp of the last change */
+  updated_at: string;
+  generated: string[];
+  /** Local copies of the generated images */
+  files: SavedFile[];
+}
+
+export interface JournalQuery {
+  /** Case-insensitive text the prompt must contain */
+  text?: string;
+  /** Case-insensitive match against the task kind, tool, or the request's `model` or `engine` */
+  model?: string;
+  kind?: TaskKind;
+  status?: string;
+  since?: Date;
+  until?: Date;
+  /** Key profile the task was submitted with */
+  profile?: string;
+  limit: number;
+}
+
+// Longer strings made only of base64 characters are inline images, not parameters worth keeping.
+const INLINE_DATA_MIN_LENGTH = 256;
+const BASE64_PATTERN = /^[A-Za-z0-9+/=\r\n]+$/;
+// Rewrite the file on load once superseded lines outnumber live entries by this factor.
+const COMPACT_RATIO = 4;
+
+/** Whether a request value is an inline image rather than an ordinary parameter */
+export function isInlineData(value: string): boolean {
+  return value.startsWith("data:") || (value.length >= INLINE_DATA_MIN_LENGTH && BASE64_PATTERN.test(value));
+}
+
+/**
+ * Replaces base64 blobs and data URIs anywhere in a request body with a short
+ * description of their size.
+ */
+export function redactInlineData(value: unknown): unknown {
+  if (typeof value === "string") {
+    return isInlineData(value) ? `[inline data, ${value.length} characters]` : value;
+  }
+  if (Array.isArray(value)) return value.map(redactInlineData);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactInlineData(item)]));
+  }
+  return value;
+}
+
+export function journalPrompt(entry: JournalEntry): string | undefined {
+  return typeof entry.request.prompt === "string" ? entry.request.prompt : undefined;
+}
+
+function matchesModel(entry: JournalEntry, model: string): boolean {
+  const needle = model.toLowerCase();
+  return [entry.kind, entry.tool, entry.request.model, entry.request.engine].some(
+    (candidate) => typeof candidate === "string" && candidate.toLowerCase().includes(needle)
+  );
+}
+
+/**
+ * Durable record of the AI tasks submitted through this server, kept as a
+ * JSON-lines file so it survives restarts and can be read with ordinary tools.
+ *
+ * Every change appends the task's full entry; on load the last line for each
+ * task wins. Writes are queued so lines never interleave.
+ */
+export class TaskJournal {
+  private entries = new Map<string, JournalEntry>();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  /** Reads existing entries, skipping lines that cannot be parsed */
+  async load() {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, "utf8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return;
+      throw error;
+    }
+
+    const lines = content.split("\n").filter((line) => line.trim());
+    for (const line of lines) {
+      try {
+        const entry = JSON.parse(line) as JournalEntry;
+        if (typeof entry?.task_id === "string") this.entries.set(entry.task_id, entry);
+      } catch {
+        // A line cut short by a crash; the previous line for that task still applies.
+      }
+    }
+
+    if (lines.length > this.entries.size * COMPACT_RATIO) {
+      await this.compact();
+    }
+  }
+
+  get(taskId: string): JournalEntry | undefined {
+    return this.entries.get(taskId);
+  }
+
+  submitted(kind: TaskKind, taskId: string, tool: string, profile: string, request: object, status: string) {
+    const now = new Date().toISOString();
+    this.write({
+      kind,
+      task_id: taskId,
+      tool,
+      profile,
+      request: redactInlineData(request) as Record<string, unknown>,
+      submitted_at: now,
+      status,
+      updated_at: now,
+      generated: [],
+      files: [],
+    });
+  }
+
+  /** Records the latest status and results of a journaled task */
+  update(task: AITask) {
+    const entry = this.entries.get(task.task_id);
+    if (!entry) return;
+    const generated = task.generated ?? entry.generated;
+    if (entry.status === task.status && generated.join("\n") === entry.generated.join("\n")) return;
+
+    this.write({ ...entry, status: task.status, generated, updated_at: new Date().toISOString() });
+  }
+
+  addFiles(taskId: string, files: SavedFile[]) {
+    const entry = this.entries.get(taskId);
+    if (!entry || files.length === 0) return;
+    this.write({ ...entry, files: [...entry.files, ...files], updated_at: new Date().toISOString() });
+  }
+
+  /** Entries matching every given filter, most recently submitted first */
+  search(query: JournalQuery): { entries: JournalEntry[]; total: number } {
+    const text = query.text?.toLowerCase();
+    const matches = [...this.entries.values()]
+      .filter((entry) => {
+        const submittedAt = new Date(entry.submitted_at);
+        if (text && !journalPrompt(entry)?.toLowerCase().includes(text)) return false;
+        if (query.model && !matchesModel(entry, query.model)) return false;
+        if (query.kind && entry.kind !== query.kind) return false;
+        if (query.status && entry.status !== query.status) return false;
+        if (query.since && submittedAt < query.since) return false;
+        if (query.until && submittedAt > query.until) return false;
+        if (query.profile && (entry.profile ?? DEFAULT_PROFILE) !== query.profile) return false;
+        return true;
+      })
+      .sort((a, b) => b.submitted_at.localeCompare(a.submitted_at));
+
+    return { entries: matches.slice(0, query.limit), total: matches.length };
+  }
+
+  /** Resolves once every queued write has reached the file */
+  flush(): Promise<void> {
+    return this.writes;
+  }
+
+  private write(entry: JournalEntry) {
+    this.entries.set(entry.task_id, entry);
+    const line = `${JSON.stringify(entry)}\n`;
+    this.writes = this.writes
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, line, "utf8");
+      })
+      .catch((error) => {
+        process.stderr.write(`Failed to write task journal ${this.filePath}: ${error}\n`);
+      });
+  }
+
+  private async compact() {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    const content = [...this.entries.values()].map((entry) => `${JSON.stringify(entry)}\n`).join("");
+    await fs.writeFile(tempPath, content, "utf8");
+    await fs.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,28 @@
+/**
+ * Package entry point: the Freepik API client and the building blocks of the
+ * MCP server. Importing it has no side effects; `dist/index.js` is the script
+ * that starts the server.
+ */
+export { FreepikClient, FreepikClientOptions, LookupOptions } from "./client.js";
+export * from "./types.js";
+export { FreepikApiError } from "./errors.js";
+export { ApiConnection, FreepikHttpClient, RetryPolicy } from "./http.js";
+export { DEFAULT_RATE_LIMITS, EndpointFamily, FamilyLimits, parseRateLimits, RateLimiter, RateLimits } from "./rate-limit.js";
+export { CacheEndpoint, CacheInfo, CacheMode, ResponseCache, ResponseCacheOptions } from "./cache.js";
+export {
+  AITask,
+  DEFAULT_POLL_INTERVAL_SECONDS,
+  DEFAULT_WAIT_TIMEOUT_SECONDS,
+  isTerminalStatus,
+  TASK_KIND_NAMES,
+  TASK_KINDS,
+  TaskKind,
+  TaskKindInfo,
+  TaskService,
+  TaskTimeoutError,
+  WaitOptions,
+} from "./tasks.js";
+export { collectDryRun, RequestPreview } from "./dry-run.js";
+export { DEFAULT_BASE_URL, loadConfig, ServerConfig } from "./config.js";
+export { FreepikServices } from "./services.js";
+export { createServer, ToolResult } from "./index.js";
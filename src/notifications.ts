@@ -0,0 +1,356 @@
+import axios from "axios";
+import { spawn } from "child_process";
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { ServerConfig } from "./config.js";
+import { downloadToDirectory, expandHome, SavedFile } from "./downloads.js";
+import { taskUri } from "./resources.js";
+import { AITask, isTerminalStatus, TaskKind } from "./tasks.js";
+
+/** Who asked for a task: the MCP client and the local user running the server */
+export interface Requester {
+  /** `name/version` the MCP client reported when connecting */
+  client?: string;
+  user?: string;
+}
+
+/** What was submitted, remembered until the task finishes */
+export interface TaskSubmission {
+  kind: TaskKind;
+  task_id: string;
+  /** Tool that submitted the task, e.g. `generate_mystic` */
+  tool: string;
+  prompt?: string;
+  requester: Requester;
+  /** ISO timestamp */
+  submitted_at: string;
+}
+
+export type TaskEventType = "task.completed" | "task.failed" | "task.abandoned";
+
+/**
+ * Body of every notification, serialized as JSON. Documented in the README
+ * under "Task completion notifications"; add fields rather than renaming them.
+ */
+export interface TaskCompletionEvent {
+  /** Unique per event; deliveries retried after a failure repeat the same ID */
+  id: string;
+  type: TaskEventType;
+  /** ISO timestamp of when the server saw the task finish */
+  created_at: string;
+  task: {
+    kind: TaskKind;
+    task_id: string;
+    status: string;
+    generated: string[];
+    has_nsfw?: boolean;
+    resource_uri: string;
+  };
+  submission: Omit<TaskSubmission, "kind" | "task_id">;
+  /** Generated images saved to the output directory, when one is configured */
+  files: SavedFile[];
+  /** Why the server stopped following the task; only on `task.abandoned` events */
+  error?: string;
+}
+
+/** Metadata sent alongside the body: as headers to HTTP sinks, as environment variables to commands */
+export interface Delivery {
+  event: TaskCompletionEvent;
+  body: string;
+  /** Unix seconds, part of the signed content */
+  timestamp: number;
+  /** `sha256=<hex>` HMAC of `<timestamp>.<body>`; absent without a secret */
+  signature?: string;
+}
+
+export interface NotificationSink {
+  /** Identifies the sink in logs and dead-letter entries */
+  name: string;
+  deliver(delivery: Delivery): Promise<void>;
+}
+
+export interface TaskNotifierOptions {
+  /** HMAC-SHA256 key for signatures */
+  secret?: string;
+  /** Attempts per sink before the event is dead-lettered */
+  maxAttempts: number;
+  /** JSONL file that receives events no sink attempt could deliver */
+  deadLetterFile: string;
+  /** Directory generated images are saved to before notifying */
+  outputDir?: string;
+}
+
+const HTTP_TIMEOUT_MS = 10_000;
+const COMMAND_TIMEOUT_MS = 60_000;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60_000;
+const MAX_COMMAND_OUTPUT = 2000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Signs `<timestamp>.<body>` so receivers can check both the origin and the
+ * age of a delivery.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * POSTs the event as JSON with `X-Freepik-Event`, `X-Freepik-Event-Id`,
+ * `X-Freepik-Timestamp` and, when signed, `X-Freepik-Signature` headers.
+ * Any non-2xx answer counts as a failed attempt.
+ */
+export class HttpSink implements NotificationSink {
+  readonly name: string;
+
+  constructor(private url: string) {
+    this.name = `http:${url}`;
+  }
+
+  async deliver({ event, body, timestamp, signature }: Delivery) {
+    try {
+      await axios.post(this.url, body, {
+        timeout: HTTP_TIMEOUT_MS,
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "freepik-mcp",
+          "X-Freepik-Event": event.type,
+          "X-Freepik-Event-Id": event.id,
+          "X-Freepik-Timestamp": String(timestamp),
+          ...(signature ? { "X-Freepik-Signature": signature } : {}),
+        },
+        // Send the signed bytes as they are.
+        transformRequest: [(data) => data],
+      });
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        throw new Error(`${this.url} answered HTTP ${error.response.status}`);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Runs a shell command with the event on stdin and its metadata in
+ * `FREEPIK_EVENT_*` environment variables. A non-zero exit or running longer
+ * than a minute counts as a failed attempt. The command's stdout is discarded,
+ * since the server's own stdout carries the MCP protocol.
+ */
+export class CommandSink implements NotificationSink {
+  readonly name = "command";
+
+  constructor(private command: string) {}
+
+  deliver({ event, body, timestamp, signature }: Delivery): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.command, {
+        shell: true,
+        stdio: ["pipe", "ignore", "pipe"],
+        env: {
+          ...process.env,
+          FREEPIK_EVENT_ID: event.id,
+          FREEPIK_EVENT_TYPE: event.type,
+          FREEPIK_EVENT_TIMESTAMP: String(timestamp),
+          FREEPIK_EVENT_SIGNATURE: signature ?? "",
+          FREEPIK_TASK_KIND: event.task.kind,
+          FREEPIK_TASK_ID: event.task.task_id,
+          FREEPIK_TASK_STATUS: event.task.status,
+        },
+      });
+
+      let stderr = "";
+      child.stderr.on("data", (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString("utf8")).slice(-MAX_COMMAND_OUTPUT);
+      });
+      const timer = setTimeout(() => child.kill("SIGTERM"), COMMAND_TIMEOUT_MS);
+
+      child.on("error", (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      child.on("close", (code, signal) => {
+        clearTimeout(timer);
+        if (code === 0) return resolve();
+        const reason = signal ? `was stopped by ${signal}` : `exited with code ${code}`;
+        reject(new Error(`Command ${reason}${stderr.trim() ? `: ${stderr.trim()}` : ""}`));
+      });
+
+      // A command that ignores its input closes stdin early; that is not a failure.
+      child.stdin.on("error", () => {});
+      child.stdin.end(body);
+    });
+  }
+}
+
+/**
+ * Appends each event as one JSON line. Lines are not signed: the file never
+ * leaves the machine, and anyone able to write to it could forge a signature
+ * field anyway.
+ */
+export class FileSink implements NotificationSink {
+  readonly name: string;
+
+  constructor(private filePath: string) {
+    this.name = `file:${filePath}`;
+  }
+
+  async deliver({ body }: Delivery) {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${body}\n`, "utf8");
+  }
+}
+
+/**
+ * Fans out an event to every sink once each task submitted through this
+ * server finishes, or once the server can no longer follow it.
+ *
+ * Each sink gets its own attempts, retried with exponential backoff; a sink
+ * that keeps failing has the event appended to the dead-letter file, together
+ * with the last error, so it can be replayed by hand.
+ */
+export class TaskNotifier {
+  private pending = new Map<string, TaskSubmission>();
+
+  constructor(private sinks: NotificationSink[], private options: TaskNotifierOptions) {}
+
+  track(submission: TaskSubmission) {
+    this.pending.set(`${submission.kind}/${submission.task_id}`, submission);
+  }
+
+  /**
+   * Notifies the sinks if `task` is a tracked task that has just finished.
+   * Resolves with the event once every sink has either received it or
+   * dead-lettered it.
+   */
+  async handle(task: AITask): Promise<TaskCompletionEvent | undefined> {
+    const key = `${task.kind}/${task.task_id}`;
+    const submission = this.pending.get(key);
+    if (!submission || !isTerminalStatus(task.status)) return undefined;
+    this.pending.delete(key);
+
+    const type = task.status === "COMPLETED" ? "task.completed" : "task.failed";
+    return this.send(submission, task, type, await this.saveFiles(task));
+  }
+
+  /**
+   * Notifies the sinks that a tracked task can no longer be followed, such as
+   * one Freepik answers 404 for, and stops tracking it. `task` carries the
+   * last status seen.
+   */
+  async abandon(task: AITask, error: unknown): Promise<TaskCompletionEvent | undefined> {
+    const key = `${task.kind}/${task.task_id}`;
+    const submission = this.pending.get(key);
+    if (!submission) return undefined;
+    this.pending.delete(key);
+    return this.send(submission, task, "task.abandoned", [], errorMessage(error));
+  }
+
+  private async send(
+    submission: TaskSubmission,
+    task: AITask,
+    type: TaskEventType,
+    files: SavedFile[],
+    error?: string
+  ): Promise<TaskCompletionEvent> {
+    const { kind, task_id, ...rest } = submission;
+    const event: TaskCompletionEvent = {
+      id: `evt_${crypto.randomBytes(12).toString("hex")}`,
+      type,
+      created_at: new Date().toISOString(),
+      task: {
+        kind,
+        task_id,
+        status: task.status,
+        generated: task.generated ?? [],
+        ...(task.has_nsfw !== undefined ? { has_nsfw: task.has_nsfw } : {}),
+        resource_uri: taskUri(kind, task_id),
+      },
+      submission: rest,
+      files,
+      ...(error !== undefined ? { error } : {}),
+    };
+    const body = JSON.stringify(event);
+
+    await Promise.all(this.sinks.map((sink) => this.deliverWithRetry(sink, event, body)));
+    return event;
+  }
+
+  private async saveFiles(task: AITask): Promise<SavedFile[]> {
+    const outputDir = this.options.outputDir;
+    if (!outputDir || task.status !== "COMPLETED" || !task.generated) return [];
+
+    const files: SavedFile[] = [];
+    for (const url of task.generated) {
+      try {
+        files.push(await downloadToDirectory(url, outputDir));
+      } catch (error) {
+        process.stderr.write(`Failed to save ${url} for task ${task.task_id}: ${errorMessage(error)}\n`);
+      }
+    }
+    return files;
+  }
+
+  private async deliverWithRetry(sink: NotificationSink, event: TaskCompletionEvent, body: string) {
+    let lastError: unknown;
+    for (let attempt = 1; attempt <= this.options.maxAttempts; attempt++) {
+      if (attempt > 1) {
+        await sleep(Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 2), MAX_RETRY_DELAY_MS));
+      }
+      // Re-signed per attempt so the timestamp reflects when the delivery was sent.
+      const timestamp = Math.floor(Date.now() / 1000);
+      const signature = this.options.secret ? signPayload(this.options.secret, timestamp, body) : undefined;
+      try {
+        await sink.deliver({ event, body, timestamp, signature });
+        return;
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    process.stderr.write(
+      `Notification ${event.id} could not be delivered to ${sink.name} after ${this.options.maxAttempts} attempts: ${errorMessage(lastError)}\n`
+    );
+    await this.deadLetter(sink, event, lastError);
+  }
+
+  private async deadLetter(sink: NotificationSink, event: TaskCompletionEvent, error: unknown) {
+    const entry = {
+      failed_at: new Date().toISOString(),
+      sink: sink.name,
+      attempts: this.options.maxAttempts,
+      error: errorMessage(error),
+      event,
+    };
+    try {
+      await fs.mkdir(path.dirname(this.options.deadLetterFile), { recursive: true });
+      await fs.appendFile(this.options.deadLetterFile, `${JSON.stringify(entry)}\n`, "utf8");
+    } catch (writeError) {
+      process.stderr.write(`Failed to write dead-letter entry for ${event.id}: ${errorMessage(writeError)}\n`);
+    }
+  }
+}
+
+/**
+ * Builds a notifier for the configured sinks, or returns undefined when no
+ * sink is configured.
+ */
+export function createTaskNotifier(config: ServerConfig): TaskNotifier | undefined {
+  const sinks: NotificationSink[] = config.notifyUrls.map((url) => new HttpSink(url));
+  if (config.notifyCommand) sinks.push(new CommandSink(config.notifyCommand));
+  if (config.notifyFile) sinks.push(new FileSink(path.resolve(expandHome(config.notifyFile))));
+  if (sinks.length === 0) return undefined;
+
+  return new TaskNotifier(sinks, {
+    secret: config.notifySecret,
+    maxAttempts: config.notifyMaxAttempts,
+    deadLetterFile: path.resolve(expandHome(config.notifyDeadLetterFile)),
+    outputDir: config.outputDir,
+  });
+}
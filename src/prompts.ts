@@ -0,0 +1,166 @@
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+
+interface PromptArgument {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render(args: Record<string, string>): string;
+}
+
+function steps(lines: string[]): string {
+  return lines.map((line, index) => `${index + 1}. ${line}`).join("\n");
+}
+
+function oneOf(args: Record<string, string>, name: string, allowed: string[], fallback: string): string {
+  const value = args[name]?.trim().toLowerCase() || fallback;
+  if (!allowed.includes(value)) {
+    throw new McpError(ErrorCode.InvalidParams, `Argument ${name} must be one of: ${allowed.join(", ")}`);
+  }
+  return value;
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: "landing_page_hero",
+    description: "Find a wide hero image for a landing page, generating one if stock photos fall short",
+    arguments: [
+      { name: "subject", description: "What the page is about, e.g. 'remote team collaboration'", required: true },
+      { name: "mood", description: "Look and feel, e.g. 'bright and optimistic'" },
+      { name: "color", description: "Dominant brand color as a hex code without #, e.g. '1e40af'" },
+    ],
+    render: (args) => {
+      const mood = args.mood ? ` with a ${args.mood} mood` : "";
+      return `I need a hero image for a landing page about "${args.subject}"${mood}. Use the Freepik tools as follows:
+
+${steps([
+  `Call \`search_resources\` with query "${args.subject}", \`orientation: "landscape"\`, \`content_type: "photo"\`, \`limit: 10\` and \`include_images: true\`${args.color ? `, \`color: "${args.color}"\`` : ""}. If fewer than three results fit, search again with \`orientation: "panoramic"\`.`,
+  "Pick the three results that leave calm space for a headline and read well when cropped wide. Show them to me with their IDs and licenses.",
+  "Call `get_resource_details` for each of the three to check the license terms and look at the full-size image URL.",
+  "When I choose one, call `download_resource` with its ID.",
+  `If no stock photo fits, call \`generate_mystic\` with a prompt describing the scene${mood}, \`aspect_ratio: "widescreen_16_9"\`, \`resolution: "2k"\`, \`model: "realism"\` and \`wait: true\`, and show me the result.`,
+])}`;
+    },
+  },
+  {
+    name: "icon_set",
+    description: "Design a consistent icon set for a list of concepts",
+    arguments: [
+      { name: "concepts", description: "Comma-separated concepts, e.g. 'home, search, settings, profile'", required: true },
+      { name: "shape", description: "Icon style: 'outline' (default) or 'fill'" },
+      { name: "color", description: "Icon color, e.g. 'black', 'blue' or 'multicolor'" },
+    ],
+    render: (args) => {
+      const concepts = args.concepts
+        .split(",")
+        .map((concept) => concept.trim())
+        .filter(Boolean);
+      if (concepts.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, "Argument concepts must list at least one concept");
+      }
+      const shape = oneOf(args, "shape", ["outline", "fill"], "outline");
+      const color = args.color ? `, \`color: "${args.color}"\`` : "";
+
+      return `Design a consistent ${shape} icon set for these concepts: ${concepts.join(", ")}. Use the Freepik tools as follows:
+
+${steps([
+  `Call \`search_icons\` with \`term: "${concepts[0]}"\`, \`shape: "${shape}"\`${color} and \`include_images: true\`. Pick the icon that best fits and note its family ID.`,
+  `For each remaining concept, call \`search_icons\` with the same filters plus \`family_id\` set to that family, so every icon shares one visual style. Only drop \`family_id\` for a concept the family does not cover.`,
+  "Show me the chosen icon for every concept in one table with its ID and family.",
+  'Once I approve the set, call `download_icon` for each icon with `format: "svg"`.',
+  `For any concept without a good match, call \`generate_icon\` with a prompt for that concept, \`style: "${shape === "fill" ? "solid" : "outline"}"\`, \`format: "svg"\` and a \`webhook_url\` to receive the result. Leave \`webhook_url\` out only if the server runs its built-in webhook receiver; if the call fails for lack of one, ask me for a URL. Call \`wait_for_task\` with the task ID, then \`render_generated_icon\` once it completes.`,
+])}`;
+    },
+  },
+  {
+    name: "product_shot",
+    description: "Generate a product photo and upscale the chosen result for print or web",
+    arguments: [
+      { name: "product", description: "The product to photograph, e.g. 'matte black ceramic coffee mug'", required: true },
+      { name: "setting", description: "Scene or background, e.g. 'on a marble kitchen counter, soft morning light'" },
+      { name: "scale_factor", description: "Upscaling factor: '2x' (default), '4x', '8x' or '16x'" },
+    ],
+    render: (args) => {
+      const scale = oneOf(args, "scale_factor", ["2x", "4x", "8x", "16x"], "2x");
+      const setting = args.setting || "on a clean studio background with soft, even lighting";
+
+      return `Create a professional product shot of ${args.product}, ${setting}. Use the Freepik tools as follows:
+
+${steps([
+  `Call \`generate_mystic\` with a detailed photographic prompt for the product ${setting}, \`model: "realism"\`, \`resolution: "2k"\`, \`aspect_ratio: "square_1_1"\`, \`wait: true\` and \`include_images: true\`.`,
+  "Show me the generated images and ask which one to keep. If none work, adjust the prompt and generate again.",
+  `Call \`upscale_image\` with the chosen image URL as \`image\`, \`scale_factor: "${scale}"\`, \`optimized_for: "standard"\`, \`resemblance: 5\` and \`wait: true\`, so the product keeps its exact shape and label.`,
+  "Give me the upscaled image URL and the task IDs of both steps.",
+  "If the upscaled image needs a transparent background, call `remove_background` with its URL.",
+])}`;
+    },
+  },
+  {
+    name: "free_vector_alternative",
+    description: "Find a free vector that can replace a premium resource or match a description",
+    arguments: [
+      { name: "resource_id", description: "ID of the premium Freepik resource to replace" },
+      { name: "description", description: "What the vector should show, when there is no resource ID" },
+    ],
+    render: (args) => {
+      if (!args.resource_id && !args.description) {
+        throw new McpError(ErrorCode.InvalidParams, "Provide either resource_id or description");
+      }
+      const subject = args.resource_id ? `Freepik resource ${args.resource_id}` : `"${args.description}"`;
+
+      return `Find a free vector alternative to ${subject}. Use the Freepik tools as follows:
+
+${steps([
+  ...(args.resource_id
+    ? [`Call \`get_resource_details\` with \`resource_id: "${args.resource_id}"\` and note its title, style and main colors.`]
+    : []),
+  `Call \`search_resources\` with a query built from ${args.resource_id ? "that title" : "the description"}, \`content_type: "vector"\`, \`license: "freemium"\`, \`limit: 20\` and \`include_images: true\`.`,
+  "If fewer than three results are close, search again with broader or synonym keywords, keeping the same filters.",
+  "Show me the three closest matches with their IDs, and explain how each differs from what I asked for.",
+  "When I choose one, call `download_resource` with its ID.",
+])}`;
+    },
+  },
+];
+
+export function listPrompts() {
+  return PROMPTS.map(({ name, description, arguments: promptArguments }) => ({
+    name,
+    description,
+    arguments: promptArguments,
+  }));
+}
+
+/**
+ * Renders a prompt into a single user message, checking that required
+ * arguments are present.
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}) {
+  const prompt = PROMPTS.find((candidate) => candidate.name === name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments.filter((argument) => argument.required && !args[argument.name]?.trim());
+  if (missing.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Missing required argument${missing.length > 1 ? "s" : ""}: ${missing.map((argument) => argument.name).join(", ")}`
+    );
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: "user" as const,
+        content: { type: "text" as const, text: prompt.render(args) },
+      },
+    ],
+  };
+}
@@ -0,0 +1,206 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { TASK_KINDS, TaskKind } from "./tasks.js";
+
+/**
+ * Groups of Freepik endpoints limited together: searches and resource details,
+ * download links, task status checks, and task creation per AI model.
+ */
+export type EndpointFamily = "search" | "download" | "task_status" | TaskKind | "remove_background";
+
+export const ENDPOINT_FAMILIES: EndpointFamily[] = [
+  "search",
+  "download",
+  "task_status",
+  ...(Object.keys(TASK_KINDS) as TaskKind[]),
+  "remove_background",
+];
+
+export interface FamilyLimits {
+  /** Requests started per minute; 0 means unlimited */
+  per_minute: number;
+  /** Requests that may start back to back before the per-minute rate applies */
+  burst: number;
+  /** Requests in flight at once; 0 means unlimited */
+  concurrency: number;
+}
+
+export type RateLimits = Record<EndpointFamily, FamilyLimits>;
+
+const SEARCH_LIMITS: FamilyLimits = { per_minute: 120, burst: 10, concurrency: 8 };
+const DOWNLOAD_LIMITS: FamilyLimits = { per_minute: 60, burst: 5, concurrency: 4 };
+const GENERATION_LIMITS: FamilyLimits = { per_minute: 20, burst: 3, concurrency: 3 };
+
+export const DEFAULT_RATE_LIMITS: RateLimits = Object.fromEntries(
+  ENDPOINT_FAMILIES.map((family) => [
+    family,
+    family === "search" || family === "task_status" ? SEARCH_LIMITS : family === "download" ? DOWNLOAD_LIMITS : GENERATION_LIMITS,
+  ])
+) as RateLimits;
+
+/** Time a single request spent waiting for a free slot */
+export interface QueueWait {
+  family: EndpointFamily;
+  waited_ms: number;
+}
+
+const LIMIT_FIELDS: Array<keyof FamilyLimits> = ["per_minute", "burst", "concurrency"];
+
+/**
+ * Parses `FREEPIK_RATE_LIMITS`: a JSON object keyed by endpoint family whose
+ * values override some or all of that family's default limits.
+ */
+export function parseRateLimits(json: string | undefined): RateLimits {
+  const limits = Object.fromEntries(
+    ENDPOINT_FAMILIES.map((family) => [family, { ...DEFAULT_RATE_LIMITS[family] }])
+  ) as RateLimits;
+  if (!json?.trim()) return limits;
+
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(json);
+  } catch {
+    throw new Error("FREEPIK_RATE_LIMITS is not valid JSON");
+  }
+  if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+    throw new Error("FREEPIK_RATE_LIMITS must be a JSON object keyed by endpoint family");
+  }
+
+  for (const [family, override] of Object.entries(overrides)) {
+    if (!ENDPOINT_FAMILIES.includes(family as EndpointFamily)) {
+      throw new Error(`FREEPIK_RATE_LIMITS has an unknown endpoint family "${family}" (expected one of: ${ENDPOINT_FAMILIES.join(", ")})`);
+    }
+    for (const [field, value] of Object.entries(override ?? {})) {
+      if (!LIMIT_FIELDS.includes(field as keyof FamilyLimits) || typeof value !== "number" || value < 0) {
+        throw new Error(`FREEPIK_RATE_LIMITS.${family}.${field} must be one of ${LIMIT_FIELDS.join(", ")} with a non-negative number`);
+      }
+      limits[family as EndpointFamily][field as keyof FamilyLimits] = value;
+    }
+  }
+  return limits;
+}
+
+/**
+ * Maps an API request to its endpoint family. Task creation is limited per
+ * model; checking and listing tasks shares one family so polling never delays
+ * new generations.
+ */
+export function endpointFamily(method: string, path: string): EndpointFamily {
+  if (path.startsWith("/ai/")) {
+    if (method.toUpperCase() === "GET") return "task_status";
+    if (path.startsWith("/ai/beta/remove-background")) return "remove_background";
+    const kind = (Object.values(TASK_KINDS) as Array<(typeof TASK_KINDS)[TaskKind]>).find(
+      (info) => path === info.endpoint || path.startsWith(`${info.endpoint}/`)
+    );
+    return kind?.kind ?? "task_status";
+  }
+  return /\/download(\/|$)/.test(path) ? "download" : "search";
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+class Semaphore {
+  private active = 0;
+  private waiters: Array<() => void> = [];
+
+  constructor(private limit: number) {}
+
+  /** Resolves once a slot is free; reports whether the caller had to queue */
+  async acquire(): Promise<boolean> {
+    if (this.limit <= 0 || this.active < this.limit) {
+      this.active++;
+      return false;
+    }
+    await new Promise<void>((resolve) => this.waiters.push(resolve));
+    return true;
+  }
+
+  release() {
+    const next = this.waiters.shift();
+    // Hand the slot straight to the next waiter so the count never dips below the limit.
+    if (next) next();
+    else this.active--;
+  }
+}
+
+class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private perMinute: number, private capacity: number) {
+    this.tokens = capacity;
+  }
+
+  /** Takes a token in FIFO order, resolving with how long the caller waited */
+  take(): Promise<number> {
+    if (this.perMinute <= 0) return Promise.resolve(0);
+    const taken = this.queue.then(() => this.takeNext());
+    this.queue = taken;
+    return taken;
+  }
+
+  private async takeNext(): Promise<number> {
+    this.refill();
+    let waitedMs = 0;
+    if (this.tokens < 1) {
+      waitedMs = Math.ceil(((1 - this.tokens) * 60_000) / this.perMinute);
+      await sleep(waitedMs);
+      this.refill();
+    }
+    this.tokens -= 1;
+    return waitedMs;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.refilledAt) * this.perMinute) / 60_000);
+    this.refilledAt = now;
+  }
+}
+
+const queueWaits = new AsyncLocalStorage<QueueWait[]>();
+
+/**
+ * Runs `fn`, collecting the queue waits of every API request it makes, so a
+ * tool call can report how long it was held back.
+ */
+export async function collectQueueWaits<T>(fn: () => Promise<T>): Promise<{ value: T; waits: QueueWait[] }> {
+  const waits: QueueWait[] = [];
+  const value = await queueWaits.run(waits, fn);
+  return { value, waits };
+}
+
+/**
+ * Client-side limits per endpoint family: a semaphore caps requests in flight
+ * and a token bucket caps how fast new ones start. Requests over either limit
+ * wait in FIFO order instead of failing.
+ */
+export class RateLimiter {
+  private semaphores = new Map<EndpointFamily, Semaphore>();
+  private buckets = new Map<EndpointFamily, TokenBucket>();
+
+  constructor(limits: RateLimits) {
+    for (const family of ENDPOINT_FAMILIES) {
+      const { per_minute, burst, concurrency } = limits[family];
+      this.semaphores.set(family, new Semaphore(concurrency));
+      this.buckets.set(family, new TokenBucket(per_minute, Math.max(1, burst)));
+    }
+  }
+
+  /**
+   * Waits for a free slot and a token in the request's endpoint family,
+   * returning the function that frees the slot.
+   */
+  async acquire(method: string, path: string): Promise<() => void> {
+    const family = endpointFamily(method, path);
+    const startedAt = Date.now();
+    const semaphore = this.semaphores.get(family)!;
+    const queued = await semaphore.acquire();
+    const throttledMs = await this.buckets.get(family)!.take();
+
+    if (queued || throttledMs > 0) {
+      queueWaits.getStore()?.push({ family, waited_ms: Date.now() - startedAt });
+    }
+    return () => semaphore.release();
+  }
+}
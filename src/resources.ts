@@ -0,0 +1,101 @@
+import path from "path";
+import { isTaskKind, TaskKind } from "./tasks.js";
+
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "freepik://task/{kind}/{task_id}",
+    name: "AI task",
+    description: "Current status and results of an AI task as JSON",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "freepik://task/{kind}/{task_id}/generated/{index}",
+    name: "Generated image",
+    description: "An image generated by a completed AI task (index starts at 1)",
+  },
+  {
+    uriTemplate: "freepik://resource/{id}",
+    name: "Freepik resource",
+    description: "Metadata of a Freepik resource (photo, vector, PSD) as JSON",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "freepik://asset/{path}",
+    name: "Downloaded asset",
+    description: "A file saved by a download tool, addressed by its absolute path",
+  },
+];
+
+const MIME_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".webp": "image/webp",
+  ".gif": "image/gif",
+  ".svg": "image/svg+xml",
+  ".psd": "image/vnd.adobe.photoshop",
+  ".ai": "application/postscript",
+  ".eps": "application/postscript",
+  ".json": "application/json",
+  ".mp4": "video/mp4",
+};
+
+export function mimeTypeForPath(filePath: string): string {
+  return MIME_TYPES[path.extname(filePath).toLowerCase()] ?? "application/octet-stream";
+}
+
+export type ParsedResourceUri =
+  | { type: "task"; kind: TaskKind; taskId: string }
+  | { type: "generated"; kind: TaskKind; taskId: string; index: number }
+  | { type: "resource"; id: string }
+  | { type: "asset"; path: string };
+
+export function taskUri(kind: TaskKind, taskId: string): string {
+  return `freepik://task/${kind}/${encodeURIComponent(taskId)}`;
+}
+
+export function generatedImageUri(kind: TaskKind, taskId: string, index: number): string {
+  return `${taskUri(kind, taskId)}/generated/${index}`;
+}
+
+export function resourceUri(id: string): string {
+  return `freepik://resource/${encodeURIComponent(id)}`;
+}
+
+export function assetUri(filePath: string): string {
+  return `freepik://asset/${path
+    .resolve(filePath)
+    .split(path.sep)
+    .filter(Boolean)
+    .map(encodeURIComponent)
+    .join("/")}`;
+}
+
+/**
+ * Parses a `freepik://` URI into the entity it addresses. Returns undefined for
+ * URIs that match none of `RESOURCE_TEMPLATES`.
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri | undefined {
+  const match = /^freepik:\/\/([^/]+)\/(.+)$/.exec(uri);
+  if (!match) return undefined;
+  const [, type, rest] = match;
+  const segments = rest.split("/").map(decodeURIComponent);
+
+  switch (type) {
+    case "task": {
+      const [kind, taskId, generated, index] = segments;
+      if (!isTaskKind(kind) || !taskId) return undefined;
+      if (segments.length === 2) return { type: "task", kind, taskId };
+      if (segments.length === 4 && generated === "generated" && /^[1-9]\d*$/.test(index)) {
+        return { type: "generated", kind, taskId, index: parseInt(index, 10) };
+      }
+      return undefined;
+    }
+    case "resource":
+      return segments.length === 1 && segments[0] ? { type: "resource", id: segments[0] } : undefined;
+    case "asset":
+      return { type: "asset", path: path.resolve(path.sep, ...segments) };
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,231 @@
+import path from "path";
+import { SpendingGuard } from "./budget.js";
+import { ResponseCache } from "./cache.js";
+import { FreepikClient } from "./client.js";
+import { ServerConfig } from "./config.js";
+import { FreepikCredential, resolveCredential, SessionIdentity } from "./credentials.js";
+import { expandHome } from "./downloads.js";
+import { startFakeFreepikServer } from "./fake-server.js";
+import { FreepikHttpClient } from "./http.js";
+import { TaskJournal } from "./journal.js";
+import { createTaskNotifier, TaskNotifier } from "./notifications.js";
+import { RateLimiter } from "./rate-limit.js";
+import { TaskWatcher } from "./task-watcher.js";
+import { isTerminalStatus } from "./tasks.js";
+import { WebhookReceiver } from "./webhooks.js";
+
+/**
+ * Freepik API access with one key. Freepik limits and bills each key on its
+ * own, and task IDs are only visible to the key that created them, so every
+ * key gets its own client, rate limits and task tracking.
+ */
+export interface FreepikAccount {
+  /** Key profile that usage is attributed to */
+  profile: string;
+  client: FreepikClient;
+  watcher: TaskWatcher;
+}
+
+/**
+ * Everything the MCP sessions of one process share: a Freepik account per API
+ * key, the response cache, spend tracking and the records kept across
+ * restarts. Each session gets its own MCP `Server` on top.
+ */
+export class FreepikServices {
+  /** API base URL; replaced by the fake API's address when that is started */
+  baseUrl: string;
+  /** Built-in receiver for task callbacks, when FREEPIK_WEBHOOK_PORT is set */
+  readonly webhooks?: WebhookReceiver;
+  /** Sends task completion events to the configured sinks, when any are set */
+  readonly notifier?: TaskNotifier;
+  /** Local record of submitted tasks, when FREEPIK_JOURNAL_FILE is set */
+  readonly journal?: TaskJournal;
+  /** Cache of search and resource-detail responses, unless FREEPIK_CACHE_MAX_ENTRIES is 0 */
+  readonly cache?: ResponseCache;
+  /** Cost checks and spend records for paid tools */
+  readonly spending: SpendingGuard;
+  /** Accounts by profile and key, with the number of sessions using each */
+  private accounts = new Map<string, { account: FreepikAccount; sessions: number }>();
+  private closers: Array<() => Promise<void>> = [];
+  private activeCalls = 0;
+  private idleWaiters: Array<() => void> = [];
+
+  constructor(readonly config: ServerConfig) {
+    this.baseUrl = config.baseUrl;
+    if (config.webhookPort !== undefined) {
+      this.webhooks = new WebhookReceiver({
+        port: config.webhookPort,
+        host: config.webhookHost,
+        publicUrl: config.webhookPublicUrl,
+        token: config.webhookToken,
+      });
+      this.webhooks.onEvent((event) => {
+        // Callbacks for tasks this server submitted update their status like a poll would.
+        for (const { account } of this.accounts.values()) {
+          const kind = account.client.tasks.kindOf(event.task_id);
+          if (kind && event.status) {
+            account.client.tasks.record({ kind, task_id: event.task_id, status: event.status, generated: event.generated });
+          }
+        }
+      });
+    }
+    if (config.cacheMaxEntries > 0) {
+      this.cache = new ResponseCache({
+        maxEntries: config.cacheMaxEntries,
+        ttlSeconds: {
+          resources: config.cacheResourcesTtlSeconds,
+          icons: config.cacheIconsTtlSeconds,
+          resource_details: config.cacheResourceDetailsTtlSeconds,
+        },
+        directory: config.cacheDir ? path.resolve(expandHome(config.cacheDir)) : undefined,
+      });
+    }
+    this.spending = new SpendingGuard({
+      costTable: config.costTable,
+      dailyBudget: config.dailyBudget,
+      sessionBudget: config.sessionBudget,
+      confirmAbove: config.confirmAboveCredits,
+      enforcement: config.budgetEnforcement,
+      usageFile: config.usageFile ? path.resolve(expandHome(config.usageFile)) : undefined,
+    });
+    this.notifier = createTaskNotifier(config);
+    if (config.journalFile) {
+      this.journal = new TaskJournal(path.resolve(expandHome(config.journalFile)));
+    }
+  }
+
+  /** The key a new session uses; see `resolveCredential` */
+  credentialFor(identity: SessionIdentity): FreepikCredential | undefined {
+    return resolveCredential(
+      { defaultApiKey: this.config.apiKey || undefined, profiles: this.config.apiKeyProfiles, callerProfiles: this.config.callerProfiles },
+      identity
+    );
+  }
+
+  /** Accounts currently kept, one per profile and key in use */
+  get accountCount(): number {
+    return this.accounts.size;
+  }
+
+  /**
+   * The account for a session's key, created on first use. Sessions with the
+   * same profile and key share it; each hands it back with `releaseAccount`
+   * when it ends.
+   */
+  account(credential: FreepikCredential): FreepikAccount {
+    const id = `${credential.profile}:${credential.apiKey}`;
+    const existing = this.accounts.get(id);
+    if (existing) {
+      existing.sessions++;
+      return existing.account;
+    }
+
+    const client = new FreepikClient({
+      http: new FreepikHttpClient(
+        () => ({ baseUrl: this.baseUrl, apiKey: credential.apiKey }),
+        {
+          timeoutMs: this.config.requestTimeoutSeconds * 1000,
+          maxRetries: this.config.maxRetries,
+          maxDelayMs: this.config.maxRetryDelaySeconds * 1000,
+        },
+        new RateLimiter(this.config.rateLimits)
+      ),
+      cache: this.cache,
+    });
+    const watcher = new TaskWatcher(client.tasks, this.config.watchIntervalSeconds * 1000);
+    client.tasks.onStatusChange((task) => {
+      this.journal?.update(task);
+      if (!isTerminalStatus(task.status)) return;
+      watcher.unwatch(task.kind, task.task_id, "completion");
+      this.dropIfUnused(id);
+      void this.notifier?.handle(task).then((event) => {
+        if (event) this.journal?.addFiles(task.task_id, event.files);
+      });
+    });
+
+    watcher.onDrop((kind, taskId, error) => {
+      const last = client.tasks.known().find((task) => task.task_id === taskId)?.last;
+      void this.notifier?.abandon(last ?? { kind, task_id: taskId, status: "UNKNOWN" }, error);
+      this.dropIfUnused(id);
+    });
+
+    const account = { profile: credential.profile, client, watcher };
+    this.accounts.set(id, { account, sessions: 1 });
+    return account;
+  }
+
+  /**
+   * Hands back an account a session got from `account`. An account no session
+   * uses is dropped once its watcher has no tasks left, so the keys clients
+   * send do not pile up.
+   */
+  releaseAccount(account: FreepikAccount) {
+    for (const [id, entry] of this.accounts) {
+      if (entry.account !== account) continue;
+      entry.sessions = Math.max(0, entry.sessions - 1);
+      this.dropIfUnused(id);
+      return;
+    }
+  }
+
+  /** Starts the fake API and the webhook receiver when configured, and loads the local records */
+  async start() {
+    if (this.config.fakeApi) {
+      const fake = await startFakeFreepikServer({ port: this.config.fakeApiPort });
+      this.baseUrl = fake.baseUrl;
+      this.closers.push(fake.close);
+      process.stderr.write(`Using fake Freepik API at ${fake.baseUrl}\n`);
+    }
+    if (this.webhooks) {
+      await this.webhooks.start();
+      this.closers.push(() => this.webhooks!.close());
+      process.stderr.write(`Receiving task webhooks at ${this.webhooks.callbackUrl}\n`);
+    }
+    if (this.cache) {
+      void this.cache.prune();
+    }
+    if (this.journal) {
+      await this.journal.load();
+      this.closers.push(() => this.journal!.flush());
+    }
+    await this.spending.load();
+    this.closers.push(() => this.spending.flush());
+    if (this.config.dryRun) {
+      process.stderr.write("Dry-run mode: tool calls preview their Freepik requests without sending them\n");
+    }
+    if (this.notifier && !this.config.notifySecret) {
+      process.stderr.write("Task completion notifications are unsigned; set FREEPIK_NOTIFY_SECRET to sign them\n");
+    }
+  }
+
+  /** Runs a tool call, counting it as running until it settles */
+  async track<T>(fn: () => Promise<T>): Promise<T> {
+    this.activeCalls++;
+    try {
+      return await fn();
+    } finally {
+      this.activeCalls--;
+      // Wait a turn so the call's response is written before anyone closes its session.
+      if (this.activeCalls === 0) setImmediate(() => this.idleWaiters.splice(0).forEach((resolve) => resolve()));
+    }
+  }
+
+  /** Resolves once no tool call is running */
+  idle(): Promise<void> {
+    if (this.activeCalls === 0) return Promise.resolve();
+    return new Promise((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  /** Stops background work and flushes the local records */
+  async close() {
+    for (const { account } of this.accounts.values()) account.watcher.stop();
+    await Promise.allSettled(this.closers.splice(0).map((close) => close()));
+  }
+
+  private dropIfUnused(id: string) {
+    const entry = this.accounts.get(id);
+    if (!entry || entry.sessions > 0 || entry.account.watcher.size > 0) return;
+    entry.account.watcher.stop();
+    this.accounts.delete(id);
+  }
+}
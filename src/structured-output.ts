@@ -0,0 +1,354 @@
+import { SavedFile } from "./downloads.js";
+import { JournalEntry, journalPrompt } from "./journal.js";
+import { taskUri } from "./resources.js";
+import { AITask, TASK_KIND_NAMES } from "./tasks.js";
+
+/*
+ * Typed objects returned as `structuredContent` next to the markdown text of
+ * each tool result, and the JSON Schemas advertised as the tools' `outputSchema`.
+ */
+
+export interface StructuredResource {
+  id: string;
+  title: string;
+  url: string;
+  image_url: string;
+  author: string;
+  license: string;
+}
+
+export interface StructuredIcon {
+  id: number;
+  name: string;
+  png_url: string;
+  svg_url: string;
+  author: string;
+  tags: string[];
+  family_id: number;
+  family: string;
+}
+
+export interface Pagination {
+  page: number;
+  per_page: number;
+  last_page: number;
+  total: number;
+}
+
+export interface StructuredDownload {
+  filename: string;
+  url: string;
+  format?: string;
+  image_size?: string;
+  /** Present when the file was saved to disk */
+  saved?: SavedFile;
+}
+
+export interface StructuredTask extends AITask {
+  resource_uri: string;
+  /** From the task journal, for tasks submitted through this server */
+  tool?: string;
+  prompt?: string;
+  submitted_at?: string;
+}
+
+export interface StructuredJournalEntry extends JournalEntry {
+  resource_uri: string;
+}
+
+export function structuredTask(task: AITask, entry?: JournalEntry): StructuredTask {
+  const structured: StructuredTask = { ...task, resource_uri: taskUri(task.kind, task.task_id) };
+  if (entry) {
+    structured.tool = entry.tool;
+    const prompt = journalPrompt(entry);
+    if (prompt !== undefined) structured.prompt = prompt;
+    structured.submitted_at = entry.submitted_at;
+  }
+  return structured;
+}
+
+export function structuredJournalEntry(entry: JournalEntry): StructuredJournalEntry {
+  return { ...entry, resource_uri: taskUri(entry.kind, entry.task_id) };
+}
+
+const PAGINATION_SCHEMA = {
+  type: "object",
+  properties: {
+    page: { type: "number" },
+    per_page: { type: "number" },
+    last_page: { type: "number" },
+    total: { type: "number" },
+  },
+  required: ["page", "per_page", "last_page", "total"],
+};
+
+const RESOURCE_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    title: { type: "string" },
+    url: { type: "string", description: "Resource page on freepik.com" },
+    image_url: { type: "string", description: "Preview image" },
+    author: { type: "string" },
+    license: { type: "string" },
+  },
+  required: ["id", "title", "url", "image_url", "author", "license"],
+};
+
+const ICON_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "number" },
+    name: { type: "string" },
+    png_url: { type: "string" },
+    svg_url: { type: "string" },
+    author: { type: "string" },
+    tags: { type: "array", items: { type: "string" } },
+    family_id: { type: "number", description: "Pass as family_id to search_icons for icons in the same style" },
+    family: { type: "string" },
+  },
+  required: ["id", "name", "png_url", "svg_url", "author", "tags", "family_id", "family"],
+};
+
+const CACHE_INFO_SCHEMA = {
+  type: "object",
+  description: "How the response was served; absent when caching is disabled",
+  properties: {
+    status: { type: "string", enum: ["hit", "miss", "bypass", "refresh"] },
+    age_seconds: { type: "number", description: "Age of the cached response, for hits" },
+  },
+  required: ["status"],
+};
+
+const SAVED_FILE_SCHEMA = {
+  type: "object",
+  properties: {
+    path: { type: "string", description: "Absolute path of the saved file" },
+    bytes: { type: "number" },
+    sha256: { type: "string" },
+    contentType: { type: "string" },
+  },
+  required: ["path", "bytes", "sha256"],
+};
+
+const TASK_SCHEMA = {
+  type: "object",
+  properties: {
+    kind: { type: "string", enum: TASK_KIND_NAMES },
+    task_id: { type: "string" },
+    status: { type: "string" },
+    generated: { type: "array", items: { type: "string" }, description: "URLs of the generated images" },
+    has_nsfw: { type: "boolean" },
+    resource_uri: { type: "string", description: "MCP resource URI of the task" },
+    tool: { type: "string", description: "Tool that submitted the task, from the task journal" },
+    prompt: { type: "string", description: "Prompt the task was submitted with, from the task journal" },
+    submitted_at: { type: "string", description: "ISO timestamp of the submission, from the task journal" },
+  },
+  required: ["kind", "task_id", "status", "resource_uri"],
+};
+
+const JOURNAL_ENTRY_SCHEMA = {
+  type: "object",
+  properties: {
+    kind: { type: "string", enum: TASK_KIND_NAMES },
+    task_id: { type: "string" },
+    tool: { type: "string", description: "Tool that submitted the task" },
+    profile: { type: "string", description: "Key profile the task was submitted with" },
+    request: { type: "object", description: "Request body sent to Freepik, with inline images replaced by a placeholder" },
+    submitted_at: { type: "string", description: "ISO timestamp" },
+    status: { type: "string", description: "Last status seen by the server" },
+    updated_at: { type: "string", description: "ISO timestamp of the last change" },
+    generated: { type: "array", items: { type: "string" }, description: "URLs of the generated images" },
+    files: { type: "array", items: SAVED_FILE_SCHEMA, description: "Local copies of the generated images" },
+    resource_uri: { type: "string", description: "MCP resource URI of the task" },
+  },
+  required: ["kind", "task_id", "tool", "request", "submitted_at", "status", "updated_at", "generated", "files", "resource_uri"],
+};
+
+export const RESOURCE_SEARCH_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    resources: { type: "array", items: RESOURCE_SCHEMA },
+    pagination: PAGINATION_SCHEMA,
+    cache: CACHE_INFO_SCHEMA,
+  },
+  required: ["resources", "pagination"],
+};
+
+export const ICON_SEARCH_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    icons: { type: "array", items: ICON_SCHEMA },
+    pagination: PAGINATION_SCHEMA,
+    cache: CACHE_INFO_SCHEMA,
+  },
+  required: ["icons", "pagination"],
+};
+
+export const RESOURCE_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    resource: RESOURCE_SCHEMA,
+    cache: CACHE_INFO_SCHEMA,
+  },
+  required: ["resource"],
+};
+
+export const DOWNLOAD_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    filename: { type: "string" },
+    url: { type: "string", description: "Temporary download URL" },
+    format: { type: "string" },
+    image_size: { type: "string" },
+    saved: SAVED_FILE_SCHEMA,
+  },
+  required: ["filename", "url"],
+};
+
+export const TASK_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    task: TASK_SCHEMA,
+    timed_out: { type: "boolean", description: "True when waiting stopped before the task finished" },
+    saved: { type: "array", items: SAVED_FILE_SCHEMA, description: "Generated files saved to disk" },
+  },
+  required: ["task"],
+};
+
+export const TASK_LIST_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    tasks: { type: "array", items: TASK_SCHEMA },
+    failures: {
+      type: "array",
+      description: "Task kinds that could not be listed",
+      items: {
+        type: "object",
+        properties: {
+          kind: { type: "string", enum: TASK_KIND_NAMES },
+          error: { type: "string" },
+        },
+        required: ["kind", "error"],
+      },
+    },
+  },
+  required: ["tasks", "failures"],
+};
+
+export const TASK_HISTORY_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    entries: { type: "array", items: JOURNAL_ENTRY_SCHEMA, description: "Most recently submitted first" },
+    total: { type: "number", description: "Number of matching tasks before the limit was applied" },
+  },
+  required: ["entries", "total"],
+};
+
+export const BACKGROUND_REMOVAL_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    original: { type: "string" },
+    high_resolution: { type: "string" },
+    preview: { type: "string" },
+    url: { type: "string", description: "Download URL, valid for 5 minutes" },
+  },
+  required: ["original", "high_resolution", "preview", "url"],
+};
+
+export const WEBHOOK_EVENTS_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    callback_url: { type: "string", description: "URL the receiver accepts callbacks on" },
+    events: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          task_id: { type: "string" },
+          status: { type: "string" },
+          generated: { type: "array", items: { type: "string" } },
+          received_at: { type: "string", description: "ISO timestamp" },
+          payload: { type: "object", description: "Callback body as received" },
+        },
+        required: ["task_id", "received_at", "payload"],
+      },
+    },
+  },
+  required: ["callback_url", "events"],
+};
+
+export const CACHE_STATS_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    enabled: { type: "boolean" },
+    entries: { type: "number", description: "Responses currently held in memory" },
+    max_entries: { type: "number" },
+    directory: { type: "string", description: "On-disk store, when configured" },
+    endpoints: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          endpoint: { type: "string", enum: ["resources", "icons", "resource_details"] },
+          ttl_seconds: { type: "number", description: "0 when the endpoint is not cached" },
+          hits: { type: "number" },
+          misses: { type: "number" },
+          bypassed: { type: "number", description: "Calls made with cache 'bypass' or 'refresh'" },
+        },
+        required: ["endpoint", "ttl_seconds", "hits", "misses", "bypassed"],
+      },
+    },
+  },
+  required: ["enabled", "entries", "max_entries", "endpoints"],
+};
+
+const SPEND_SUMMARY_SCHEMA = {
+  type: "object",
+  properties: {
+    credits: { type: "number" },
+    calls: { type: "number" },
+    budget: { type: "number", description: "Absent when unlimited" },
+    remaining: { type: "number" },
+  },
+  required: ["credits", "calls"],
+};
+
+export const USAGE_OUTPUT_SCHEMA = {
+  type: "object",
+  properties: {
+    date: { type: "string", description: "Local calendar day the daily figures cover, YYYY-MM-DD" },
+    session_started_at: { type: "string" },
+    profile: { type: "string", description: "Key profile this session's calls are billed to" },
+    today: SPEND_SUMMARY_SCHEMA,
+    session: SPEND_SUMMARY_SCHEMA,
+    by_tool: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          tool: { type: "string" },
+          calls: { type: "number" },
+          credits: { type: "number" },
+        },
+        required: ["tool", "calls", "credits"],
+      },
+    },
+    by_profile: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          profile: { type: "string" },
+          calls: { type: "number" },
+          credits: { type: "number" },
+        },
+        required: ["profile", "calls", "credits"],
+      },
+    },
+    in_progress: { type: "number", description: "Credits reserved by calls still running" },
+    confirm_above: { type: "number", description: "Calls estimated above this need confirm: true" },
+    enforcement: { type: "string", enum: ["refuse", "confirm"] },
+  },
+  required: ["date", "session_started_at", "profile", "today", "session", "by_tool", "by_profile", "in_progress", "enforcement"],
+};
@@ -0,0 +1,119 @@
+import { FreepikApiError } from "./errors.js";
+import { isTerminalStatus, TaskKind, TaskService } from "./tasks.js";
+
+/**
+ * Why a task is watched: a subscription from the MCP session with that ID, or
+ * the server itself needing the final status for notifications and the task journal
+ */
+export type WatchReason = `session:${string}` | "completion";
+
+/** Failed status checks in a row after which a task is no longer watched */
+const MAX_CONSECUTIVE_FAILURES = 5;
+/** Longest wait between status checks of a task whose checks keep failing, in intervals */
+const MAX_BACKOFF_INTERVALS = 16;
+
+/** Called for a task that is no longer watched because its status cannot be checked */
+export type TaskDropListener = (kind: TaskKind, taskId: string, error: unknown) => void;
+
+interface WatchedTask {
+  kind: TaskKind;
+  taskId: string;
+  done: boolean;
+  reasons: Set<WatchReason>;
+  /** Status checks that failed in a row */
+  failures: number;
+  /** Time before which a task whose checks failed is not checked again */
+  retryAt: number;
+}
+
+/**
+ * Background poller for tasks that someone is waiting on.
+ *
+ * Every `intervalMs` it re-checks each watched task that has not finished yet.
+ * Status changes surface through `TaskService.onStatusChange`; finished tasks
+ * stay watched (so late subscribers are not lost) but are no longer polled.
+ * A task stays watched until every reason it was watched for is released, or
+ * until its status cannot be checked: a task Freepik answers 404 for, or one
+ * whose checks failed `MAX_CONSECUTIVE_FAILURES` times in a row, is dropped.
+ * Failed checks back off exponentially so they do not crowd the rate limits.
+ */
+export class TaskWatcher {
+  private watched = new Map<string, WatchedTask>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private dropListeners: TaskDropListener[] = [];
+
+  constructor(private tasks: TaskService, private intervalMs: number) {}
+
+  /** Number of tasks watched, finished ones included */
+  get size(): number {
+    return this.watched.size;
+  }
+
+  /** Registers a listener for tasks dropped after a 404 or too many failed checks */
+  onDrop(listener: TaskDropListener) {
+    this.dropListeners.push(listener);
+  }
+
+  watch(kind: TaskKind, taskId: string, reason: WatchReason) {
+    const key = `${kind}/${taskId}`;
+    let entry = this.watched.get(key);
+    if (!entry) {
+      entry = { kind, taskId, done: false, reasons: new Set(), failures: 0, retryAt: 0 };
+      this.watched.set(key, entry);
+    }
+    entry.reasons.add(reason);
+    this.start();
+  }
+
+  unwatch(kind: TaskKind, taskId: string, reason: WatchReason) {
+    const key = `${kind}/${taskId}`;
+    const entry = this.watched.get(key);
+    entry?.reasons.delete(reason);
+    if (entry && entry.reasons.size === 0) this.watched.delete(key);
+    if (this.watched.size === 0) this.stop();
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private start() {
+    if (this.timer) return;
+    this.timer = setInterval(() => void this.poll(), this.intervalMs);
+    // Watching must never keep the process alive on its own.
+    this.timer.unref();
+  }
+
+  private async poll() {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      for (const [key, entry] of this.watched) {
+        if (entry.done || Date.now() < entry.retryAt) continue;
+        try {
+          const task = await this.tasks.get(entry.kind, entry.taskId);
+          entry.done = isTerminalStatus(task.status);
+          entry.failures = 0;
+        } catch (error) {
+          entry.failures++;
+          const gone = error instanceof FreepikApiError && error.status === 404;
+          if (gone || entry.failures >= MAX_CONSECUTIVE_FAILURES) {
+            this.watched.delete(key);
+            process.stderr.write(
+              `Stopped watching ${entry.kind} task ${entry.taskId} after ${gone ? "Freepik reported it missing" : `${entry.failures} failed status checks`}: ${error}\n`
+            );
+            for (const listener of this.dropListeners) listener(entry.kind, entry.taskId, error);
+            continue;
+          }
+          entry.retryAt = Date.now() + this.intervalMs * Math.min(2 ** entry.failures, MAX_BACKOFF_INTERVALS);
+          process.stderr.write(`Failed to poll ${entry.kind} task ${entry.taskId}: ${error}\n`);
+        }
+      }
+      if (this.watched.size === 0) this.stop();
+    } finally {
+      this.polling = false;
+    }
+  }
+}
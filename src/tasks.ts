@@ -0,0 +1,228 @@
+import { FreepikApiError } from "./errors.js";
+import { FreepikHttpClient } from "./http.js";
+
+export type TaskKind =
+  | "mystic"
+  | "flux_dev"
+  | "reimagine_flux"
+  | "upscaler"
+  | "expand"
+  | "text_to_icon";
+
+export interface TaskKindInfo {
+  kind: TaskKind;
+  label: string;
+  /** Endpoint path relative to the API base URL, used for create, get (`/{task_id}`) and list */
+  endpoint: string;
+}
+
+export const TASK_KINDS: Record<TaskKind, TaskKindInfo> = {
+  mystic: { kind: "mystic", label: "Mystic", endpoint: "/ai/mystic" },
+  flux_dev: { kind: "flux_dev", label: "Flux Dev", endpoint: "/ai/text-to-image/flux-dev" },
+  reimagine_flux: { kind: "reimagine_flux", label: "Reimagine Flux", endpoint: "/ai/beta/text-to-image/reimagine-flux" },
+  upscaler: { kind: "upscaler", label: "Upscaler", endpoint: "/ai/image-upscaler" },
+  expand: { kind: "expand", label: "Expand", endpoint: "/ai/image-expand/flux-pro" },
+  text_to_icon: { kind: "text_to_icon", label: "Text-to-Icon", endpoint: "/ai/text-to-icon" },
+};
+
+export const TASK_KIND_NAMES = Object.keys(TASK_KINDS) as TaskKind[];
+
+export const TASK_STATUSES = ["CREATED", "IN_PROGRESS", "COMPLETED", "FAILED"];
+
+export function isTaskKind(value: unknown): value is TaskKind {
+  return typeof value === "string" && value in TASK_KINDS;
+}
+
+export function isTerminalStatus(status: string): boolean {
+  return status === "COMPLETED" || status === "FAILED";
+}
+
+/**
+ * A task from any AI family, normalized from the shared `FreepikAITaskResponse` shape.
+ */
+export interface AITask {
+  kind: TaskKind;
+  task_id: string;
+  status: string;
+  generated?: string[];
+  has_nsfw?: boolean;
+}
+
+export interface KnownTask {
+  kind: TaskKind;
+  task_id: string;
+  /** Task as of the most recent status check, if it has been checked */
+  last?: AITask;
+}
+
+export type TaskStatusListener = (task: AITask, previousStatus: string | undefined) => void;
+
+export interface WaitOptions {
+  timeoutMs: number;
+  /** Delay before the first status check; later checks back off exponentially */
+  intervalMs: number;
+  maxIntervalMs?: number;
+  /** Called after every status check, including the first */
+  onPoll?: (task: AITask, elapsedMs: number) => void | Promise<void>;
+}
+
+export const DEFAULT_WAIT_TIMEOUT_SECONDS = 300;
+export const DEFAULT_POLL_INTERVAL_SECONDS = 2;
+
+const BACKOFF_FACTOR = 1.5;
+const MAX_POLL_INTERVAL_MS = 30_000;
+
+export class TaskTimeoutError extends Error {
+  constructor(public task: AITask, timeoutMs: number) {
+    super(`Timed out after ${Math.round(timeoutMs / 1000)}s waiting for ${TASK_KINDS[task.kind].label} task ${task.task_id} (last status: ${task.status})`);
+    this.name = "TaskTimeoutError";
+  }
+}
+
+function normalizeTask(kind: TaskKind, body: any): AITask {
+  // Most task endpoints wrap the task in `data`; text-to-icon answers with `task_status` at the top level.
+  const data = body?.data ?? body;
+  const task: AITask = {
+    kind,
+    task_id: data.task_id,
+    status: data.status ?? data.task_status,
+  };
+  if (data.generated !== undefined) task.generated = data.generated;
+  if (data.has_nsfw !== undefined) task.has_nsfw = data.has_nsfw;
+  return task;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Status, listing and polling for every AI task kind.
+ *
+ * Tasks submitted through this server are remembered so their kind can be
+ * resolved from the task ID alone.
+ */
+export class TaskService {
+  private knownTasks = new Map<string, KnownTask>();
+  private statusListeners: TaskStatusListener[] = [];
+
+  constructor(private http: FreepikHttpClient) {}
+
+  remember(kind: TaskKind, taskId: string) {
+    if (this.knownTasks.get(taskId)?.kind !== kind) {
+      this.knownTasks.set(taskId, { kind, task_id: taskId });
+    }
+  }
+
+  /**
+   * Registers a listener called whenever a status check observes a task whose
+   * status differs from the previous check. Returns a function that removes it.
+   */
+  onStatusChange(listener: TaskStatusListener): () => void {
+    this.statusListeners.push(listener);
+    return () => {
+      this.statusListeners = this.statusListeners.filter((candidate) => candidate !== listener);
+    };
+  }
+
+  /** Tasks submitted or looked up through this server, oldest first */
+  known(): KnownTask[] {
+    return [...this.knownTasks.values()];
+  }
+
+  async get(kind: TaskKind, taskId: string): Promise<AITask> {
+    const body = await this.http.get<unknown>(`${TASK_KINDS[kind].endpoint}/${encodeURIComponent(taskId)}`);
+    const task = normalizeTask(kind, body);
+    this.record(task);
+    return task;
+  }
+
+  /**
+   * Stores the latest known state of a task, notifying status listeners when
+   * it changed. Called for every status check and for webhook callbacks.
+   */
+  record(task: AITask) {
+    const previousStatus = this.knownTasks.get(task.task_id)?.last?.status;
+    this.knownTasks.set(task.task_id, { kind: task.kind, task_id: task.task_id, last: task });
+
+    if (task.status !== previousStatus) {
+      for (const listener of this.statusListeners) listener(task, previousStatus);
+    }
+  }
+
+  /** Kind of a task submitted or looked up through this server */
+  kindOf(taskId: string): TaskKind | undefined {
+    return this.knownTasks.get(taskId)?.kind;
+  }
+
+  /**
+   * Fetches a task, resolving its kind from tasks seen earlier or, failing that,
+   * by asking each task endpoint in turn.
+   */
+  async find(taskId: string, kind?: TaskKind): Promise<AITask> {
+    const resolved = kind ?? this.kindOf(taskId);
+    if (resolved) {
+      return this.get(resolved, taskId);
+    }
+
+    for (const candidate of TASK_KIND_NAMES) {
+      try {
+        return await this.get(candidate, taskId);
+      } catch (error) {
+        if (!(error instanceof FreepikApiError) || error.status !== 404) throw error;
+      }
+    }
+    throw new Error(`Task ${taskId} was not found for any task kind`);
+  }
+
+  async list(kind: TaskKind): Promise<AITask[]> {
+    const body = await this.http.get<{ data: unknown[] }>(TASK_KINDS[kind].endpoint);
+    return body.data.map((item) => normalizeTask(kind, item));
+  }
+
+  /**
+   * Polls a task until it is `COMPLETED` or `FAILED`, backing off exponentially
+   * between checks. Throws `TaskTimeoutError` when the deadline passes first.
+   */
+  async wait(kind: TaskKind | undefined, taskId: string, options: WaitOptions): Promise<AITask> {
+    const startedAt = Date.now();
+    const deadline = startedAt + options.timeoutMs;
+    const maxIntervalMs = options.maxIntervalMs ?? MAX_POLL_INTERVAL_MS;
+    let intervalMs = options.intervalMs;
+    let task = await this.find(taskId, kind);
+    await options.onPoll?.(task, Date.now() - startedAt);
+
+    while (!isTerminalStatus(task.status)) {
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        throw new TaskTimeoutError(task, options.timeoutMs);
+      }
+      await sleep(Math.min(intervalMs, remainingMs));
+      intervalMs = Math.min(intervalMs * BACKOFF_FACTOR, maxIntervalMs);
+      task = await this.get(task.kind, taskId);
+      await options.onPoll?.(task, Date.now() - startedAt);
+    }
+    return task;
+  }
+}
+
+/**
+ * Renders a task as the markdown status block shared by all task tools.
+ */
+export function formatTask(task: AITask): string {
+  let text = `**${TASK_KINDS[task.kind].label} Task Status**\n\n- **Task ID**: ${task.task_id}\n- **Kind**: ${task.kind}\n- **Status**: ${task.status}`;
+
+  if (task.has_nsfw !== undefined) {
+    text += `\n- **NSFW Content**: ${task.has_nsfw ? "Yes" : "No"}`;
+  }
+
+  if (task.generated && task.generated.length > 0) {
+    text += `\n\n**Generated Images:**\n${task.generated.map((url, index) => `${index + 1}. ${url}`).join("\n")}`;
+  } else if (task.status === "COMPLETED") {
+    text += `\n\n*Task completed but no images were generated.*`;
+  } else if (task.status === "FAILED") {
+    text += `\n\n*Task failed.*`;
+  } else {
+    text += `\n\n*Task is still in progress.*`;
+  }
+
+  return text;
+}
@@ -0,0 +1,985 @@
+import { IMAGE_INPUT_DESCRIPTION } from "./images.js";
+import {
+  BACKGROUND_REMOVAL_OUTPUT_SCHEMA,
+  CACHE_STATS_OUTPUT_SCHEMA,
+  DOWNLOAD_OUTPUT_SCHEMA,
+  ICON_SEARCH_OUTPUT_SCHEMA,
+  RESOURCE_OUTPUT_SCHEMA,
+  RESOURCE_SEARCH_OUTPUT_SCHEMA,
+  TASK_HISTORY_OUTPUT_SCHEMA,
+  TASK_LIST_OUTPUT_SCHEMA,
+  TASK_OUTPUT_SCHEMA,
+  USAGE_OUTPUT_SCHEMA,
+  WEBHOOK_EVENTS_OUTPUT_SCHEMA,
+} from "./structured-output.js";
+import {
+  DEFAULT_POLL_INTERVAL_SECONDS,
+  DEFAULT_WAIT_TIMEOUT_SECONDS,
+  TASK_KIND_NAMES,
+  TASK_STATUSES,
+} from "./tasks.js";
+import { JsonSchema } from "./validation.js";
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: "object" };
+  outputSchema: object;
+}
+
+const SAVE_TO_PROPERTY: JsonSchema = {
+  type: "string",
+  description:
+    "Directory to save the file to (created if missing). Defaults to FREEPIK_OUTPUT_DIR; without either, only the temporary download URL is returned",
+};
+
+const INCLUDE_IMAGES_PROPERTY: JsonSchema = {
+  type: "boolean",
+  description:
+    "Return result images as image content alongside the text (default: FREEPIK_INCLUDE_IMAGES, off unless configured)",
+};
+
+const CACHE_PROPERTY: JsonSchema = {
+  type: "string",
+  enum: ["bypass", "refresh"],
+  description:
+    "Responses are cached by default. 'bypass' skips the cache for this call; 'refresh' fetches fresh results and updates the cache",
+};
+
+const CONFIRM_PROPERTY: JsonSchema = {
+  type: "boolean",
+  description:
+    "Approve the estimated credit cost of this call. Needed only when the server asks for it; set it after the user has agreed",
+};
+
+const DRY_RUN_PROPERTY: JsonSchema = {
+  type: "boolean",
+  description:
+    "Return the Freepik request this call would send, with its estimated credit cost, without sending it (default: FREEPIK_DRY_RUN, off unless configured)",
+};
+
+const WAIT_PROPERTIES: Record<string, JsonSchema> = {
+  wait: {
+    type: "boolean",
+    description: "Wait for the task to finish and return the generated images in this call (default: false)",
+    default: false,
+  },
+  timeout_seconds: {
+    type: "number",
+    minimum: 1,
+    maximum: 600,
+    description: `Maximum time to wait in seconds when wait is true (default: ${DEFAULT_WAIT_TIMEOUT_SECONDS})`,
+    default: DEFAULT_WAIT_TIMEOUT_SECONDS,
+  },
+  poll_interval: {
+    type: "number",
+    minimum: 1,
+    maximum: 60,
+    description: `Seconds before the first status check; later checks back off exponentially (default: ${DEFAULT_POLL_INTERVAL_SECONDS})`,
+    default: DEFAULT_POLL_INTERVAL_SECONDS,
+  },
+};
+
+/**
+ * Every tool the server offers. The input schemas are both advertised to
+ * clients and enforced on each call by `validateArguments`.
+ */
+export const TOOLS: ToolDefinition[] = [
+  {
+    name: "search_resources",
+    description: "Search for Freepik resources (images, vectors, PSDs) with various filters",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Search query for resources",
+        },
+        page: {
+          type: "integer",
+          minimum: 1,
+          description: "Page number for pagination (default: 1)",
+          default: 1,
+        },
+        limit: {
+          type: "integer",
+          minimum: 1,
+          maximum: 200,
+          description: "Number of results per page (default: 20, max: 200)",
+          default: 20,
+        },
+        orientation: {
+          type: "string",
+          enum: ["landscape", "portrait", "square", "panoramic"],
+          description: "Image orientation filter",
+        },
+        order: {
+          type: "string",
+          enum: ["relevance", "recent"],
+          description: "Sort order for results (default: relevance)",
+        },
+        license: {
+          type: "string",
+          enum: ["freemium", "premium"],
+          description: "License type filter",
+        },
+        people_number: {
+          type: "string",
+          enum: ["none", "one", "two", "group"],
+          description: "Number of people in the image",
+        },
+        people_ethnicity: {
+          type: "string",
+          enum: ["caucasian", "hispanic", "asian", "african", "middle_eastern", "native_american", "pacific_islander", "mixed"],
+          description: "Ethnicity filter for people in images",
+        },
+        ai_generated: {
+          type: "boolean",
+          description: "Filter for AI-generated content",
+        },
+        content_type: {
+          type: "string",
+          enum: ["photo", "vector", "psd"],
+          description: "Type of content to search for",
+        },
+        color: {
+          type: "string",
+          pattern: "^[0-9a-fA-F]{6}$",
+          description: "Color filter (hex code without #, e.g., 'ff0000' for red)",
+        },
+        people_age: {
+          type: "string",
+          enum: ["infants", "children", "teenagers", "twenties", "thirties", "forties", "fifties", "sixties", "older"],
+          description: "Age group filter for people in images",
+        },
+        people_gender: {
+          type: "string",
+          enum: ["male", "female"],
+          description: "Gender filter for people in images",
+        },
+        include_images: INCLUDE_IMAGES_PROPERTY,
+        cache: CACHE_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: RESOURCE_SEARCH_OUTPUT_SCHEMA,
+  },
+  {
+    name: "search_icons",
+    description: "Search for Freepik icons with various filters",
+    inputSchema: {
+      type: "object",
+      properties: {
+        term: {
+          type: "string",
+          description: "Search term for icons",
+        },
+        slug: {
+          type: "string",
+          description: "Search by icon slug",
+        },
+        page: {
+          type: "integer",
+          minimum: 1,
+          description: "Page number for pagination (default: 1)",
+          default: 1,
+        },
+        per_page: {
+          type: "integer",
+          minimum: 1,
+          description: "Number of results per page (default: 20)",
+          default: 20,
+        },
+        family_id: {
+          type: "integer",
+          description: "Specific icon family ID",
+        },
+        order: {
+          type: "string",
+          enum: ["relevance", "recent"],
+          description: "Sort order for results (default: relevance)",
+        },
+        color: {
+          type: "string",
+          description: "Color filter (e.g., red, blue, multicolor)",
+        },
+        shape: {
+          type: "string",
+          enum: ["outline", "fill"],
+          description: "Icon style filter",
+        },
+        free_svg: {
+          type: "boolean",
+          description: "Filter for free SVG icons",
+        },
+        include_images: INCLUDE_IMAGES_PROPERTY,
+        cache: CACHE_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: ICON_SEARCH_OUTPUT_SCHEMA,
+  },
+  {
+    name: "download_icon",
+    description: "Download a Freepik icon in specified format and size",
+    inputSchema: {
+      type: "object",
+      properties: {
+        icon_id: {
+          type: "integer",
+          description: "Unique icon resource ID",
+        },
+        format: {
+          type: "string",
+          enum: ["svg", "png", "gif", "mp4", "aep", "json", "psd", "eps"],
+          description: "Download format (default: svg)",
+          default: "svg",
+        },
+        png_size: {
+          type: "integer",
+          enum: [512, 256, 128, 64, 32, 24, 16],
+          description: "PNG size in pixels (default: 512, only applies to PNG format)",
+          default: 512,
+        },
+        save_to: SAVE_TO_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["icon_id"],
+      additionalProperties: false,
+    },
+    outputSchema: DOWNLOAD_OUTPUT_SCHEMA,
+  },
+  {
+    name: "download_resource",
+    description: "Download a Freepik resource (photo, vector, PSD) by ID",
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource_id: {
+          type: "string",
+          description: "Unique resource ID",
+        },
+        image_size: {
+          type: "string",
+          enum: ["small", "medium", "large", "original"],
+          description: "Resize photo while maintaining aspect ratio (default: original)",
+          default: "original",
+        },
+        save_to: SAVE_TO_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["resource_id"],
+      additionalProperties: false,
+    },
+    outputSchema: DOWNLOAD_OUTPUT_SCHEMA,
+  },
+  {
+    name: "download_resource_format",
+    description: "Download a Freepik resource in a specific format",
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource_id: {
+          type: "string",
+          description: "Unique resource ID",
+        },
+        format: {
+          type: "string",
+          enum: ["psd", "ai", "eps", "png", "jpg", "svg"],
+          description: "Desired download format",
+        },
+        save_to: SAVE_TO_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["resource_id", "format"],
+      additionalProperties: false,
+    },
+    outputSchema: DOWNLOAD_OUTPUT_SCHEMA,
+  },
+  {
+    name: "generate_icon",
+    description: "Generate AI icons from text prompts using Freepik AI",
+    inputSchema: {
+      type: "object",
+      properties: {
+        prompt: {
+          type: "string",
+          description: "Text description for icon generation",
+        },
+        webhook_url: {
+          type: "string",
+          description: "URL to receive task results (default: the built-in webhook receiver; required when it is not enabled)",
+        },
+        format: {
+          type: "string",
+          enum: ["png", "svg"],
+          description: "Output format (default: png)",
+          default: "png",
+        },
+        style: {
+          type: "string",
+          enum: ["solid", "outline", "color", "flat", "sticker"],
+          description: "Icon style",
+        },
+        num_inference_steps: {
+          type: "integer",
+          minimum: 10,
+          maximum: 50,
+          description: "Generation complexity (10-50)",
+        },
+        guidance_scale: {
+          type: "number",
+          minimum: 0,
+          maximum: 10,
+          description: "Generation precision (0-10)",
+        },
+        confirm: CONFIRM_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["prompt"],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_OUTPUT_SCHEMA,
+  },
+  {
+    name: "generate_icon_preview",
+    description: "Generate AI icon previews from text prompts",
+    inputSchema: {
+      type: "object",
+      properties: {
+        prompt: {
+          type: "string",
+          description: "Text description for icon generation",
+        },
+        webhook_url: {
+          type: "string",
+          description: "URL to receive task results (default: the built-in webhook receiver; required when it is not enabled)",
+        },
+        style: {
+          type: "string",
+          enum: ["solid", "outline", "color", "flat", "sticker"],
+          description: "Icon style",
+        },
+        num_inference_steps: {
+          type: "integer",
+          minimum: 10,
+          maximum: 50,
+          description: "Generation complexity (10-50)",
+        },
+        guidance_scale: {
+          type: "number",
+          minimum: 0,
+          maximum: 10,
+          description: "Generation precision (0-10)",
+        },
+        confirm: CONFIRM_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["prompt"],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_OUTPUT_SCHEMA,
+  },
+  {
+    name: "render_generated_icon",
+    description: "Download generated AI icon in specified format",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "Unique identifier for the icon generation task",
+        },
+        format: {
+          type: "string",
+          enum: ["png", "svg"],
+          description: "Download format",
+          default: "png",
+        },
+        save_to: SAVE_TO_PROPERTY,
+        include_images: INCLUDE_IMAGES_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["task_id", "format"],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_OUTPUT_SCHEMA,
+  },
+  {
+    name: "generate_mystic",
+    description: "Generate high-resolution images using Freepik's Mystic AI workflow",
+    inputSchema: {
+      type: "object",
+      properties: {
+        prompt: {
+          type: "string",
+          description: "Text description of desired image",
+        },
+        webhook_url: {
+          type: "string",
+          description: "Optional callback URL for task status updates (default: the built-in webhook receiver, if enabled)",
+        },
+        structure_reference: {
+          type: "string",
+          description: `Image to influence image shape: ${IMAGE_INPUT_DESCRIPTION}`,
+        },
+        style_reference: {
+          type: "string",
+          description: `Image to influence image aesthetic: ${IMAGE_INPUT_DESCRIPTION}`,
+        },
+        resolution: {
+          type: "string",
+          enum: ["1k", "2k", "4k"],
+          description: "Image resolution",
+        },
+        aspect_ratio: {
+          type: "string",
+          enum: ["square_1_1", "widescreen_16_9", "classic_4_3", "social_story_9_16"],
+          description: "Image aspect ratio",
+        },
+        model: {
+          type: "string",
+          enum: ["realism", "fluid", "zen"],
+          description: "Generation model type",
+        },
+        ...WAIT_PROPERTIES,
+        include_images: INCLUDE_IMAGES_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["prompt"],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_OUTPUT_SCHEMA,
+  },
+  {
+    name: "get_mystic_task",
+    description: "Get status and results of a Mystic generation task",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "Unique identifier for the Mystic task",
+        },
+        include_images: INCLUDE_IMAGES_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["task_id"],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_OUTPUT_SCHEMA,
+  },
+  {
+    name: "list_mystic_tasks",
+    description: "List all Mystic generation tasks",
+    inputSchema: {
+      type: "object",
+      properties: {
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: "generate_flux_dev",
+    description: "Generate images using Flux Dev AI model",
+    inputSchema: {
+      type: "object",
+      properties: {
+        prompt: {
+          type: "string",
+          description: "Text description of desired image",
+        },
+        webhook_url: {
+          type: "string",
+          description: "Optional callback URL for task status updates (default: the built-in webhook receiver, if enabled)",
+        },
+        aspect_ratio: {
+          type: "string",
+          enum: ["square_1_1", "classic_4_3", "widescreen_16_9", "social_story_9_16"],
+          description: "Image aspect ratio (default: square_1_1)",
+          default: "square_1_1",
+        },
+        styling: {
+          type: "object",
+          properties: {
+            effects: {
+              type: "array",
+              items: { type: "string" },
+              description: "Visual effects (color, framing, lightning)",
+            },
+            color: {
+              type: "string",
+              description: "Custom color palette",
+            },
+          },
+          description: "Styling options for the generated image",
+        },
+        seed: {
+          type: "integer",
+          minimum: 0,
+          description: "Specific seed for image generation",
+        },
+        ...WAIT_PROPERTIES,
+        include_images: INCLUDE_IMAGES_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["prompt"],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_OUTPUT_SCHEMA,
+  },
+  {
+    name: "get_flux_dev_task",
+    description: "Get status and results of a Flux Dev generation task",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "Unique identifier for the Flux Dev task",
+        },
+        include_images: INCLUDE_IMAGES_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["task_id"],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_OUTPUT_SCHEMA,
+  },
+  {
+    name: "list_flux_dev_tasks",
+    description: "List all Flux Dev generation tasks",
+    inputSchema: {
+      type: "object",
+      properties: {
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: "reimagine_flux",
+    description: "Reimagine existing images using Flux AI (Beta)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        image: {
+          type: "string",
+          description: `Image to process: ${IMAGE_INPUT_DESCRIPTION}`,
+        },
+        prompt: {
+          type: "string",
+          description: "Optional text description for image generation",
+        },
+        webhook_url: {
+          type: "string",
+          description: "Optional callback URL for task status updates (default: the built-in webhook receiver, if enabled)",
+        },
+        imagination: {
+          type: "string",
+          enum: ["wild", "subtle", "vivid"],
+          description: "Creativity level for reimagining",
+        },
+        aspect_ratio: {
+          type: "string",
+          enum: ["original", "square_1_1", "classic_4_3", "widescreen_16_9", "social_story_9_16"],
+          description: "Image aspect ratio (default: original)",
+          default: "original",
+        },
+        ...WAIT_PROPERTIES,
+        include_images: INCLUDE_IMAGES_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["image"],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_OUTPUT_SCHEMA,
+  },
+  {
+    name: "upscale_image",
+    description: "Upscale images using AI image upscaler",
+    inputSchema: {
+      type: "object",
+      properties: {
+        image: {
+          type: "string",
+          description: `Image to upscale (max 25.3 million pixels): ${IMAGE_INPUT_DESCRIPTION}`,
+        },
+        webhook_url: {
+          type: "string",
+          description: "Optional callback URL for task notifications (default: the built-in webhook receiver, if enabled)",
+        },
+        scale_factor: {
+          type: "string",
+          enum: ["2x", "4x", "8x", "16x"],
+          description: "Image scaling factor",
+        },
+        optimized_for: {
+          type: "string",
+          enum: ["standard", "soft_portraits", "art_n_illustration"],
+          description: "Optimization style",
+        },
+        prompt: {
+          type: "string",
+          description: "Guide the upscaling process",
+        },
+        creativity: {
+          type: "number",
+          minimum: -10,
+          maximum: 10,
+          description: "AI creativity level (-10 to 10)",
+        },
+        hdr: {
+          type: "number",
+          minimum: -10,
+          maximum: 10,
+          description: "Detail/definition level (-10 to 10)",
+        },
+        resemblance: {
+          type: "number",
+          minimum: -10,
+          maximum: 10,
+          description: "Original image similarity (-10 to 10)",
+        },
+        fractality: {
+          type: "number",
+          minimum: -10,
+          maximum: 10,
+          description: "Prompt strength per pixel (-10 to 10)",
+        },
+        engine: {
+          type: "string",
+          description: "Specific Magnific model (e.g., 'magnific_sparkle')",
+        },
+        ...WAIT_PROPERTIES,
+        include_images: INCLUDE_IMAGES_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["image"],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_OUTPUT_SCHEMA,
+  },
+  {
+    name: "get_upscaler_task",
+    description: "Get status and results of an image upscaler task",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "Unique identifier for the upscaler task",
+        },
+        include_images: INCLUDE_IMAGES_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["task_id"],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_OUTPUT_SCHEMA,
+  },
+  {
+    name: "list_upscaler_tasks",
+    description: "List all image upscaler tasks",
+    inputSchema: {
+      type: "object",
+      properties: {
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: "remove_background",
+    description: "Remove background from an image (Beta)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        image_url: {
+          type: "string",
+          description: "URL of the image to process",
+        },
+        confirm: CONFIRM_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["image_url"],
+      additionalProperties: false,
+    },
+    outputSchema: BACKGROUND_REMOVAL_OUTPUT_SCHEMA,
+  },
+  {
+    name: "expand_image",
+    description: "Expand an image using AI Flux Pro model",
+    inputSchema: {
+      type: "object",
+      properties: {
+        image: {
+          type: "string",
+          description: `Image to process: ${IMAGE_INPUT_DESCRIPTION}`,
+        },
+        prompt: {
+          type: "string",
+          description: "Text description guiding expansion",
+        },
+        left: {
+          type: "integer",
+          minimum: 0,
+          maximum: 2048,
+          description: "Pixels to expand left (max 2048)",
+        },
+        right: {
+          type: "integer",
+          minimum: 0,
+          maximum: 2048,
+          description: "Pixels to expand right (max 2048)",
+        },
+        top: {
+          type: "integer",
+          minimum: 0,
+          maximum: 2048,
+          description: "Pixels to expand top (max 2048)",
+        },
+        bottom: {
+          type: "integer",
+          minimum: 0,
+          maximum: 2048,
+          description: "Pixels to expand bottom (max 2048)",
+        },
+        webhook_url: {
+          type: "string",
+          description: "Optional callback URL for task status updates (default: the built-in webhook receiver, if enabled)",
+        },
+        ...WAIT_PROPERTIES,
+        include_images: INCLUDE_IMAGES_PROPERTY,
+        confirm: CONFIRM_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["image"],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_OUTPUT_SCHEMA,
+  },
+  {
+    name: "get_expand_task",
+    description: "Get status and results of an image expand task",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "Unique identifier for the expand task",
+        },
+        include_images: INCLUDE_IMAGES_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["task_id"],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_OUTPUT_SCHEMA,
+  },
+  {
+    name: "list_expand_tasks",
+    description: "List all image expand tasks",
+    inputSchema: {
+      type: "object",
+      properties: {
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: "get_task",
+    description: "Get status and results of any AI task (Mystic, Flux Dev, Reimagine Flux, upscaler, expand, text-to-icon)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "Unique identifier for the task",
+        },
+        kind: {
+          type: "string",
+          enum: TASK_KIND_NAMES,
+          description: "Task kind (optional for tasks submitted through this server; otherwise detected automatically)",
+        },
+        include_images: INCLUDE_IMAGES_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["task_id"],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_OUTPUT_SCHEMA,
+  },
+  {
+    name: "list_tasks",
+    description: "List AI tasks across all task kinds, optionally filtered by kind and status",
+    inputSchema: {
+      type: "object",
+      properties: {
+        kind: {
+          type: "string",
+          enum: TASK_KIND_NAMES,
+          description: "Only list tasks of this kind (default: all kinds)",
+        },
+        status: {
+          type: "string",
+          enum: TASK_STATUSES,
+          description: "Only list tasks with this status",
+        },
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_LIST_OUTPUT_SCHEMA,
+  },
+  {
+    name: "wait_for_task",
+    description: "Wait until an AI task is COMPLETED or FAILED and return its results",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "Unique identifier for the task",
+        },
+        kind: {
+          type: "string",
+          enum: TASK_KIND_NAMES,
+          description: "Task kind (optional for tasks submitted through this server; otherwise detected automatically)",
+        },
+        timeout_seconds: WAIT_PROPERTIES.timeout_seconds,
+        poll_interval: WAIT_PROPERTIES.poll_interval,
+        include_images: INCLUDE_IMAGES_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["task_id"],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_OUTPUT_SCHEMA,
+  },
+  {
+    name: "search_task_history",
+    description:
+      "Search the local journal of AI tasks submitted through this server by prompt text, model or date, including their parameters, results and saved files",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Text the prompt must contain (case-insensitive)",
+        },
+        model: {
+          type: "string",
+          description: "Task kind, tool or model name, e.g. 'mystic', 'flux_dev' or 'realism' (case-insensitive)",
+        },
+        kind: {
+          type: "string",
+          enum: TASK_KIND_NAMES,
+          description: "Only return tasks of this kind",
+        },
+        status: {
+          type: "string",
+          enum: TASK_STATUSES,
+          description: "Only return tasks with this status",
+        },
+        since: {
+          type: "string",
+          description: "Only tasks submitted on or after this date (YYYY-MM-DD, local time) or ISO timestamp",
+        },
+        until: {
+          type: "string",
+          description: "Only tasks submitted on or before this date (YYYY-MM-DD, local time, inclusive) or ISO timestamp",
+        },
+        limit: {
+          type: "integer",
+          description: "Maximum number of tasks to return (default: 20)",
+          minimum: 1,
+          maximum: 200,
+        },
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: TASK_HISTORY_OUTPUT_SCHEMA,
+  },
+  {
+    name: "get_webhook_events",
+    description:
+      "List task callbacks received by the built-in webhook receiver for tasks submitted with this session's API key: the latest callback of every such task, or every callback of one",
+    inputSchema: {
+      type: "object",
+      properties: {
+        task_id: {
+          type: "string",
+          description: "Only return the callbacks of this task",
+        },
+      },
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: WEBHOOK_EVENTS_OUTPUT_SCHEMA,
+  },
+  {
+    name: "get_resource_details",
+    description: "Get detailed information about a specific Freepik resource",
+    inputSchema: {
+      type: "object",
+      properties: {
+        resource_id: {
+          type: "string",
+          description: "The ID of the resource to get details for",
+        },
+        cache: CACHE_PROPERTY,
+        dry_run: DRY_RUN_PROPERTY,
+      },
+      required: ["resource_id"],
+      additionalProperties: false,
+    },
+    outputSchema: RESOURCE_OUTPUT_SCHEMA,
+  },
+  {
+    name: "get_cache_stats",
+    description: "Report response cache hits and misses per endpoint for searches and resource details",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: CACHE_STATS_OUTPUT_SCHEMA,
+  },
+  {
+    name: "get_usage",
+    description:
+      "Report the credits spent today and in this session by paid tools, with the configured budgets and what remains",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: [],
+      additionalProperties: false,
+    },
+    outputSchema: USAGE_OUTPUT_SCHEMA,
+  },
+];
@@ -0,0 +1,204 @@
+/**
+ * Request and response shapes of the Freepik API, as used by `FreepikClient`.
+ * Responses only declare the fields this package reads; Freepik sends more.
+ */
+
+export interface FreepikResource {
+  id: string;
+  title: string;
+  url: string;
+  image: {
+    source: {
+      url: string;
+    };
+  };
+  author: {
+    username: string;
+  };
+  license: string;
+}
+
+export interface FreepikResponse {
+  data: FreepikResource[];
+  meta: {
+    current_page: number;
+    per_page: number;
+    last_page: number;
+    total: number;
+    clean_search: boolean;
+  };
+}
+
+export interface FreepikIcon {
+  id: number;
+  name: string;
+  thumbnails: {
+    png: string;
+    svg: string;
+  };
+  author: {
+    username: string;
+  };
+  tags: string[];
+  family: {
+    id: number;
+    name: string;
+  };
+}
+
+export interface FreepikIconResponse {
+  data: FreepikIcon[];
+  meta: {
+    pagination: {
+      current_page: number;
+      per_page: number;
+      last_page: number;
+      total: number;
+    };
+  };
+}
+
+/** A temporary download link */
+export interface FreepikDownloadResponse {
+  data: {
+    filename: string;
+    url: string;
+  };
+}
+
+export interface FreepikIconGenerationResponse {
+  task_id: string;
+  task_status: string;
+  generated?: string[];
+}
+
+export interface FreepikIconGenerationRequest {
+  prompt: string;
+  webhook_url: string;
+  format?: string;
+  style?: string;
+  num_inference_steps?: number;
+  guidance_scale?: number;
+}
+
+/** Previews are always PNG */
+export type FreepikIconPreviewRequest = Omit<FreepikIconGenerationRequest, "format">;
+
+export interface FreepikMysticRequest {
+  prompt: string;
+  webhook_url?: string;
+  structure_reference?: string;
+  style_reference?: string;
+  resolution?: string;
+  aspect_ratio?: string;
+  model?: string;
+}
+
+export interface FreepikFluxDevRequest {
+  prompt: string;
+  webhook_url?: string;
+  aspect_ratio?: string;
+  styling?: {
+    effects?: string[];
+    color?: string;
+  };
+  seed?: number;
+}
+
+export interface FreepikReimagineFluxRequest {
+  image: string;
+  prompt?: string;
+  webhook_url?: string;
+  imagination?: string;
+  aspect_ratio?: string;
+}
+
+/** Response of every AI task endpoint except text-to-icon */
+export interface FreepikAITaskResponse {
+  data: {
+    task_id: string;
+    status: string;
+    generated?: string[];
+    has_nsfw?: boolean;
+  };
+}
+
+export interface FreepikAITasksResponse {
+  data: Array<{
+    task_id: string;
+    status: string;
+  }>;
+}
+
+export interface FreepikImageUpscalerRequest {
+  image: string;
+  webhook_url?: string;
+  scale_factor?: string;
+  optimized_for?: string;
+  prompt?: string;
+  creativity?: number;
+  hdr?: number;
+  resemblance?: number;
+  fractality?: number;
+  engine?: string;
+}
+
+export interface FreepikRemoveBackgroundResponse {
+  original: string;
+  high_resolution: string;
+  preview: string;
+  url: string;
+}
+
+export interface FreepikImageExpandRequest {
+  image: string;
+  prompt?: string;
+  left?: number;
+  right?: number;
+  top?: number;
+  bottom?: number;
+  webhook_url?: string;
+}
+
+/** Filters of `GET /resources`; `term` is the search text */
+export interface ResourceSearchParams {
+  term?: string;
+  page?: number;
+  /** Results per page, at most 200 */
+  limit?: number;
+  orientation?: string;
+  order?: string;
+  license?: string;
+  content_type?: string;
+  color?: string;
+  people_age?: string;
+  people_gender?: string;
+  people_number?: string;
+  people_ethnicity?: string;
+  ai_generated?: boolean;
+}
+
+/** Filters of `GET /icons` */
+export interface IconSearchParams {
+  term?: string;
+  slug?: string;
+  page?: number;
+  per_page?: number;
+  family_id?: number;
+  order?: string;
+  color?: string;
+  shape?: string;
+  free_svg?: boolean;
+}
+
+export interface IconDownloadOptions {
+  /** `svg` (the default when unset), `png`, `gif`, `mp4`, `aep`, `json`, `psd` or `eps` */
+  format?: string;
+  /** PNG width in pixels */
+  png_size?: number;
+}
+
+export interface ResourceDownloadOptions {
+  /** `small`, `medium`, `large` or `original` (the default) */
+  image_size?: string;
+}
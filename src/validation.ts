@@ -0,0 +1,145 @@
+/**
+ * The subset of JSON Schema used by the tool input schemas in `tools.ts`.
+ */
+export interface JsonSchema {
+  type?: "string" | "number" | "integer" | "boolean" | "object" | "array";
+  description?: string;
+  default?: unknown;
+  enum?: ReadonlyArray<string | number>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+export interface ArgumentIssue {
+  /** Argument path, e.g. `styling.effects[0]` */
+  name: string;
+  reason: string;
+}
+
+export class ToolArgumentsError extends Error {
+  constructor(public tool: string, public issues: ArgumentIssue[]) {
+    super(`Invalid arguments for ${tool}: ${issues.map((issue) => `${issue.name} ${issue.reason}`).join("; ")}`);
+    this.name = "ToolArgumentsError";
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return JSON.stringify(value.length > 40 ? `${value.slice(0, 40)}...` : value);
+  if (typeof value === "object") return "an object";
+  return String(value);
+}
+
+function typeMatches(type: JsonSchema["type"], value: unknown): boolean {
+  switch (type) {
+    case undefined:
+      return true;
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function check(schema: JsonSchema, value: unknown, name: string, issues: ArgumentIssue[]) {
+  if (!typeMatches(schema.type, value)) {
+    issues.push({ name, reason: `must be ${schema.type === "integer" ? "an integer" : `a ${schema.type}`}, got ${describeValue(value)}` });
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({ name, reason: `must be one of ${schema.enum.join(", ")}, got ${describeValue(value)}` });
+    return;
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ name, reason: `must be at least ${schema.minimum}, got ${value}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ name, reason: `must be at most ${schema.maximum}, got ${value}` });
+    }
+  } else if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push({ name, reason: schema.minLength === 1 ? "must not be empty" : `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push({ name, reason: `must be at most ${schema.maxLength} characters, got ${value.length}` });
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ name, reason: `must match ${schema.pattern}, got ${describeValue(value)}` });
+    }
+  } else if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ name, reason: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ name, reason: `must have at most ${schema.maxItems} items, got ${value.length}` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => check(schema.items!, item, `${name}[${index}]`, issues));
+    }
+  } else if (schema.type === "object") {
+    checkObject(schema, value as Record<string, unknown>, `${name}.`, issues);
+  }
+}
+
+function checkObject(schema: JsonSchema, value: Record<string, unknown>, prefix: string, issues: ArgumentIssue[]) {
+  const properties = schema.properties ?? {};
+
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined) {
+      issues.push({ name: `${prefix}${key}`, reason: "is required" });
+    }
+  }
+  for (const [key, item] of Object.entries(value)) {
+    if (item === undefined) continue;
+    const propertySchema = properties[key];
+    if (propertySchema) {
+      check(propertySchema, item, `${prefix}${key}`, issues);
+    } else if (schema.additionalProperties === false) {
+      const known = Object.keys(properties);
+      issues.push({
+        name: `${prefix}${key}`,
+        reason: `is not a known argument${known.length > 0 ? ` (expected one of: ${known.join(", ")})` : ""}`,
+      });
+    }
+  }
+}
+
+/**
+ * Checks tool arguments against the tool's input schema: types, enums,
+ * ranges, patterns, required fields and, where the schema sets
+ * `additionalProperties: false`, unknown keys. Throws `ToolArgumentsError`
+ * listing every problem found.
+ */
+export function validateArguments(tool: string, schema: JsonSchema, args: unknown): Record<string, unknown> {
+  const value = args ?? {};
+  const issues: ArgumentIssue[] = [];
+
+  if (!typeMatches("object", value)) {
+    issues.push({ name: "arguments", reason: `must be an object, got ${describeValue(value)}` });
+  } else {
+    checkObject(schema, value as Record<string, unknown>, "", issues);
+  }
+
+  if (issues.length > 0) {
+    throw new ToolArgumentsError(tool, issues);
+  }
+  return value as Record<string, unknown>;
+}
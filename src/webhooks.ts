@@ -0,0 +1,171 @@
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import { URL } from "url";
+
+export interface WebhookReceiverOptions {
+  /** Port to listen on; 0 picks a free port */
+  port: number;
+  host: string;
+  /**
+   * Public origin that forwards to this listener, e.g. a tunnel URL. Used in
+   * the callback URL instead of `http://host:port`.
+   */
+  publicUrl?: string;
+  /** Secret path segment of the callback URL (default: random per start) */
+  token?: string;
+}
+
+export interface WebhookEvent {
+  task_id: string;
+  status?: string;
+  generated?: string[];
+  /** ISO timestamp of when the callback arrived */
+  received_at: string;
+  /** Body exactly as posted by the caller */
+  payload: unknown;
+}
+
+export type WebhookListener = (event: WebhookEvent) => void;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const MAX_EVENTS_PER_TASK = 20;
+const MAX_TASKS = 1000;
+
+/**
+ * Extracts the task fields from a callback body. Freepik posts the same task
+ * shape its status endpoints return, either wrapped in `data` or at the top level.
+ */
+function parseEvent(payload: any): WebhookEvent | undefined {
+  const data = payload?.data ?? payload;
+  if (typeof data?.task_id !== "string" || !data.task_id) return undefined;
+
+  const event: WebhookEvent = { task_id: data.task_id, received_at: new Date().toISOString(), payload };
+  const status = data.status ?? data.task_status;
+  if (typeof status === "string") event.status = status;
+  if (Array.isArray(data.generated)) event.generated = data.generated.filter((url: unknown) => typeof url === "string");
+  return event;
+}
+
+function readJson(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("error", reject);
+    req.on("end", () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+      } catch {
+        reject(new Error("Body is not valid JSON"));
+      }
+    });
+  });
+}
+
+/**
+ * Local HTTP listener for task callbacks, so `webhook_url` can point at this
+ * server. Callbacks for any task kind are stored in memory by task ID; only
+ * requests to the secret callback path are accepted.
+ */
+export class WebhookReceiver {
+  private events = new Map<string, WebhookEvent[]>();
+  private listeners: WebhookListener[] = [];
+  private httpServer?: http.Server;
+  private token: string;
+  private url?: string;
+
+  constructor(private options: WebhookReceiverOptions) {
+    this.token = options.token || crypto.randomBytes(16).toString("hex");
+  }
+
+  /** URL to pass as `webhook_url`; available once `start` has resolved */
+  get callbackUrl(): string {
+    if (!this.url) throw new Error("Webhook receiver is not running");
+    return this.url;
+  }
+
+  onEvent(listener: WebhookListener) {
+    this.listeners.push(listener);
+  }
+
+  /** Callbacks received for a task, oldest first */
+  eventsFor(taskId: string): WebhookEvent[] {
+    return this.events.get(taskId) ?? [];
+  }
+
+  /** The latest callback of every task, most recent first */
+  latest(): WebhookEvent[] {
+    return [...this.events.values()]
+      .map((events) => events[events.length - 1])
+      .sort((a, b) => b.received_at.localeCompare(a.received_at));
+  }
+
+  async start() {
+    const path = `/webhooks/${this.token}`;
+    const httpServer = http.createServer(async (req, res) => {
+      const reply = (status: number, body: object) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(body));
+      };
+
+      if (new URL(req.url || "/", "http://localhost").pathname !== path) return reply(404, { message: "Not found" });
+      if (req.method !== "POST") return reply(405, { message: "Only POST is supported" });
+
+      try {
+        const event = parseEvent(await readJson(req));
+        if (!event) return reply(400, { message: "Payload has no task_id" });
+        this.record(event);
+        reply(200, { received: true });
+      } catch (error) {
+        reply(400, { message: error instanceof Error ? error.message : String(error) });
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once("error", reject);
+      httpServer.listen(this.options.port, this.options.host, () => resolve());
+    });
+    httpServer.unref();
+    this.httpServer = httpServer;
+
+    const { port } = httpServer.address() as AddressInfo;
+    const origin = (this.options.publicUrl || `http://${this.options.host}:${port}`).replace(/\/+$/, "");
+    this.url = `${origin}${path}`;
+  }
+
+  async close() {
+    const httpServer = this.httpServer;
+    this.httpServer = undefined;
+    if (!httpServer) return;
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  }
+
+  private record(event: WebhookEvent) {
+    const events = this.events.get(event.task_id) ?? [];
+    events.push(event);
+    if (events.length > MAX_EVENTS_PER_TASK) events.shift();
+    // Re-insert so the map stays ordered by latest activity and the stalest task is evicted first.
+    this.events.delete(event.task_id);
+    this.events.set(event.task_id, events);
+    if (this.events.size > MAX_TASKS) {
+      this.events.delete(this.events.keys().next().value as string);
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        process.stderr.write(`Webhook listener failed: ${error}\n`);
+      }
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, describe, it } from "node:test";
+import { DEFAULT_COST_TABLE, SpendingGuard } from "../src/budget.js";
+import { loadConfig } from "../src/config.js";
+import { createServer } from "../src/index.js";
+import { startTestServices } from "./helpers.js";
+
+const SESSION = { id: "session-1", started_at: new Date().toISOString(), profile: "default" };
+const MYSTIC_2K = { prompt: "a lighthouse at dusk", resolution: "2k" };
+
+describe("SpendingGuard", () => {
+  it("charges a committed reservation once and frees a released one", () => {
+    const guard = new SpendingGuard({ costTable: DEFAULT_COST_TABLE, enforcement: "refuse" });
+
+    const committed = guard.authorize("generate_mystic", MYSTIC_2K, SESSION)!;
+    assert.equal(guard.usage(SESSION).in_progress, 4);
+    committed.commit();
+    committed.release();
+    committed.commit();
+    guard.authorize("generate_mystic", MYSTIC_2K, SESSION)!.release();
+
+    const usage = guard.usage(SESSION);
+    assert.deepEqual(usage.today, { credits: 4, calls: 1 });
+    assert.deepEqual(usage.session, { credits: 4, calls: 1 });
+    assert.equal(usage.in_progress, 0);
+  });
+
+  it("counts calls in progress against the budgets", () => {
+    const guard = new SpendingGuard({ costTable: DEFAULT_COST_TABLE, enforcement: "refuse", sessionBudget: 6 });
+
+    guard.authorize("generate_mystic", MYSTIC_2K, SESSION);
+    assert.throws(() => guard.authorize("generate_mystic", MYSTIC_2K, SESSION), { code: "budget_exceeded" });
+    assert.equal(guard.authorize("generate_mystic", MYSTIC_2K, { ...SESSION, id: "session-2" })?.credits, 4);
+  });
+
+  it("keeps spend in memory unless a usage file is configured", () => {
+    assert.equal(loadConfig({}).usageFile, undefined);
+    assert.equal(loadConfig({ FREEPIK_USAGE_FILE: "off" }).usageFile, undefined);
+    assert.equal(loadConfig({ FREEPIK_USAGE_FILE: "~/usage.jsonl" }).usageFile, "~/usage.jsonl");
+  });
+
+  it("reads today's charges back from the usage file", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "freepik-usage-"));
+    const usageFile = path.join(directory, "usage.jsonl");
+    try {
+      const guard = new SpendingGuard({ costTable: DEFAULT_COST_TABLE, enforcement: "refuse", usageFile });
+      guard.authorize("generate_mystic", MYSTIC_2K, SESSION)!.commit();
+      guard.authorize("remove_background", {}, SESSION)!.commit();
+      await guard.flush();
+
+      const restarted = new SpendingGuard({ costTable: DEFAULT_COST_TABLE, enforcement: "refuse", usageFile, dailyBudget: 6 });
+      await restarted.load();
+      assert.deepEqual(restarted.usage(SESSION).today, { credits: 5, calls: 2, budget: 6, remaining: 1 });
+      assert.throws(() => restarted.authorize("generate_mystic", MYSTIC_2K, SESSION), { code: "budget_exceeded" });
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("paid tool calls", () => {
+  let close: (() => Promise<void>) | undefined;
+  afterEach(async () => {
+    await close?.();
+    close = undefined;
+  });
+
+  async function start(env: NodeJS.ProcessEnv = {}) {
+    const test = await startTestServices(env);
+    close = test.close;
+    return { ...test, session: createServer(test.services, test.services.credentialFor({})!) };
+  }
+
+  async function usage(session: ReturnType<typeof createServer>) {
+    return (await session.callTool("get_usage", {})).structuredContent!;
+  }
+
+  it("charges a call once Freepik accepts it, even if the task then fails", async () => {
+    const { session } = await start();
+
+    const result = await session.callTool("generate_mystic", {
+      ...MYSTIC_2K,
+      prompt: "this one will fail",
+      wait: true,
+      poll_interval: 1,
+    });
+    assert.equal(result.structuredContent?.task?.status, "FAILED");
+
+    const { today, session: current, in_progress } = await usage(session);
+    assert.deepEqual(today, { credits: 4, calls: 1 });
+    assert.deepEqual(current, { credits: 4, calls: 1 });
+    assert.equal(in_progress, 0);
+  });
+
+  it("does not charge a call whose paid request failed", async () => {
+    const { api, session } = await start();
+    await api.close();
+
+    const result = await session.callTool("generate_mystic", MYSTIC_2K);
+    assert.equal(result.isError, true);
+
+    const { today, in_progress } = await usage(session);
+    assert.deepEqual(today, { credits: 0, calls: 0 });
+    assert.equal(in_progress, 0);
+  });
+
+  it("asks for confirmation above the threshold before sending anything", async () => {
+    const { session } = await start({ FREEPIK_CONFIRM_ABOVE: "3" });
+
+    const refused = await session.callTool("generate_mystic", MYSTIC_2K);
+    assert.equal(refused._meta?.["freepik/error"]?.code, "confirmation_required");
+    assert.equal((await session.callTool("list_mystic_tasks", {})).structuredContent?.tasks.length, 0);
+
+    const confirmed = await session.callTool("generate_mystic", { ...MYSTIC_2K, confirm: true });
+    assert.equal(confirmed.isError, undefined);
+    assert.deepEqual((await usage(session)).today, { credits: 4, calls: 1 });
+  });
+
+  it("refuses calls over the session budget", async () => {
+    const { services, session } = await start({ FREEPIK_SESSION_BUDGET: "6" });
+
+    assert.equal((await session.callTool("generate_mystic", MYSTIC_2K)).isError, undefined);
+    const refused = await session.callTool("generate_mystic", MYSTIC_2K);
+    assert.equal(refused._meta?.["freepik/error"]?.code, "budget_exceeded");
+
+    const other = createServer(services, services.credentialFor({})!);
+    assert.equal((await other.callTool("generate_mystic", MYSTIC_2K)).isError, undefined);
+    assert.deepEqual((await usage(session)).today, { credits: 8, calls: 2 });
+  });
+
+  it("does not charge dry runs", async () => {
+    const { session } = await start();
+
+    const preview = await session.callTool("generate_mystic", { ...MYSTIC_2K, dry_run: true });
+    assert.equal(preview._meta?.["freepik/dry_run"]?.estimated_credits, 4);
+    assert.deepEqual((await usage(session)).today, { credits: 0, calls: 0 });
+  });
+});
@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { URLSearchParams } from "node:url";
+import { cacheKey, collectCacheInfo, ResponseCache, ResponseCacheOptions } from "../src/cache.js";
+import { createServer } from "../src/index.js";
+import { startTestServices, until } from "./helpers.js";
+
+const TTL = { resources: 60, icons: 60, resource_details: 0 };
+
+/** A loader that returns how many times it has been called */
+function counter() {
+  let calls = 0;
+  return { load: async () => ++calls };
+}
+
+function newCache(options: Partial<ResponseCacheOptions> = {}) {
+  return new ResponseCache({ maxEntries: 10, ttlSeconds: TTL, ...options });
+}
+
+describe("cacheKey", () => {
+  it("ignores parameter order, blank values, extra whitespace and the case of the term", () => {
+    const key = cacheKey("https://api", "/icons", new URLSearchParams({ term: "Red  Car ", page: "1", color: "" }));
+    assert.equal(key, cacheKey("https://api", "/icons", new URLSearchParams({ page: "1", term: "red car" })));
+    assert.notEqual(key, cacheKey("https://api", "/icons", new URLSearchParams({ page: "2", term: "red car" })));
+    assert.notEqual(key, cacheKey("https://api", "/resources", new URLSearchParams({ page: "1", term: "red car" })));
+  });
+});
+
+describe("ResponseCache", () => {
+  it("serves repeated lookups from memory until asked not to", async () => {
+    const cache = newCache();
+    const source = counter();
+
+    assert.deepEqual(await cache.fetch("icons", "a", undefined, source.load), { value: 1, cache: { status: "miss" } });
+    assert.deepEqual(await cache.fetch("icons", "a", undefined, source.load), {
+      value: 1,
+      cache: { status: "hit", age_seconds: 0 },
+    });
+    assert.deepEqual(await cache.fetch("icons", "a", "bypass", source.load), { value: 2, cache: { status: "bypass" } });
+    assert.equal((await cache.fetch("icons", "a", undefined, source.load)).value, 1);
+    assert.deepEqual(await cache.fetch("icons", "a", "refresh", source.load), { value: 3, cache: { status: "refresh" } });
+    assert.equal((await cache.fetch("icons", "a", undefined, source.load)).value, 3);
+
+    assert.deepEqual(
+      cache.endpointStats().find((stats) => stats.endpoint === "icons"),
+      { endpoint: "icons", ttl_seconds: 60, hits: 3, misses: 1, bypassed: 2 }
+    );
+  });
+
+  it("does not cache endpoints with no TTL or failed lookups", async () => {
+    const cache = newCache();
+    const source = counter();
+    assert.deepEqual(await cache.fetch("resource_details", "a", undefined, source.load), { value: 1 });
+    assert.deepEqual(await cache.fetch("resource_details", "a", undefined, source.load), { value: 2 });
+
+    await assert.rejects(cache.fetch("icons", "b", undefined, () => Promise.reject(new Error("down"))), /down/);
+    assert.equal((await cache.fetch("icons", "b", undefined, source.load)).cache?.status, "miss");
+  });
+
+  it("evicts the least recently used entry", async () => {
+    const cache = newCache({ maxEntries: 2 });
+    const source = counter();
+    await cache.fetch("icons", "a", undefined, source.load);
+    await cache.fetch("icons", "b", undefined, source.load);
+    await cache.fetch("icons", "a", undefined, source.load);
+    await cache.fetch("icons", "c", undefined, source.load);
+
+    assert.equal(cache.size, 2);
+    assert.equal((await cache.fetch("icons", "a", undefined, source.load)).cache?.status, "hit");
+    assert.equal((await cache.fetch("icons", "b", undefined, source.load)).cache?.status, "miss");
+  });
+
+  it("keeps responses on disk across instances and prunes expired files", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "freepik-cache-"));
+    try {
+      const first = newCache({ directory });
+      await first.fetch("resources", "a", undefined, async () => ({ data: ["stored"] }));
+      await until(async () => (await fs.readdir(directory)).filter((name) => name.endsWith(".json")).length === 1);
+
+      const second = newCache({ directory });
+      assert.deepEqual(await second.fetch("resources", "a", undefined, async () => ({ data: ["fresh"] })), {
+        value: { data: ["stored"] },
+        cache: { status: "hit", age_seconds: 0 },
+      });
+
+      const [file] = await fs.readdir(directory);
+      const record = JSON.parse(await fs.readFile(path.join(directory, file), "utf8"));
+      await fs.writeFile(path.join(directory, file), JSON.stringify({ ...record, expires_at: Date.now() - 1 }));
+      await fs.writeFile(path.join(directory, "broken.json"), "{");
+      await second.prune();
+      assert.deepEqual(await fs.readdir(directory), []);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it("reports the last lookup made inside collectCacheInfo", async () => {
+    const cache = newCache();
+    await cache.fetch("icons", "a", undefined, async () => "a");
+    const { value, cache: info } = await collectCacheInfo(async () => {
+      await cache.fetch("icons", "b", undefined, async () => "b");
+      return (await cache.fetch("icons", "a", undefined, async () => "fresh")).value;
+    });
+    assert.equal(value, "a");
+    assert.equal(info?.status, "hit");
+  });
+});
+
+describe("cached tools", () => {
+  it("report hits and count them in get_cache_stats", async () => {
+    const test = await startTestServices({ FREEPIK_CACHE_MAX_ENTRIES: "10" });
+    try {
+      const session = createServer(test.services, test.services.credentialFor({})!);
+      const first = await session.callTool("search_icons", { term: "home" });
+      const second = await session.callTool("search_icons", { term: " HOME " });
+      assert.equal(first.structuredContent?.cache.status, "miss");
+      assert.equal(second.structuredContent?.cache.status, "hit");
+      assert.match(second.content[0].text!, /Served from cache/);
+      assert.deepEqual(second.structuredContent?.icons, first.structuredContent?.icons);
+
+      const stats = (await session.callTool("get_cache_stats", {})).structuredContent!;
+      assert.equal(stats.entries, 1);
+      assert.equal(stats.endpoints.find((entry: any) => entry.endpoint === "icons").hits, 1);
+    } finally {
+      await test.close();
+    }
+  });
+});
@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import { execFile } from "node:child_process";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { renderFixturePng, startFakeFreepikServer } from "../src/fake-server.js";
+
+const CLI = path.join(__dirname, "..", "src", "cli.ts");
+
+interface CliResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+describe("freepik command", () => {
+  let api: Awaited<ReturnType<typeof startFakeFreepikServer>>;
+  let home: string;
+
+  before(async () => {
+    api = await startFakeFreepikServer({ pollsUntilComplete: 2 });
+    home = await fs.mkdtemp(path.join(os.tmpdir(), "freepik-cli-"));
+  });
+
+  after(async () => {
+    await api.close();
+    await fs.rm(home, { recursive: true, force: true });
+  });
+
+  /** Runs the command against the fake API, with nothing read from the real environment */
+  function freepik(args: string[], env: NodeJS.ProcessEnv = {}): Promise<CliResult> {
+    const baseEnv = Object.fromEntries(Object.entries(process.env).filter(([name]) => !name.startsWith("FREEPIK_")));
+    return new Promise((resolve) => {
+      execFile(
+        process.execPath,
+        ["--import", "tsx", CLI, ...args],
+        {
+          env: {
+            ...baseEnv,
+            HOME: home,
+            FREEPIK_API_KEY: "test-key",
+            FREEPIK_BASE_URL: api.baseUrl,
+            FREEPIK_MAX_RETRIES: "0",
+            ...env,
+          },
+          timeout: 30_000,
+        },
+        (error, stdout, stderr) => resolve({ code: error ? Number(error.code ?? 1) : 0, stdout, stderr })
+      );
+    });
+  }
+
+  it("prints results and exits 0", async () => {
+    const result = await freepik(["icons", "search", "home", "--per-page", "2", "--json"]);
+    assert.equal(result.code, 0, result.stderr);
+    assert.equal(JSON.parse(result.stdout).icons.length, 2);
+
+    const table = await freepik(["icons", "search", "home", "--per-page", "2", "--table"]);
+    assert.equal(table.code, 0, table.stderr);
+    assert.equal(table.stdout.trim().split("\n").length, 4);
+  });
+
+  it("exits 2 for usage errors, invalid arguments and missing configuration", async () => {
+    const none = await freepik([]);
+    assert.equal(none.code, 2);
+    assert.match(none.stderr, /^Usage: freepik <command>/);
+
+    const unknown = await freepik(["paint", "a", "fox"]);
+    assert.equal(unknown.code, 2);
+    assert.match(unknown.stderr, /Unknown command "paint a fox"/);
+
+    const option = await freepik(["icons", "search", "home", "--colour", "red"]);
+    assert.equal(option.code, 2);
+
+    const invalid = await freepik(["icons", "search", "home", "--per-page", "many"]);
+    assert.equal(invalid.code, 2);
+    assert.match(invalid.stderr, /per_page/);
+
+    const unconfigured = await freepik(["usage"], { FREEPIK_API_KEY: "" });
+    assert.equal(unconfigured.code, 2);
+    assert.match(unconfigured.stderr, /FREEPIK_API_KEY environment variable is required/);
+  });
+
+  it("exits 1 when the call or its task fails", async () => {
+    const failed = await freepik(["mystic", "this will fail", "--wait", "--poll-interval", "1", "--json"]);
+    assert.equal(failed.code, 1, failed.stderr);
+    assert.equal(JSON.parse(failed.stdout).task.status, "FAILED");
+
+    const missing = await freepik(["tasks", "get", "fake-999999", "--json"]);
+    assert.equal(missing.code, 1);
+    assert.match(JSON.parse(missing.stdout).error.message, /not found/);
+  });
+
+  it("exits 3 when a call needs approval, and runs it with --confirm", async () => {
+    const env = { FREEPIK_CONFIRM_ABOVE: "1" };
+    const unconfirmed = await freepik(["mystic", "a lighthouse"], env);
+    assert.equal(unconfirmed.code, 3);
+    assert.match(unconfirmed.stderr, /confirm/);
+
+    const confirmed = await freepik(["mystic", "a lighthouse", "-y"], env);
+    assert.equal(confirmed.code, 0, confirmed.stderr);
+  });
+
+  it("exits 4 when waiting times out", async () => {
+    const slow = await startFakeFreepikServer({ pollsUntilComplete: 100 });
+    try {
+      const result = await freepik(["mystic", "a lighthouse", "--wait", "--timeout-seconds", "1", "--poll-interval", "1"], {
+        FREEPIK_BASE_URL: slow.baseUrl,
+      });
+      assert.equal(result.code, 4, result.stderr);
+      assert.match(result.stdout, /did not finish within 1s/);
+    } finally {
+      await slow.close();
+    }
+  });
+
+  it("saves the generated images of a task with --out", async () => {
+    const out = path.join(home, "out");
+    const result = await freepik(["flux", "a lighthouse", "--wait", "--poll-interval", "1", "-o", out, "--json"]);
+    assert.equal(result.code, 0, result.stderr);
+    const { task, saved } = JSON.parse(result.stdout);
+    assert.equal(saved.length, task.generated.length);
+    assert.equal(saved[0].path, path.join(out, `${task.task_id}-1.png`));
+    assert.deepEqual(await fs.readFile(saved[0].path), renderFixturePng(`${task.task_id}-1.png`));
+  });
+});
@@ -0,0 +1,111 @@
+import assert from "node:assert/strict";
+import { afterEach, describe, it } from "node:test";
+import { keyFingerprint, parseCallerProfiles, parseKeyProfiles, resolveCredential } from "../src/credentials.js";
+import { startFakeFreepikServer } from "../src/fake-server.js";
+import { createServer } from "../src/index.js";
+import { FreepikServices } from "../src/services.js";
+import { startKeyRecorder, testConfig } from "./helpers.js";
+
+const PROFILES = { team: "team-key", ci: "ci-key" };
+const OPTIONS = { defaultApiKey: "default-key", profiles: PROFILES, callerProfiles: { alice: "team", bob: "default" } };
+
+describe("resolveCredential", () => {
+  it("prefers the key the client sent, attributed to a matching profile", () => {
+    assert.deepEqual(resolveCredential(OPTIONS, { caller: "alice", apiKey: "ci-key" }), {
+      profile: "ci",
+      apiKey: "ci-key",
+      source: "client",
+    });
+    assert.equal(resolveCredential(OPTIONS, { apiKey: "default-key" })?.profile, "default");
+  });
+
+  it("attributes an unknown client key to its fingerprint", () => {
+    assert.deepEqual(resolveCredential(OPTIONS, { apiKey: " own-key " }), {
+      profile: `client-${keyFingerprint("own-key")}`,
+      apiKey: "own-key",
+      source: "client",
+    });
+  });
+
+  it("uses the caller's profile, then the server default", () => {
+    assert.deepEqual(resolveCredential(OPTIONS, { caller: "alice" }), { profile: "team", apiKey: "team-key", source: "caller" });
+    assert.equal(resolveCredential(OPTIONS, { caller: "bob" })?.source, "default");
+    assert.equal(resolveCredential(OPTIONS, { caller: "carol" })?.apiKey, "default-key");
+    assert.equal(resolveCredential({ ...OPTIONS, defaultApiKey: undefined }, { caller: "carol" }), undefined);
+  });
+});
+
+describe("key profile configuration", () => {
+  it("parses profiles and caller mappings", () => {
+    const profiles = parseKeyProfiles(JSON.stringify(PROFILES));
+    assert.deepEqual(profiles, PROFILES);
+    assert.deepEqual(parseCallerProfiles("alice:team, bob:default", profiles), { alice: "team", bob: "default" });
+  });
+
+  it("rejects invalid profiles without echoing keys", () => {
+    assert.throws(() => parseKeyProfiles('{"default": "secret-key"}'), /invalid profile name "default"/);
+    assert.throws(() => parseKeyProfiles('{"team": ""}'), /must be a non-empty API key/);
+    assert.throws(() => parseKeyProfiles('{"team": "secret-key"'), (error: Error) => !error.message.includes("secret-key"));
+    assert.throws(() => parseCallerProfiles("alice:unknown", PROFILES), /unknown profile "unknown"/);
+    assert.throws(() => parseCallerProfiles("alice", PROFILES), /must be caller:profile/);
+  });
+});
+
+describe("sessions with different keys", () => {
+  const closers: Array<() => Promise<void>> = [];
+  afterEach(async () => {
+    for (const close of closers.splice(0).reverse()) await close();
+  });
+
+  async function start() {
+    const api = await startFakeFreepikServer();
+    closers.push(api.close);
+    const recorder = await startKeyRecorder(api.baseUrl);
+    closers.push(recorder.close);
+    const services = new FreepikServices(
+      testConfig(recorder.baseUrl, {
+        FREEPIK_API_KEY: "default-key",
+        FREEPIK_API_KEY_PROFILES: JSON.stringify(PROFILES),
+        FREEPIK_CALLER_PROFILES: "alice:team",
+      })
+    );
+    await services.start();
+    closers.push(() => services.close());
+    return { services, keys: recorder.keys };
+  }
+
+  it("call Freepik with the key their credential selects", async () => {
+    const { services, keys } = await start();
+    const identities = [{}, { caller: "alice" }, { caller: "bob", apiKey: "ci-key" }, { apiKey: "own-key" }];
+
+    for (const identity of identities) {
+      const session = createServer(services, services.credentialFor(identity)!);
+      assert.equal((await session.callTool("search_icons", { term: "home" })).isError, undefined);
+    }
+    assert.deepEqual(keys, ["default-key", "team-key", "ci-key", "own-key"]);
+  });
+
+  it("keep tasks and spend apart per key profile", async () => {
+    const { services } = await start();
+    const teamCredential = services.credentialFor({ caller: "alice" })!;
+    const defaultCredential = services.credentialFor({})!;
+    const team = createServer(services, teamCredential);
+    const fallback = createServer(services, defaultCredential);
+
+    const submitted = await team.callTool("generate_mystic", { prompt: "a red bicycle" });
+    const taskId = submitted.structuredContent?.task?.task_id;
+    for (const [credential, kind] of [
+      [teamCredential, "mystic"],
+      [defaultCredential, undefined],
+    ] as const) {
+      const account = services.account(credential);
+      assert.equal(account.client.tasks.kindOf(taskId), kind);
+      services.releaseAccount(account);
+    }
+
+    const usage = (await fallback.callTool("get_usage", {})).structuredContent!;
+    assert.equal(usage.profile, "default");
+    assert.deepEqual(usage.session, { credits: 0, calls: 0 });
+    assert.deepEqual(usage.by_profile, [{ profile: "team", calls: 1, credits: 2 }]);
+  });
+});
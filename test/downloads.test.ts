@@ -0,0 +1,146 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import { downloadToDirectory, expandHome, safeFilename } from "../src/downloads.js";
+import { renderFixturePng } from "../src/fake-server.js";
+import { createServer } from "../src/index.js";
+import { startTestServices } from "./helpers.js";
+
+describe("safeFilename", () => {
+  it("keeps only the last path segment", () => {
+    assert.equal(safeFilename("../../etc/passwd", "download"), "passwd");
+    assert.equal(safeFilename("..\\..\\boot.ini", "download"), "boot.ini");
+    assert.equal(safeFilename("icons/home.svg", "download"), "home.svg");
+  });
+
+  it("replaces characters that are not allowed in file names", () => {
+    assert.equal(safeFilename('a<b>c:d"e|f?g*h\u0000.png', "download"), "a_b_c_d_e_f_g_h_.png");
+    assert.equal(safeFilename("  .hidden. ", "download"), "hidden");
+  });
+
+  it("falls back when nothing is left and shortens long names", () => {
+    assert.equal(safeFilename(undefined, "download"), "download");
+    assert.equal(safeFilename("../..", "download"), "download");
+    assert.equal(safeFilename(" . ", "download"), "download");
+    const long = safeFilename(`${"a".repeat(300)}.png`, "download");
+    assert.equal(long.length, 200);
+    assert.ok(long.endsWith("a.png"));
+  });
+});
+
+describe("expandHome", () => {
+  it("expands a leading ~ only", () => {
+    assert.equal(expandHome("~"), os.homedir());
+    assert.equal(expandHome("~/images"), path.join(os.homedir(), "images"));
+    assert.equal(expandHome("~images"), "~images");
+    assert.equal(expandHome("/tmp/~"), "/tmp/~");
+  });
+});
+
+describe("downloadToDirectory", () => {
+  const PNG = renderFixturePng("download");
+  let server: http.Server;
+  let baseUrl: string;
+  let directory: string;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      if (req.url === "/short.png") {
+        res.writeHead(200, { "Content-Type": "image/png", "Content-Length": PNG.length + 10 });
+        res.end(PNG);
+      } else if (req.url === "/missing.png") {
+        res.writeHead(404).end();
+      } else {
+        res.writeHead(200, { "Content-Type": "image/png", "Content-Length": PNG.length }).end(PNG);
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise((resolve) => server.close(resolve)));
+
+  beforeEach(async () => {
+    directory = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "freepik-downloads-")), "nested");
+  });
+
+  afterEach(() => fs.rm(path.dirname(directory), { recursive: true, force: true }));
+
+  it("saves the file with its size and SHA-256", async () => {
+    const saved = await downloadToDirectory(`${baseUrl}/files/My%20Icon.png`, directory);
+    assert.equal(saved.path, path.join(directory, "My Icon.png"));
+    assert.equal(saved.bytes, PNG.length);
+    assert.equal(saved.contentType, "image/png");
+    assert.deepEqual(await fs.readFile(saved.path), PNG);
+    assert.match(saved.sha256, /^[0-9a-f]{64}$/);
+  });
+
+  it("never overwrites an existing file", async () => {
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(path.join(directory, "icon.png"), "mine");
+
+    const first = await downloadToDirectory(`${baseUrl}/a.png`, directory, "icon.png");
+    const second = await downloadToDirectory(`${baseUrl}/b.png`, directory, "../icon.png");
+    assert.equal(first.path, path.join(directory, "icon (1).png"));
+    assert.equal(second.path, path.join(directory, "icon (2).png"));
+    assert.equal(await fs.readFile(path.join(directory, "icon.png"), "utf8"), "mine");
+  });
+
+  it("leaves nothing behind when a download fails or is cut short", async () => {
+    await assert.rejects(downloadToDirectory(`${baseUrl}/short.png`, directory), /incomplete|aborted/);
+    await assert.rejects(downloadToDirectory(`${baseUrl}/missing.png`, directory), /status code 404/);
+    assert.deepEqual(await fs.readdir(directory), []);
+  });
+});
+
+describe("download tools", () => {
+  let outputDir: string;
+
+  beforeEach(async () => {
+    outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "freepik-output-"));
+  });
+
+  afterEach(() => fs.rm(outputDir, { recursive: true, force: true }));
+
+  it("save to the output directory without overwriting", async () => {
+    const test = await startTestServices({ FREEPIK_OUTPUT_DIR: outputDir });
+    try {
+      const session = createServer(test.services, test.services.credentialFor({})!);
+      const first = await session.callTool("download_icon", { icon_id: 7, format: "png" });
+      const second = await session.callTool("download_icon", {
+        icon_id: 7,
+        format: "png",
+        save_to: path.join(outputDir, "icons"),
+      });
+      const third = await session.callTool("download_icon", { icon_id: 7, format: "png" });
+
+      assert.equal(first.structuredContent?.saved.path, path.join(outputDir, "icon-7.png"));
+      assert.equal(second.structuredContent?.saved.path, path.join(outputDir, "icons", "icon-7.png"));
+      assert.equal(third.structuredContent?.saved.path, path.join(outputDir, "icon-7 (1).png"));
+      assert.deepEqual(await fs.readFile(first.structuredContent?.saved.path), renderFixturePng("icon-7.png"));
+    } finally {
+      await test.close();
+    }
+  });
+
+  it("keep HTTP clients inside the output directory", async () => {
+    const test = await startTestServices({ FREEPIK_TRANSPORT: "http", FREEPIK_OUTPUT_DIR: outputDir });
+    try {
+      const session = createServer(test.services, test.services.credentialFor({})!);
+      for (const save_to of ["../elsewhere", os.tmpdir()]) {
+        const refused = await session.callTool("download_icon", { icon_id: 7, format: "png", save_to });
+        assert.deepEqual(refused._meta?.["freepik/error"].invalid_params, [
+          { name: "save_to", reason: `must be a directory inside the output directory ${outputDir}` },
+        ]);
+      }
+      const saved = await session.callTool("download_icon", { icon_id: 7, format: "png", save_to: "icons" });
+      assert.equal(saved.structuredContent?.saved.path, path.join(outputDir, "icons", "icon-7.png"));
+    } finally {
+      await test.close();
+    }
+  });
+});
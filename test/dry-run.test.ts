@@ -0,0 +1,127 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { afterEach, describe, it } from "node:test";
+import { URLSearchParams } from "node:url";
+import { collectDryRun, formatRequestPreview, interceptDryRun, isDryRun } from "../src/dry-run.js";
+import { renderFixturePng, startFakeFreepikServer } from "../src/fake-server.js";
+import { createServer } from "../src/index.js";
+import { FreepikServices } from "../src/services.js";
+import { startKeyRecorder, testConfig } from "./helpers.js";
+
+const PNG = renderFixturePng("dry-run");
+const PNG_SUMMARY = `[base64 image/png, ${PNG.length} bytes, sha256 ${crypto.createHash("sha256").update(PNG).digest("hex")}]`;
+
+describe("collectDryRun", () => {
+  it("records the request instead of sending it, with secrets and images hidden", async () => {
+    const { value, requests } = await collectDryRun(async () => {
+      assert.equal(isDryRun(), true);
+      interceptDryRun({
+        method: "post",
+        url: "https://api.freepik.com/v1/ai/image-upscaler",
+        params: new URLSearchParams([
+          ["tag", "a"],
+          ["tag", "b"],
+          ["page", "2"],
+        ]),
+        headers: { "x-freepik-api-key": "secret", Authorization: "Bearer secret", Accept: "application/json" },
+        body: { image: PNG.toString("base64"), reference: `data:image/png;base64,${PNG.toString("base64")}`, scale: 2 },
+      });
+      return "sent";
+    });
+
+    assert.equal(value, undefined);
+    assert.deepEqual(requests, [
+      {
+        method: "POST",
+        url: "https://api.freepik.com/v1/ai/image-upscaler?tag=a&tag=b&page=2",
+        query: { tag: ["a", "b"], page: "2" },
+        headers: { "x-freepik-api-key": "[redacted]", Authorization: "[redacted]", Accept: "application/json" },
+        body: { image: PNG_SUMMARY, reference: PNG_SUMMARY, scale: 2 },
+        body_encoding: "json",
+      },
+    ]);
+    assert.equal(isDryRun(), false);
+  });
+
+  it("returns the result of handlers that send nothing, and previews wrapped stops", async () => {
+    assert.deepEqual(await collectDryRun(async () => "local"), { value: "local", requests: [] });
+
+    const { requests } = await collectDryRun(async () => {
+      try {
+        interceptDryRun({ method: "GET", url: "https://api/icons", headers: {} });
+      } catch (error) {
+        throw new Error(`Search failed: ${error}`);
+      }
+    });
+    assert.equal(requests.length, 1);
+    await assert.rejects(collectDryRun(() => Promise.reject(new Error("unrelated"))), /unrelated/);
+    assert.doesNotThrow(() => interceptDryRun({ method: "GET", url: "https://api/icons", headers: {} }));
+  });
+
+  it("formats form bodies as they would be sent", async () => {
+    const { requests } = await collectDryRun(async () =>
+      interceptDryRun({
+        method: "POST",
+        url: "https://api/ai/beta/remove-background",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: "image_url=https%3A%2F%2Fexample.com%2Fa.png",
+        form: true,
+      })
+    );
+    assert.deepEqual(requests[0].body, { image_url: "https://example.com/a.png" });
+    assert.equal(
+      formatRequestPreview(requests[0]),
+      "```http\nPOST https://api/ai/beta/remove-background\nContent-Type: application/x-www-form-urlencoded\n\nimage_url=https%3A%2F%2Fexample.com%2Fa.png\n```"
+    );
+  });
+});
+
+describe("dry_run tool calls", () => {
+  const closers: Array<() => Promise<void>> = [];
+  afterEach(async () => {
+    for (const close of closers.splice(0).reverse()) await close();
+  });
+
+  async function start(env: NodeJS.ProcessEnv = {}) {
+    const api = await startFakeFreepikServer();
+    closers.push(api.close);
+    const recorder = await startKeyRecorder(api.baseUrl);
+    closers.push(recorder.close);
+    const services = new FreepikServices(testConfig(recorder.baseUrl, env));
+    await services.start();
+    closers.push(() => services.close());
+    return { session: createServer(services, services.credentialFor({})!), sent: recorder.keys, baseUrl: recorder.baseUrl };
+  }
+
+  it("preview paid requests with their cost and send nothing", async () => {
+    const { session, sent, baseUrl } = await start();
+    const result = await session.callTool("upscale_image", { image: PNG.toString("base64"), dry_run: true });
+    const preview = result._meta?.["freepik/dry_run"];
+
+    assert.equal(result.isError, undefined);
+    assert.equal(preview.tool, "upscale_image");
+    assert.equal(typeof preview.estimated_credits, "number");
+    assert.equal(preview.requests[0].url, `${baseUrl}/ai/image-upscaler`);
+    assert.equal(preview.requests[0].headers["x-freepik-api-key"], "[redacted]");
+    assert.equal(preview.requests[0].body.image, PNG_SUMMARY);
+    assert.match(result.content[0].text!, /Nothing was sent to Freepik/);
+    assert.doesNotMatch(result.content[0].text!, /test-key/);
+    assert.deepEqual(sent, []);
+  });
+
+  it("default to FREEPIK_DRY_RUN and can be turned off per call", async () => {
+    const { session, sent } = await start({ FREEPIK_DRY_RUN: "1" });
+    const preview = await session.callTool("search_icons", { term: "home" });
+    assert.equal(preview._meta?.["freepik/dry_run"].requests[0].query.term, "home");
+    assert.equal(preview._meta?.["freepik/dry_run"].estimated_credits, undefined);
+    assert.match(preview.content[0].text!, /Estimated cost\*\*: free/);
+    assert.deepEqual(sent, []);
+
+    const usage = await session.callTool("get_usage", {});
+    assert.equal(usage._meta, undefined);
+
+    const real = await session.callTool("search_icons", { term: "home", dry_run: false });
+    assert.ok(real.structuredContent?.icons.length > 0);
+    assert.equal(sent.length, 1);
+  });
+});
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { FakeFreepikServer, renderFixturePng, startFakeFreepikServer } from "../src/fake-server.js";
+
+describe("fake Freepik API", () => {
+  let api: FakeFreepikServer;
+  before(async () => {
+    api = await startFakeFreepikServer({ pollsUntilComplete: 2 });
+  });
+  after(() => api.close());
+
+  async function request(path: string, init: RequestInit = {}) {
+    const response = await fetch(`${api.baseUrl}${path}`, {
+      ...init,
+      headers: { "x-freepik-api-key": "test-key", "Content-Type": "application/json", ...init.headers },
+    });
+    return { status: response.status, body: (await response.json()) as any };
+  }
+
+  it("requires an API key", async () => {
+    const response = await fetch(`${api.baseUrl}/resources`);
+    assert.equal(response.status, 401);
+  });
+
+  it("returns the same fixtures for the same search", async () => {
+    const first = await request("/resources?term=cat&limit=5");
+    const second = await request("/resources?term=cat&limit=5");
+    assert.equal(first.status, 200);
+    assert.equal(first.body.data.length, 5);
+    assert.deepEqual(first.body, second.body);
+  });
+
+  it("completes a task after the configured number of polls", async () => {
+    const created = await request("/ai/mystic", { method: "POST", body: JSON.stringify({ prompt: "a lighthouse" }) });
+    const taskId = created.body.data.task_id;
+    assert.equal(created.body.data.status, "CREATED");
+
+    assert.equal((await request(`/ai/mystic/${taskId}`)).body.data.status, "IN_PROGRESS");
+    const completed = (await request(`/ai/mystic/${taskId}`)).body.data;
+    assert.equal(completed.status, "COMPLETED");
+    assert.equal(completed.generated.length, 1);
+  });
+
+  it("fails tasks whose prompt asks it to", async () => {
+    const created = await request("/ai/mystic", { method: "POST", body: JSON.stringify({ prompt: "please fail" }) });
+    const taskId = created.body.data.task_id;
+    await request(`/ai/mystic/${taskId}`);
+    assert.equal((await request(`/ai/mystic/${taskId}`)).body.data.status, "FAILED");
+  });
+
+  it("answers unknown tasks and invalid bodies like Freepik", async () => {
+    assert.equal((await request("/ai/mystic/fake-999999")).status, 404);
+    const invalid = await request("/ai/text-to-icon", { method: "POST", body: "{}" });
+    assert.equal(invalid.status, 400);
+    assert.deepEqual(invalid.body.invalid_params, [{ name: "prompt", reason: "prompt is required" }]);
+  });
+
+  it("serves generated files as images", async () => {
+    const response = await fetch(`${api.baseUrl.replace("/v1", "")}/files/fake-000001-1.png`);
+    assert.equal(response.headers.get("content-type"), "image/png");
+    assert.deepEqual(Buffer.from(await response.arrayBuffer()), renderFixturePng("fake-000001-1.png"));
+  });
+});
@@ -0,0 +1,172 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import http from "http";
+import { AddressInfo } from "net";
+import { loadConfig, ServerConfig } from "../src/config.js";
+import { startFakeFreepikServer } from "../src/fake-server.js";
+import { createServer } from "../src/index.js";
+import { FreepikServices } from "../src/services.js";
+
+/**
+ * Config for a test: the fake API at `baseUrl`, no retries, and nothing read
+ * from or written to the home directory. `env` overrides any variable.
+ */
+export function testConfig(baseUrl: string, env: NodeJS.ProcessEnv = {}): ServerConfig {
+  return loadConfig({
+    FREEPIK_API_KEY: "test-key",
+    FREEPIK_BASE_URL: baseUrl,
+    FREEPIK_MAX_RETRIES: "0",
+    FREEPIK_CACHE_MAX_ENTRIES: "0",
+    ...env,
+  });
+}
+
+/** Starts the fake API and services that use it; `close` stops both */
+export async function startTestServices(env: NodeJS.ProcessEnv = {}) {
+  const api = await startFakeFreepikServer();
+  const services = new FreepikServices(testConfig(api.baseUrl, env));
+  await services.start();
+  return {
+    api,
+    services,
+    close: async () => {
+      await services.close();
+      await api.close().catch(() => undefined);
+    },
+  };
+}
+
+/** Connects an MCP client to `session` in process */
+export async function connectClient(session: ReturnType<typeof createServer>): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: "test", version: "1.0.0" }, { capabilities: {} });
+  await session.connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+/** Polls `condition` until it holds, failing after `timeoutMs` */
+export async function until(condition: () => boolean | Promise<boolean>, timeoutMs = 2000) {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) throw new Error("Condition not met in time");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Forwards requests to `target` and records the `x-freepik-api-key` header of
+ * each, to check which key reached the API.
+ */
+export async function startKeyRecorder(target: string) {
+  const targetUrl = new URL(target);
+  const keys: string[] = [];
+  const server = http.createServer((req, res) => {
+    keys.push(String(req.headers["x-freepik-api-key"] ?? ""));
+    const forward = http.request(
+      { host: targetUrl.hostname, port: targetUrl.port, method: req.method, path: req.url, headers: req.headers },
+      (response) => {
+        res.writeHead(response.statusCode ?? 502, response.headers);
+        response.pipe(res);
+      }
+    );
+    forward.on("error", () => res.writeHead(502).end());
+    req.pipe(forward);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}${targetUrl.pathname}`,
+    keys,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/** An SSE stream opened with `GET /sse` */
+export interface SseStream {
+  status: number;
+  /** Response body of a refused stream */
+  body?: any;
+  /** Absolute URL that messages are posted to */
+  endpoint?: string;
+  /** Resolves with the next message the server sends */
+  next(): Promise<any>;
+  close(): void;
+}
+
+/** Opens an MCP session over SSE, resolving once the server has named its message endpoint */
+export function openSse(sseUrl: string, headers: http.OutgoingHttpHeaders = {}): Promise<SseStream> {
+  return new Promise((resolve, reject) => {
+    const request = http.get(sseUrl, { headers }, (res) => {
+      res.setEncoding("utf8");
+      const close = () => request.destroy();
+      if (res.statusCode !== 200) {
+        let text = "";
+        res.on("data", (chunk) => (text += chunk));
+        res.on("end", () =>
+          resolve({ status: res.statusCode!, body: text ? JSON.parse(text) : undefined, next: () => Promise.reject(), close })
+        );
+        return;
+      }
+
+      const messages: any[] = [];
+      const waiters: Array<(message: any) => void> = [];
+      const stream: SseStream = {
+        status: 200,
+        next: () =>
+          messages.length > 0 ? Promise.resolve(messages.shift()) : new Promise((resolveNext) => waiters.push(resolveNext)),
+        close,
+      };
+      let buffer = "";
+      res.on("data", (chunk: string) => {
+        buffer += chunk;
+        let end;
+        while ((end = buffer.indexOf("\n\n")) >= 0) {
+          const event = buffer.slice(0, end);
+          buffer = buffer.slice(end + 2);
+          const type = /^event: (.*)$/m.exec(event)?.[1];
+          const data = /^data: (.*)$/m.exec(event)?.[1];
+          if (data === undefined) continue;
+          if (type === "endpoint") {
+            stream.endpoint = new URL(data, sseUrl).href;
+            resolve(stream);
+          } else {
+            const message = JSON.parse(data);
+            const waiter = waiters.shift();
+            if (waiter) waiter(message);
+            else messages.push(message);
+          }
+        }
+      });
+    });
+    request.on("error", reject);
+  });
+}
+
+/** Posts an MCP message to a session, returning the HTTP status */
+export async function post(endpoint: string, message: object, headers: Record<string, string> = {}): Promise<number> {
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: { ...headers, "Content-Type": "application/json" },
+    body: JSON.stringify(message),
+  });
+  await response.text();
+  return response.status;
+}
+
+/** Sends `initialize` and `notifications/initialized` over a session */
+export async function initialize(stream: SseStream, headers: Record<string, string> = {}) {
+  await post(
+    stream.endpoint!,
+    {
+      jsonrpc: "2.0",
+      id: 0,
+      method: "initialize",
+      params: { protocolVersion: "2024-11-05", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+    },
+    headers
+  );
+  await stream.next();
+  await post(stream.endpoint!, { jsonrpc: "2.0", method: "notifications/initialized" }, headers);
+}
@@ -0,0 +1,187 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { SessionIdentity } from "../src/credentials.js";
+import { McpHttpServer, SessionRejectedError } from "../src/http-transport.js";
+import { createServer } from "../src/index.js";
+import { initialize, openSse, post, SseStream, startTestServices, until } from "./helpers.js";
+
+const ALICE = { Authorization: "Bearer alice-token" };
+const BOB = { "X-API-Key": "bob-token" };
+
+describe("HTTP transport", () => {
+  let test: Awaited<ReturnType<typeof startTestServices>>;
+  let transport: McpHttpServer;
+  const identities: SessionIdentity[] = [];
+  const streams: SseStream[] = [];
+
+  before(async () => {
+    test = await startTestServices();
+    transport = new McpHttpServer(
+      {
+        port: 0,
+        host: "127.0.0.1",
+        tokens: [
+          { caller: "alice", token: "alice-token" },
+          { caller: "bob", token: "bob-token" },
+          { caller: "carol", token: "carol-token" },
+        ],
+        corsOrigins: [],
+        maxSessions: 3,
+      },
+      async (sseTransport, identity) => {
+        identities.push(identity);
+        if (identity.caller === "carol") throw new SessionRejectedError("Carol has no key");
+        const session = createServer(test.services, test.services.credentialFor(identity)!, identity.caller);
+        await session.connect(sseTransport);
+        return session;
+      }
+    );
+    await transport.start();
+  });
+
+  after(async () => {
+    streams.forEach((stream) => stream.close());
+    await transport.close(() => test.services.idle(), 1000);
+    await test.close();
+  });
+
+  async function open(headers: Record<string, string>) {
+    const stream = await openSse(transport.sseUrl, headers);
+    streams.push(stream);
+    return stream;
+  }
+
+  it("answers health checks without a token", async () => {
+    const response = await fetch(transport.sseUrl.replace("/sse", "/healthz"));
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { status: "ok" });
+  });
+
+  it("refuses missing and unknown tokens", async () => {
+    assert.equal((await open({})).status, 401);
+    assert.equal((await open({ Authorization: "Bearer mallory-token" })).status, 401);
+  });
+
+  it("passes the caller and the client's Freepik key to the session", async () => {
+    const stream = await open({ ...ALICE, "X-Freepik-Api-Key": "alice-freepik-key" });
+    assert.equal(stream.status, 200);
+    assert.deepEqual(identities.at(-1), { caller: "alice", apiKey: "alice-freepik-key" });
+  });
+
+  it("refuses sessions the factory rejects", async () => {
+    const stream = await open({ Authorization: "Bearer carol-token" });
+    assert.equal(stream.status, 403);
+    assert.deepEqual(stream.body, { message: "Carol has no key" });
+  });
+
+  it("only accepts messages from the token that opened the session", async () => {
+    const stream = await open(ALICE);
+    await initialize(stream, ALICE);
+
+    const listTools = { jsonrpc: "2.0", id: 1, method: "tools/list" };
+    assert.equal(await post(stream.endpoint!, listTools, BOB), 403);
+    assert.equal(await post(stream.endpoint!, listTools, {}), 401);
+    assert.equal(await post(stream.endpoint!, listTools, ALICE), 202);
+    assert.equal((await stream.next()).id, 1);
+  });
+
+  it("refuses messages for unknown sessions", async () => {
+    const endpoint = transport.sseUrl.replace("/sse", "/messages?sessionId=unknown");
+    assert.equal(await post(endpoint, { jsonrpc: "2.0", id: 1, method: "tools/list" }, ALICE), 404);
+  });
+
+  it("limits the number of open sessions", async () => {
+    let last: SseStream | undefined;
+    while (transport.sessionCount < 3) last = await open(BOB);
+    assert.equal((await open(BOB)).status, 503);
+
+    last!.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.equal((await open(BOB)).status, 200);
+  });
+});
+
+describe("HTTP sessions with different keys", () => {
+  let test: Awaited<ReturnType<typeof startTestServices>>;
+  let transport: McpHttpServer;
+  const streams: SseStream[] = [];
+
+  before(async () => {
+    test = await startTestServices({ FREEPIK_WEBHOOK_PORT: "0" });
+    transport = new McpHttpServer(
+      {
+        port: 0,
+        host: "127.0.0.1",
+        tokens: [
+          { caller: "alice", token: "alice-token" },
+          { caller: "bob", token: "bob-token" },
+        ],
+        corsOrigins: [],
+        maxSessions: 10,
+      },
+      async (sseTransport, identity) => {
+        const session = createServer(test.services, test.services.credentialFor(identity)!, identity.caller);
+        await session.connect(sseTransport);
+        return session;
+      }
+    );
+    await transport.start();
+  });
+
+  after(async () => {
+    streams.forEach((stream) => stream.close());
+    await transport.close(() => test.services.idle(), 1000);
+    await test.close();
+  });
+
+  async function connect(headers: Record<string, string>) {
+    const stream = await openSse(transport.sseUrl, headers);
+    streams.push(stream);
+    await initialize(stream, headers);
+    let id = 0;
+    return async (name: string, args: object = {}) => {
+      const requestId = ++id;
+      const request = { jsonrpc: "2.0", id: requestId, method: "tools/call", params: { name, arguments: args } };
+      await post(stream.endpoint!, request, headers);
+      for (;;) {
+        const message = await stream.next();
+        if (message.id === requestId) return message.result;
+      }
+    };
+  }
+
+  it("only see the webhook callbacks of tasks their own key submitted", async () => {
+    const alice = await connect({ ...ALICE, "X-Freepik-Api-Key": "alice-freepik-key" });
+    const bob = await connect(BOB);
+
+    const submitted = await alice("generate_mystic", { prompt: "a private launch image" });
+    const taskId = submitted.structuredContent.task.task_id;
+    const callback = await fetch(test.services.webhooks!.callbackUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ task_id: taskId, status: "COMPLETED", generated: ["https://example.com/launch.png"] }),
+    });
+    assert.equal(callback.status, 200);
+
+    assert.deepEqual(
+      (await alice("get_webhook_events")).structuredContent.events.map((event: any) => event.task_id),
+      [taskId]
+    );
+    assert.deepEqual((await bob("get_webhook_events")).structuredContent.events, []);
+    assert.deepEqual((await bob("get_webhook_events", { task_id: taskId })).structuredContent.events, []);
+  });
+
+  it("drop the account of a key once its last session closes", async () => {
+    const before = test.services.accountCount;
+    const headers = { ...BOB, "X-Freepik-Api-Key": "short-lived-key" };
+    const first = await openSse(transport.sseUrl, headers);
+    const second = await openSse(transport.sseUrl, headers);
+    assert.equal(test.services.accountCount, before + 1);
+
+    first.close();
+    await until(() => transport.sessionCount === streams.length + 1);
+    assert.equal(test.services.accountCount, before + 1);
+    second.close();
+    await until(() => test.services.accountCount === before);
+  });
+});
@@ -0,0 +1,148 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { pathToFileURL } from "node:url";
+import { renderFixturePng } from "../src/fake-server.js";
+import { ImageInputError, isPrivateAddress, resolveImageInput } from "../src/images.js";
+import { createServer } from "../src/index.js";
+import { startTestServices } from "./helpers.js";
+
+const PNG = renderFixturePng("input");
+const GIF = Buffer.from("GIF89a\x01\x00\x01\x00\x00\x00\x00;", "binary");
+
+async function refusal(value: unknown, options = {}): Promise<string> {
+  try {
+    await resolveImageInput("image", value, options);
+  } catch (error) {
+    assert.ok(error instanceof ImageInputError);
+    assert.equal(error.field, "image");
+    return error.message;
+  }
+  assert.fail(`${String(value).slice(0, 40)} was accepted`);
+}
+
+describe("isPrivateAddress", () => {
+  it("flags loopback, private, link-local and unspecified addresses", () => {
+    for (const address of [
+      "127.0.0.1",
+      "10.1.2.3",
+      "172.16.0.1",
+      "172.31.255.255",
+      "192.168.1.1",
+      "169.254.169.254",
+      "100.64.0.1",
+      "0.0.0.0",
+      "::1",
+      "::",
+      "[::1]",
+      "fc00::1",
+      "fd12:3456::1",
+      "fe80::1",
+      "::ffff:127.0.0.1",
+      "::ffff:a9fe:a9fe",
+    ]) {
+      assert.equal(isPrivateAddress(address), true, address);
+    }
+  });
+
+  it("lets public addresses through", () => {
+    for (const address of ["8.8.8.8", "172.32.0.1", "100.128.0.1", "192.169.0.1", "2606:4700::1111", "::ffff:8.8.8.8"]) {
+      assert.equal(isPrivateAddress(address), false, address);
+    }
+  });
+});
+
+describe("resolveImageInput", () => {
+  let directory: string;
+  let server: http.Server;
+  let imageUrl: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "freepik-images-"));
+    await fs.writeFile(path.join(directory, "input.png"), PNG);
+    await fs.writeFile(path.join(directory, "input.gif"), GIF);
+    server = http.createServer((req, res) => {
+      if (req.url === "/input.png") res.writeHead(200, { "Content-Type": "image/png" }).end(PNG);
+      else if (req.url === "/redirect") res.writeHead(302, { Location: "/input.png" }).end();
+      else res.writeHead(404).end();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+    imageUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/input.png`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("accepts base64, data URIs, paths, file:// URIs and URLs", async () => {
+    const base64 = PNG.toString("base64");
+    assert.equal(await resolveImageInput("image", base64), base64);
+    assert.equal(await resolveImageInput("image", `data:image/png;base64,${base64}`), base64);
+    assert.equal(await resolveImageInput("image", path.join(directory, "input.png")), base64);
+    assert.equal(await resolveImageInput("image", pathToFileURL(path.join(directory, "input.png")).href), base64);
+    assert.equal(await resolveImageInput("image", imageUrl), base64);
+  });
+
+  it("explains inputs that are not a supported image", async () => {
+    assert.match(await refusal(""), /expected a local file path/);
+    assert.match(await refusal(42), /expected a local file path/);
+    assert.match(await refusal("not an image"), /expected a local file path/);
+    assert.match(await refusal(path.join(directory, "missing.png")), /file not found/);
+    assert.match(await refusal(path.join(directory, "input.gif")), /image\/gif image; supported types are/);
+    assert.match(await refusal(`data:image/gif;base64,${GIF.toString("base64")}`), /type image\/gif is not supported/);
+    assert.match(await refusal("data:image/png,raw"), /must be base64 encoded/);
+    assert.match(await refusal(imageUrl.replace("input.png", "missing.png")), /could not fetch .*: HTTP 404/);
+  });
+
+  it("refuses local files when they are not allowed, without probing the path", async () => {
+    const options = { allowLocalFiles: false };
+    assert.match(await refusal(path.join(directory, "input.png"), options), /does not read local files/);
+    assert.match(await refusal(path.join(directory, "missing.png"), options), /does not read local files/);
+    assert.match(await refusal(pathToFileURL(path.join(directory, "input.png")).href, options), /does not read local files/);
+    assert.match(await refusal("~/.ssh/id_rsa", options), /does not read local files/);
+    assert.equal(await resolveImageInput("image", PNG.toString("base64"), options), PNG.toString("base64"));
+  });
+
+  it("refuses private network URLs when they are not allowed", async () => {
+    const options = { allowPrivateNetworks: false };
+    const port = new URL(imageUrl).port;
+    assert.match(await refusal(imageUrl, options), /127\.0\.0\.1 is a private network address/);
+    assert.match(await refusal(`http://localhost:${port}/input.png`, options), /localhost resolves to a private network address/);
+    assert.match(await refusal(`http://[::ffff:127.0.0.1]:${port}/input.png`, options), /is a private network address/);
+    assert.match(await refusal("http://169.254.169.254/latest/meta-data/", options), /is a private network address/);
+    assert.equal(await resolveImageInput("image", imageUrl.replace("input.png", "redirect")), PNG.toString("base64"));
+  });
+});
+
+describe("image arguments over HTTP", () => {
+  it("cannot reach the host's files unless local access is enabled", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "freepik-images-"));
+    const file = path.join(directory, "input.png");
+    await fs.writeFile(file, PNG);
+    const remote = await startTestServices({ FREEPIK_TRANSPORT: "http" });
+    const local = await startTestServices({ FREEPIK_TRANSPORT: "http", FREEPIK_HTTP_LOCAL_ACCESS: "1" });
+    try {
+      const refused = await createServer(remote.services, remote.services.credentialFor({})!).callTool("upscale_image", {
+        image: file,
+      });
+      assert.equal(refused.isError, true);
+      assert.equal(refused._meta?.["freepik/error"].code, "invalid_image");
+      assert.equal(refused._meta?.["freepik/error"].parameter, "image");
+
+      const allowed = await createServer(local.services, local.services.credentialFor({})!).callTool("upscale_image", {
+        image: file,
+      });
+      assert.equal(allowed.isError, undefined);
+      assert.ok(allowed.structuredContent?.task?.task_id);
+    } finally {
+      await remote.close();
+      await local.close();
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,177 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { createServer } from "../src/index.js";
+import { isInlineData, JournalEntry, redactInlineData, TaskJournal } from "../src/journal.js";
+import { startTestServices } from "./helpers.js";
+
+function entry(taskId: string, fields: Partial<JournalEntry> = {}): JournalEntry {
+  return {
+    kind: "mystic",
+    task_id: taskId,
+    tool: "generate_mystic",
+    profile: "default",
+    request: { prompt: `prompt of ${taskId}` },
+    submitted_at: "2026-03-01T12:00:00.000Z",
+    status: "COMPLETED",
+    updated_at: "2026-03-01T12:00:00.000Z",
+    generated: [],
+    files: [],
+    ...fields,
+  };
+}
+
+async function readLines(file: string): Promise<JournalEntry[]> {
+  return (await fs.readFile(file, "utf8"))
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+describe("redactInlineData", () => {
+  it("replaces data URIs and long base64 strings anywhere in a request", () => {
+    const base64 = "A".repeat(300);
+    assert.equal(isInlineData("data:image/png;base64,AAAA"), true);
+    assert.equal(isInlineData(base64), true);
+    assert.equal(isInlineData("a short prompt"), false);
+    assert.equal(isInlineData("word ".repeat(60)), false);
+
+    assert.deepEqual(
+      redactInlineData({ prompt: "a cat", image: base64, references: [{ image: "data:image/png;base64,AAAA" }], seed: 3 }),
+      {
+        prompt: "a cat",
+        image: "[inline data, 300 characters]",
+        references: [{ image: "[inline data, 26 characters]" }],
+        seed: 3,
+      }
+    );
+  });
+});
+
+describe("TaskJournal", () => {
+  let directory: string;
+  let file: string;
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "freepik-journal-"));
+    file = path.join(directory, "nested", "journal.jsonl");
+  });
+  afterEach(() => fs.rm(directory, { recursive: true, force: true }));
+
+  it("appends every change and reloads the latest state of each task", async () => {
+    const journal = new TaskJournal(file);
+    journal.submitted("flux_dev", "t1", "generate_flux_dev", "team", { prompt: "a boat", image: "A".repeat(300) }, "CREATED");
+    journal.update({ kind: "flux_dev", task_id: "t1", status: "IN_PROGRESS" });
+    journal.update({ kind: "flux_dev", task_id: "t1", status: "IN_PROGRESS" });
+    journal.update({ kind: "flux_dev", task_id: "t1", status: "COMPLETED", generated: ["https://x/1.png"] });
+    journal.update({ kind: "flux_dev", task_id: "unknown", status: "COMPLETED" });
+    journal.addFiles("t1", [{ path: "/tmp/1.png", bytes: 3, sha256: "abc" }]);
+    await journal.flush();
+
+    const lines = await readLines(file);
+    assert.deepEqual(lines.map((line) => line.status), ["CREATED", "IN_PROGRESS", "COMPLETED", "COMPLETED"]);
+
+    const reloaded = new TaskJournal(file);
+    await reloaded.load();
+    const saved = reloaded.get("t1")!;
+    assert.equal(saved.profile, "team");
+    assert.deepEqual(saved.request, { prompt: "a boat", image: "[inline data, 300 characters]" });
+    assert.equal(saved.status, "COMPLETED");
+    assert.deepEqual(saved.generated, ["https://x/1.png"]);
+    assert.deepEqual(saved.files, [{ path: "/tmp/1.png", bytes: 3, sha256: "abc" }]);
+    assert.equal(reloaded.get("unknown"), undefined);
+  });
+
+  it("skips damaged lines and compacts a file of mostly superseded lines", async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const statuses = ["CREATED", "IN_PROGRESS", "IN_PROGRESS", "IN_PROGRESS", "COMPLETED"];
+    const lines = statuses.map((status) => JSON.stringify(entry("t1", { status })));
+    await fs.writeFile(file, `${lines.join("\n")}\n{"task_id": "t2", "stat\n`);
+
+    const journal = new TaskJournal(file);
+    await journal.load();
+    assert.equal(journal.get("t1")?.status, "COMPLETED");
+    assert.equal(journal.get("t2"), undefined);
+    assert.deepEqual(await readLines(file), [entry("t1")]);
+  });
+
+  it("starts empty without a file", async () => {
+    const journal = new TaskJournal(file);
+    await journal.load();
+    assert.deepEqual(journal.search({ limit: 10 }), { entries: [], total: 0 });
+  });
+
+  it("searches by prompt, model, kind, status, date and profile", async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const entries = [
+      entry("old", { submitted_at: "2026-01-10T09:00:00.000Z", request: { prompt: "A Red Fox", model: "realism" } }),
+      entry("mid", { submitted_at: "2026-02-10T09:00:00.000Z", status: "FAILED", profile: undefined }),
+      entry("new", {
+        kind: "flux_dev",
+        tool: "generate_flux_dev",
+        submitted_at: "2026-03-10T09:00:00.000Z",
+        profile: "team",
+        request: { prompt: "a fox in snow" },
+      }),
+    ];
+    await fs.writeFile(file, entries.map((item) => `${JSON.stringify(item)}\n`).join(""));
+    const journal = new TaskJournal(file);
+    await journal.load();
+    const ids = (query: object) => journal.search({ limit: 10, ...query }).entries.map((item) => item.task_id);
+
+    assert.deepEqual(ids({}), ["new", "mid", "old"]);
+    assert.deepEqual(ids({ text: "FOX" }), ["new", "old"]);
+    assert.deepEqual(ids({ model: "REALISM" }), ["old"]);
+    assert.deepEqual(ids({ model: "flux" }), ["new"]);
+    assert.deepEqual(ids({ kind: "mystic" }), ["mid", "old"]);
+    assert.deepEqual(ids({ status: "FAILED" }), ["mid"]);
+    assert.deepEqual(ids({ since: new Date("2026-02-01"), until: new Date("2026-02-28") }), ["mid"]);
+    assert.deepEqual(ids({ profile: "default" }), ["mid", "old"]);
+    assert.deepEqual(journal.search({ limit: 1 }), { entries: [entries[2]], total: 3 });
+  });
+});
+
+describe("search_task_history", () => {
+  let directory: string;
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "freepik-journal-"));
+  });
+  afterEach(() => fs.rm(directory, { recursive: true, force: true }));
+
+  it("finds the tasks this key submitted", async () => {
+    const test = await startTestServices({
+      FREEPIK_JOURNAL_FILE: path.join(directory, "journal.jsonl"),
+      FREEPIK_API_KEY_PROFILES: JSON.stringify({ team: "team-key" }),
+    });
+    try {
+      const session = createServer(test.services, test.services.credentialFor({})!);
+      const team = createServer(test.services, test.services.credentialFor({ apiKey: "team-key" })!);
+      await session.callTool("generate_mystic", { prompt: "a lighthouse at dusk", wait: true, poll_interval: 1 });
+      await team.callTool("generate_mystic", { prompt: "a lighthouse at dawn" });
+
+      const found = (await session.callTool("search_task_history", { query: "LIGHTHOUSE" })).structuredContent!;
+      assert.equal(found.total, 1);
+      assert.equal(found.entries[0].request.prompt, "a lighthouse at dusk");
+      assert.equal(found.entries[0].status, "COMPLETED");
+      assert.ok(found.entries[0].generated.length > 0);
+
+      const invalid = await session.callTool("search_task_history", { since: "last week" });
+      assert.equal(invalid._meta?.["freepik/error"].parameter, "since");
+    } finally {
+      await test.close();
+    }
+  });
+
+  it("explains how to enable the journal", async () => {
+    const test = await startTestServices();
+    try {
+      const session = createServer(test.services, test.services.credentialFor({})!);
+      const result = await session.callTool("search_task_history", {});
+      assert.equal(result.isError, true);
+      assert.match(result.content[0].text!, /Set FREEPIK_JOURNAL_FILE/);
+    } finally {
+      await test.close();
+    }
+  });
+});
@@ -0,0 +1,250 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, it } from "node:test";
+import { renderFixturePng } from "../src/fake-server.js";
+import { createServer } from "../src/index.js";
+import {
+  CommandSink,
+  Delivery,
+  HttpSink,
+  NotificationSink,
+  signPayload,
+  TaskCompletionEvent,
+  TaskNotifier,
+  TaskSubmission,
+} from "../src/notifications.js";
+import { startTestServices, until } from "./helpers.js";
+
+const SUBMISSION: TaskSubmission = {
+  kind: "mystic",
+  task_id: "task-1",
+  tool: "generate_mystic",
+  prompt: "a lighthouse",
+  requester: { client: "test/1.0.0", user: "alice" },
+  submitted_at: "2026-01-01T00:00:00.000Z",
+};
+
+/** A sink that records deliveries, failing the first `failures` attempts */
+function recordingSink(failures = 0) {
+  const deliveries: Delivery[] = [];
+  let attempts = 0;
+  const sink: NotificationSink = {
+    name: "recording",
+    async deliver(delivery) {
+      if (++attempts <= failures) throw new Error(`attempt ${attempts} failed`);
+      deliveries.push(delivery);
+    },
+  };
+  return { sink, deliveries };
+}
+
+describe("signPayload", () => {
+  it("signs the timestamp and body with HMAC-SHA256", () => {
+    const signature = signPayload("secret", 1700000000, '{"id":"evt_1"}');
+    assert.match(signature, /^sha256=[0-9a-f]{64}$/);
+    assert.equal(signature, signPayload("secret", 1700000000, '{"id":"evt_1"}'));
+    assert.notEqual(signature, signPayload("secret", 1700000001, '{"id":"evt_1"}'));
+    assert.notEqual(signature, signPayload("other", 1700000000, '{"id":"evt_1"}'));
+  });
+});
+
+describe("TaskNotifier", () => {
+  let directory: string;
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "freepik-notify-"));
+  });
+  afterEach(() => fs.rm(directory, { recursive: true, force: true }));
+
+  function notifier(sinks: NotificationSink[], secret?: string) {
+    return new TaskNotifier(sinks, { secret, maxAttempts: 2, deadLetterFile: path.join(directory, "dead.jsonl") });
+  }
+
+  it("sends one signed event when a tracked task finishes", async () => {
+    const { sink, deliveries } = recordingSink();
+    const tasks = notifier([sink], "secret");
+    tasks.track(SUBMISSION);
+
+    assert.equal(await tasks.handle({ kind: "mystic", task_id: "other", status: "COMPLETED" }), undefined);
+    assert.equal(await tasks.handle({ kind: "mystic", task_id: "task-1", status: "IN_PROGRESS" }), undefined);
+    const event = await tasks.handle({ kind: "mystic", task_id: "task-1", status: "COMPLETED", generated: ["https://x/1.png"] });
+    assert.equal(await tasks.handle({ kind: "mystic", task_id: "task-1", status: "COMPLETED" }), undefined);
+
+    assert.equal(event?.type, "task.completed");
+    assert.deepEqual(event?.task, {
+      kind: "mystic",
+      task_id: "task-1",
+      status: "COMPLETED",
+      generated: ["https://x/1.png"],
+      resource_uri: "freepik://task/mystic/task-1",
+    });
+    assert.deepEqual(event?.submission, {
+      tool: "generate_mystic",
+      prompt: "a lighthouse",
+      requester: { client: "test/1.0.0", user: "alice" },
+      submitted_at: "2026-01-01T00:00:00.000Z",
+    });
+    assert.equal(deliveries.length, 1);
+    const [{ body, timestamp, signature }] = deliveries;
+    assert.deepEqual(JSON.parse(body), event);
+    assert.equal(signature, signPayload("secret", timestamp, body));
+  });
+
+  it("reports failed tasks and leaves deliveries unsigned without a secret", async () => {
+    const { sink, deliveries } = recordingSink();
+    const tasks = notifier([sink]);
+    tasks.track(SUBMISSION);
+    const event = await tasks.handle({ kind: "mystic", task_id: "task-1", status: "FAILED" });
+    assert.equal(event?.type, "task.failed");
+    assert.deepEqual(event?.task.generated, []);
+    assert.equal(deliveries[0].signature, undefined);
+  });
+
+  it("retries a failing sink, then dead-letters the event without holding up the others", async () => {
+    const flaky = recordingSink(1);
+    const broken = recordingSink(Infinity);
+    broken.sink.name = "broken";
+    const tasks = notifier([flaky.sink, broken.sink]);
+    tasks.track(SUBMISSION);
+
+    const event = await tasks.handle({ kind: "mystic", task_id: "task-1", status: "COMPLETED" });
+    assert.equal(flaky.deliveries.length, 1);
+    const lines = (await fs.readFile(path.join(directory, "dead.jsonl"), "utf8")).trim().split("\n");
+    assert.equal(lines.length, 1);
+    const entry = JSON.parse(lines[0]);
+    assert.equal(entry.sink, "broken");
+    assert.equal(entry.attempts, 2);
+    assert.equal(entry.error, "attempt 2 failed");
+    assert.deepEqual(entry.event, event);
+  });
+});
+
+describe("notification sinks", () => {
+  let event: TaskCompletionEvent;
+  let body: string;
+
+  beforeEach(async () => {
+    const { sink, deliveries } = recordingSink();
+    const tasks = new TaskNotifier([sink], { maxAttempts: 1, deadLetterFile: path.join(os.tmpdir(), "unused.jsonl") });
+    tasks.track(SUBMISSION);
+    await tasks.handle({ kind: "mystic", task_id: "task-1", status: "COMPLETED" });
+    ({ event, body } = deliveries[0]);
+  });
+
+  it("POST the event with its metadata headers", async () => {
+    const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+    let status = 204;
+    const server = http.createServer((req, res) => {
+      let text = "";
+      req.on("data", (chunk) => (text += chunk));
+      req.on("end", () => {
+        received.push({ headers: req.headers, body: text });
+        res.writeHead(status).end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+    try {
+      const sink = new HttpSink(`http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`);
+      await sink.deliver({ event, body, timestamp: 1700000000, signature: "sha256=abc" });
+      assert.equal(received[0].body, body);
+      assert.equal(received[0].headers["x-freepik-event"], "task.completed");
+      assert.equal(received[0].headers["x-freepik-event-id"], event.id);
+      assert.equal(received[0].headers["x-freepik-timestamp"], "1700000000");
+      assert.equal(received[0].headers["x-freepik-signature"], "sha256=abc");
+
+      status = 500;
+      await assert.rejects(sink.deliver({ event, body, timestamp: 1700000000 }), /answered HTTP 500/);
+      assert.equal(received[1].headers["x-freepik-signature"], undefined);
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("run a command with the event on stdin and in its environment", async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), "freepik-notify-"));
+    try {
+      const out = path.join(directory, "out");
+      const sink = new CommandSink(`cat > "${out}.json" && echo "$FREEPIK_TASK_ID $FREEPIK_EVENT_TYPE" > "${out}.env"`);
+      await sink.deliver({ event, body, timestamp: 1700000000 });
+      assert.equal(await fs.readFile(`${out}.json`, "utf8"), body);
+      assert.equal(await fs.readFile(`${out}.env`, "utf8"), "task-1 task.completed\n");
+
+      await assert.rejects(
+        new CommandSink("echo 'no route to host' >&2; exit 3").deliver({ event, body, timestamp: 1700000000 }),
+        /Command exited with code 3: no route to host/
+      );
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("task completion notifications", () => {
+  let directory: string;
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "freepik-notify-"));
+  });
+  afterEach(() => fs.rm(directory, { recursive: true, force: true }));
+
+  async function readEvents(file: string): Promise<any[]> {
+    const content = await fs.readFile(file, "utf8").catch(() => "");
+    return content.split("\n").filter(Boolean).map((line) => JSON.parse(line));
+  }
+
+  it("reports a task the server can no longer follow, once", async () => {
+    const notifyFile = path.join(directory, "events.jsonl");
+    const test = await startTestServices({ FREEPIK_NOTIFY_FILE: notifyFile, FREEPIK_WATCH_INTERVAL_SECONDS: "1" });
+    try {
+      const account = test.services.account(test.services.credentialFor({})!);
+      test.services.notifier!.track({
+        kind: "mystic",
+        task_id: "fake-999999",
+        tool: "generate_mystic",
+        requester: { user: "alice" },
+        submitted_at: new Date().toISOString(),
+      });
+      account.watcher.watch("mystic", "fake-999999", "completion");
+
+      await until(async () => (await readEvents(notifyFile)).length > 0, 5000);
+      const [event] = await readEvents(notifyFile);
+      assert.equal(event.type, "task.abandoned");
+      assert.equal(event.task.status, "UNKNOWN");
+      assert.match(event.error, /404|not found/i);
+      assert.equal(account.watcher.size, 0);
+
+      const late = await test.services.notifier!.handle({ kind: "mystic", task_id: "fake-999999", status: "COMPLETED" });
+      assert.equal(late, undefined);
+    } finally {
+      await test.close();
+    }
+  });
+
+  it("saves the images of a finished task and reports them", async () => {
+    const notifyFile = path.join(directory, "events.jsonl");
+    const outputDir = path.join(directory, "output");
+    const test = await startTestServices({
+      FREEPIK_NOTIFY_FILE: notifyFile,
+      FREEPIK_OUTPUT_DIR: outputDir,
+      FREEPIK_WATCH_INTERVAL_SECONDS: "1",
+    });
+    try {
+      const session = createServer(test.services, test.services.credentialFor({})!, "alice");
+      const submitted = await session.callTool("generate_mystic", { prompt: "a lighthouse" });
+      const taskId = submitted.structuredContent?.task?.task_id;
+
+      await until(async () => (await readEvents(notifyFile)).length > 0, 5000);
+      const [event] = await readEvents(notifyFile);
+      assert.equal(event.type, "task.completed");
+      assert.equal(event.task.task_id, taskId);
+      assert.equal(event.submission.prompt, "a lighthouse");
+      assert.equal(event.submission.requester.user, "alice");
+      assert.equal(event.files.length, event.task.generated.length);
+      assert.deepEqual(await fs.readFile(event.files[0].path), renderFixturePng(`${taskId}-1.png`));
+    } finally {
+      await test.close();
+    }
+  });
+});
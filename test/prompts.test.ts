@@ -0,0 +1,100 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "../src/index.js";
+import { getPrompt, listPrompts } from "../src/prompts.js";
+import { TOOLS } from "../src/tools.js";
+import { connectClient, startTestServices } from "./helpers.js";
+
+const EXAMPLE_ARGUMENTS: Record<string, Record<string, string>> = {
+  landing_page_hero: { subject: "remote team collaboration" },
+  icon_set: { concepts: "home, search" },
+  product_shot: { product: "a ceramic mug" },
+  free_vector_alternative: { description: "a mountain landscape" },
+};
+
+function invalidParams(message: RegExp) {
+  return (error: unknown) => {
+    assert.ok(error instanceof McpError);
+    assert.equal(error.code, ErrorCode.InvalidParams);
+    assert.match(error.message, message);
+    return true;
+  };
+}
+
+function render(name: string, args: Record<string, string>): string {
+  return getPrompt(name, args).messages[0].content.text;
+}
+
+describe("prompts", () => {
+  it("are listed with their required arguments", () => {
+    const required = Object.fromEntries(
+      listPrompts().map((prompt) => [
+        prompt.name,
+        prompt.arguments.filter((argument) => argument.required).map((argument) => argument.name),
+      ])
+    );
+    assert.deepEqual(required, {
+      landing_page_hero: ["subject"],
+      icon_set: ["concepts"],
+      product_shot: ["product"],
+      free_vector_alternative: [],
+    });
+  });
+
+  it("only ask for tools and arguments that exist", () => {
+    const tools = new Map(TOOLS.map((tool) => [tool.name, Object.keys(tool.inputSchema.properties ?? {})]));
+    for (const [name, args] of Object.entries(EXAMPLE_ARGUMENTS)) {
+      const lines = render(name, args).split("\n").filter((line) => /^\d+\. /.test(line));
+      assert.ok(lines.length > 0, name);
+      for (const line of lines) {
+        for (const [, tool] of line.matchAll(/[Cc]all `(\w+)`/g)) assert.ok(tools.has(tool), `${name} calls unknown tool ${tool}`);
+        // Arguments spelled `name: value` belong to the first tool the step calls.
+        const first = line.match(/[Cc]all `(\w+)`/)?.[1];
+        for (const [, argument] of line.matchAll(/`(\w+): /g)) {
+          assert.ok(first && tools.get(first)!.includes(argument), `${name} passes unknown argument ${argument} to ${first}`);
+        }
+      }
+    }
+  });
+
+  it("render the arguments they are given", () => {
+    const icons = render("icon_set", { concepts: " home, ,search ", shape: "FILL", color: "blue" });
+    assert.match(icons, /consistent fill icon set for these concepts: home, search\./);
+    assert.match(icons, /`term: "home"`, `shape: "fill"`, `color: "blue"`/);
+    assert.match(icons, /`style: "solid"`/);
+
+    assert.match(render("product_shot", { product: "a mug", scale_factor: "4X" }), /`scale_factor: "4x"`/);
+    assert.match(render("free_vector_alternative", { resource_id: "123" }), /`resource_id: "123"`/);
+  });
+
+  it("refuse unknown prompts and missing or invalid arguments", () => {
+    assert.throws(() => getPrompt("poster"), invalidParams(/Unknown prompt: poster/));
+    assert.throws(() => getPrompt("landing_page_hero", { subject: "  " }), invalidParams(/Missing required argument: subject/));
+    assert.throws(() => getPrompt("icon_set", { concepts: " , " }), invalidParams(/at least one concept/));
+    assert.throws(() => getPrompt("icon_set", { concepts: "home", shape: "3d" }), invalidParams(/shape must be one of: outline, fill/));
+    assert.throws(
+      () => getPrompt("product_shot", { product: "a mug", scale_factor: "3x" }),
+      invalidParams(/scale_factor must be one of/)
+    );
+    assert.throws(() => getPrompt("free_vector_alternative"), invalidParams(/either resource_id or description/));
+  });
+
+  it("are served over MCP", async () => {
+    const test = await startTestServices();
+    try {
+      const client = await connectClient(createServer(test.services, test.services.credentialFor({})!));
+      const { prompts } = await client.listPrompts();
+      assert.equal(prompts.length, listPrompts().length);
+
+      const prompt = await client.getPrompt({ name: "icon_set", arguments: { concepts: "home" } });
+      assert.equal(prompt.messages[0].role, "user");
+      assert.match(prompt.messages[0].content.text as string, /icon set for these concepts: home/);
+
+      await assert.rejects(client.getPrompt({ name: "icon_set", arguments: {} }), invalidParams(/Missing required argument: concepts/));
+      await client.close();
+    } finally {
+      await test.close();
+    }
+  });
+});
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  collectQueueWaits,
+  DEFAULT_RATE_LIMITS,
+  endpointFamily,
+  parseRateLimits,
+  RateLimiter,
+  RateLimits,
+} from "../src/rate-limit.js";
+
+/** Limits with nothing limited except `search` */
+function searchLimits(per_minute: number, burst: number, concurrency: number): RateLimits {
+  const limits = parseRateLimits(undefined);
+  for (const family of Object.keys(limits) as Array<keyof RateLimits>) {
+    limits[family] = { per_minute: 0, burst: 0, concurrency: 0 };
+  }
+  limits.search = { per_minute, burst, concurrency };
+  return limits;
+}
+
+describe("parseRateLimits", () => {
+  it("overrides only the fields given", () => {
+    const limits = parseRateLimits('{"mystic": {"per_minute": 5}, "download": {"concurrency": 0}}');
+    assert.deepEqual(limits.mystic, { ...DEFAULT_RATE_LIMITS.mystic, per_minute: 5 });
+    assert.deepEqual(limits.download, { ...DEFAULT_RATE_LIMITS.download, concurrency: 0 });
+    assert.deepEqual(limits.search, DEFAULT_RATE_LIMITS.search);
+    assert.deepEqual(parseRateLimits(" "), DEFAULT_RATE_LIMITS);
+  });
+
+  it("rejects unknown families, fields and negative values", () => {
+    assert.throws(() => parseRateLimits("{"), /not valid JSON/);
+    assert.throws(() => parseRateLimits("[]"), /must be a JSON object/);
+    assert.throws(() => parseRateLimits('{"video": {}}'), /unknown endpoint family "video"/);
+    assert.throws(() => parseRateLimits('{"search": {"per_hour": 1}}'), /FREEPIK_RATE_LIMITS.search.per_hour/);
+    assert.throws(() => parseRateLimits('{"search": {"burst": -1}}'), /FREEPIK_RATE_LIMITS.search.burst/);
+  });
+});
+
+describe("endpointFamily", () => {
+  it("groups requests by what they do", () => {
+    assert.equal(endpointFamily("GET", "/resources"), "search");
+    assert.equal(endpointFamily("GET", "/icons/12"), "search");
+    assert.equal(endpointFamily("GET", "/resources/12/download"), "download");
+    assert.equal(endpointFamily("GET", "/icons/12/download"), "download");
+    assert.equal(endpointFamily("POST", "/ai/mystic"), "mystic");
+    assert.equal(endpointFamily("POST", "/ai/text-to-icon/preview"), "text_to_icon");
+    assert.equal(endpointFamily("POST", "/ai/beta/remove-background"), "remove_background");
+    assert.equal(endpointFamily("GET", "/ai/mystic/task-1"), "task_status");
+    assert.equal(endpointFamily("get", "/ai/text-to-image/flux-dev"), "task_status");
+  });
+});
+
+describe("RateLimiter", () => {
+  it("queues requests over the concurrency limit in order", async () => {
+    const limiter = new RateLimiter(searchLimits(0, 0, 2));
+    const started: number[] = [];
+    const releases = await Promise.all([limiter.acquire("GET", "/icons"), limiter.acquire("GET", "/icons")]);
+
+    const queued = [3, 4].map(async (id) => {
+      const release = await limiter.acquire("GET", "/icons");
+      started.push(id);
+      return release;
+    });
+    // Other families have their own slots.
+    (await limiter.acquire("GET", "/icons/1/download"))();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    assert.deepEqual(started, []);
+
+    releases[0]();
+    const third = await queued[0];
+    assert.deepEqual(started, [3]);
+    releases[1]();
+    third();
+    (await queued[1])();
+    assert.deepEqual(started, [3, 4]);
+  });
+
+  it("lets a burst through, then spaces requests out and reports the wait", async () => {
+    const limiter = new RateLimiter(searchLimits(600, 2, 0));
+    const { waits } = await collectQueueWaits(async () => {
+      for (let i = 0; i < 3; i++) (await limiter.acquire("GET", "/resources"))();
+    });
+
+    assert.equal(waits.length, 1);
+    assert.equal(waits[0].family, "search");
+    assert.ok(waits[0].waited_ms >= 90, `waited ${waits[0].waited_ms} ms`);
+  });
+
+  it("does not report requests that went straight through", async () => {
+    const limiter = new RateLimiter(DEFAULT_RATE_LIMITS);
+    const { waits } = await collectQueueWaits(async () => (await limiter.acquire("POST", "/ai/mystic"))());
+    assert.deepEqual(waits, []);
+  });
+});
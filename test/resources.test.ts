@@ -0,0 +1,89 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { describe, it } from "node:test";
+import { renderFixturePng } from "../src/fake-server.js";
+import { fetchImageData, MAX_SOURCE_BYTES } from "../src/image-content.js";
+import { createServer } from "../src/index.js";
+import { assetUri, generatedImageUri, parseResourceUri, resourceUri, taskUri } from "../src/resources.js";
+import { connectClient, startTestServices } from "./helpers.js";
+
+describe("resource URIs", () => {
+  it("parse back into what they address", () => {
+    assert.deepEqual(parseResourceUri(taskUri("mystic", "a/b")), { type: "task", kind: "mystic", taskId: "a/b" });
+    assert.deepEqual(parseResourceUri(generatedImageUri("upscaler", "t1", 2)), {
+      type: "generated",
+      kind: "upscaler",
+      taskId: "t1",
+      index: 2,
+    });
+    assert.deepEqual(parseResourceUri(resourceUri("123")), { type: "resource", id: "123" });
+    assert.deepEqual(parseResourceUri(assetUri("/tmp/my file.png")), { type: "asset", path: "/tmp/my file.png" });
+  });
+
+  it("reject anything outside the templates", () => {
+    for (const uri of [
+      "freepik://task/unknown_kind/t1",
+      "freepik://task/mystic/t1/generated/0",
+      "freepik://task/mystic/t1/other/1",
+      "freepik://resource/",
+      "freepik://other/1",
+      "https://example.com/",
+    ]) {
+      assert.equal(parseResourceUri(uri), undefined, uri);
+    }
+  });
+});
+
+describe("reading resources", () => {
+  it("returns a task's status and generated images", async () => {
+    const test = await startTestServices();
+    try {
+      const session = createServer(test.services, test.services.credentialFor({})!);
+      const client = await connectClient(session);
+      const result = await session.callTool("generate_mystic", { prompt: "a fox", wait: true, poll_interval: 1 });
+      const taskId = result.structuredContent?.task?.task_id;
+
+      const listed = (await client.listResources()).resources.map((resource) => resource.uri);
+      assert.ok(listed.includes(taskUri("mystic", taskId)));
+      assert.ok(listed.includes(generatedImageUri("mystic", taskId, 1)));
+
+      const task = await client.readResource({ uri: taskUri("mystic", taskId) });
+      assert.equal(JSON.parse(task.contents[0].text as string).status, "COMPLETED");
+
+      const image = await client.readResource({ uri: generatedImageUri("mystic", taskId, 1) });
+      assert.equal(image.contents[0].mimeType, "image/png");
+      assert.deepEqual(Buffer.from(image.contents[0].blob as string, "base64"), renderFixturePng(`${taskId}-1.png`));
+
+      await assert.rejects(client.readResource({ uri: generatedImageUri("mystic", taskId, 2) }), /has no generated image 2/);
+      await assert.rejects(client.readResource({ uri: assetUri("/etc/passwd") }), /Not a downloaded asset/);
+      await client.close();
+    } finally {
+      await test.close();
+    }
+  });
+
+  it("refuses result images larger than the limit", async () => {
+    const chunk = Buffer.alloc(1024 * 1024);
+    const server = http.createServer((req, res) => {
+      res.writeHead(200, { "Content-Type": "image/png" });
+      let sent = 0;
+      const write = () => {
+        while (sent <= MAX_SOURCE_BYTES && !res.destroyed) {
+          sent += chunk.length;
+          if (!res.write(chunk)) return void res.once("drain", write);
+        }
+        res.end();
+      };
+      write();
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", () => resolve()));
+    try {
+      const { port } = server.address() as AddressInfo;
+      await assert.rejects(fetchImageData(`http://127.0.0.1:${port}/huge.png`), /maxContentLength/);
+    } finally {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { FreepikClient } from "../src/client.js";
+import { renderFixturePng, startFakeFreepikServer } from "../src/fake-server.js";
+import { createServer } from "../src/index.js";
+import { FreepikServices } from "../src/services.js";
+import { TaskTimeoutError } from "../src/tasks.js";
+import { testConfig } from "./helpers.js";
+
+describe("TaskService", () => {
+  let api: Awaited<ReturnType<typeof startFakeFreepikServer>>;
+  let client: FreepikClient;
+
+  before(async () => {
+    api = await startFakeFreepikServer({ pollsUntilComplete: 4 });
+  });
+
+  after(() => api.close());
+
+  /** Submits a Mystic task through a new client, so lookups start from nothing */
+  async function submit(): Promise<string> {
+    client = new FreepikClient({ apiKey: "test-key", baseUrl: api.baseUrl, maxRetries: 0 });
+    return (await client.generateMystic({ prompt: "a lighthouse" })).data.task_id;
+  }
+
+  it("waits for a task, backing off between checks up to the limit", async () => {
+    const taskId = await submit();
+    const polls: Array<{ status: string; elapsedMs: number }> = [];
+    const task = await client.tasks.wait("mystic", taskId, {
+      timeoutMs: 5000,
+      intervalMs: 100,
+      maxIntervalMs: 160,
+      onPoll: ({ status }, elapsedMs) => void polls.push({ status, elapsedMs }),
+    });
+
+    assert.equal(task.status, "COMPLETED");
+    assert.deepEqual(polls.map((poll) => poll.status), ["IN_PROGRESS", "IN_PROGRESS", "IN_PROGRESS", "COMPLETED"]);
+    const gaps = polls.slice(1).map((poll, index) => poll.elapsedMs - polls[index].elapsedMs);
+    // 100 ms, then 150 ms, then 225 ms capped to 160 ms.
+    assert.ok(gaps[0] >= 95 && gaps[1] >= 145 && gaps[2] >= 155, `gaps ${gaps.join(", ")}`);
+    assert.ok(gaps[2] < 220, `gap ${gaps[2]} is over the limit`);
+  });
+
+  it("gives up at the deadline with the last status seen", async () => {
+    const taskId = await submit();
+    const startedAt = Date.now();
+    await assert.rejects(
+      client.tasks.wait("mystic", taskId, { timeoutMs: 250, intervalMs: 100 }),
+      (error: unknown) => {
+        assert.ok(error instanceof TaskTimeoutError);
+        assert.equal(error.task.status, "IN_PROGRESS");
+        assert.match(error.message, /waiting for Mystic task fake-\d+ \(last status: IN_PROGRESS\)/);
+        return true;
+      }
+    );
+    assert.ok(Date.now() - startedAt < 1000);
+  });
+
+  it("finds tasks of an unknown kind and reports status changes", async () => {
+    const taskId = await submit();
+    const other = new FreepikClient({ apiKey: "test-key", baseUrl: api.baseUrl, maxRetries: 0 });
+    const changes: Array<[string, string | undefined]> = [];
+    other.tasks.onStatusChange((task, previous) => changes.push([task.status, previous]));
+
+    assert.equal(other.tasks.kindOf(taskId), undefined);
+    assert.equal((await other.tasks.find(taskId)).kind, "mystic");
+    assert.equal(other.tasks.kindOf(taskId), "mystic");
+    await other.tasks.find(taskId);
+    other.tasks.record({ kind: "mystic", task_id: taskId, status: "COMPLETED" });
+    assert.deepEqual(changes, [
+      ["IN_PROGRESS", undefined],
+      ["COMPLETED", "IN_PROGRESS"],
+    ]);
+
+    await assert.rejects(other.tasks.find("fake-999999"), /was not found for any task kind/);
+    await assert.rejects(other.tasks.find("fake-999999", "mystic"), /returned 404/);
+  });
+});
+
+describe("task tools", () => {
+  let api: Awaited<ReturnType<typeof startFakeFreepikServer>>;
+  let services: FreepikServices;
+
+  before(async () => {
+    api = await startFakeFreepikServer({ pollsUntilComplete: 3 });
+    services = new FreepikServices(testConfig(api.baseUrl));
+    await services.start();
+  });
+
+  after(async () => {
+    await services.close();
+    await api.close();
+  });
+
+  it("report a wait that ran out of time, then finish it with wait_for_task", async () => {
+    const session = createServer(services, services.credentialFor({})!);
+    const started = await session.callTool("generate_flux_dev", {
+      prompt: "a lighthouse",
+      wait: true,
+      timeout_seconds: 1,
+      poll_interval: 1,
+    });
+    const taskId = started.structuredContent?.task?.task_id;
+    assert.equal(started.structuredContent?.timed_out, true);
+    assert.match(started.content[0].text!, new RegExp(`Call wait_for_task with task ID ${taskId}`));
+
+    const finished = await session.callTool("wait_for_task", { task_id: taskId, poll_interval: 1 });
+    assert.equal(finished.structuredContent?.timed_out, false);
+    assert.equal(finished.structuredContent?.task.kind, "flux_dev");
+    assert.equal(finished.structuredContent?.task.status, "COMPLETED");
+    assert.ok(finished.structuredContent?.task.generated.length > 0);
+  });
+
+  it("look tasks up by ID and list them", async () => {
+    const session = createServer(services, services.credentialFor({})!);
+    const image = renderFixturePng("upscale").toString("base64");
+    const taskId = (await session.callTool("upscale_image", { image })).structuredContent?.task?.task_id;
+
+    const found = await session.callTool("get_task", { task_id: taskId });
+    assert.equal(found.structuredContent?.task.kind, "upscaler");
+
+    const listed = (await session.callTool("list_tasks", { kind: "upscaler" })).structuredContent!;
+    assert.ok(listed.tasks.some((task: any) => task.task_id === taskId));
+    assert.deepEqual(listed.failures, []);
+
+    const missing = await session.callTool("get_task", { task_id: "fake-999999" });
+    assert.equal(missing.isError, true);
+    assert.match(missing.content[0].text!, /was not found for any task kind/);
+  });
+});
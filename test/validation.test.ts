@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, it } from "node:test";
+import { createServer } from "../src/index.js";
+import { TOOLS } from "../src/tools.js";
+import { JsonSchema, ToolArgumentsError, validateArguments } from "../src/validation.js";
+import { startTestServices } from "./helpers.js";
+
+const SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    prompt: { type: "string", minLength: 1, maxLength: 10 },
+    count: { type: "integer", minimum: 1, maximum: 4 },
+    size: { type: "string", enum: ["small", "large"] },
+    color: { type: "string", pattern: "^[0-9a-f]{6}$" },
+    styling: {
+      type: "object",
+      properties: { effects: { type: "array", maxItems: 2, items: { type: "string", enum: ["blur", "glow"] } } },
+      additionalProperties: false,
+    },
+  },
+  required: ["prompt"],
+  additionalProperties: false,
+};
+
+function issuesOf(args: unknown): Array<{ name: string; reason: string }> {
+  try {
+    validateArguments("test_tool", SCHEMA, args);
+  } catch (error) {
+    assert.ok(error instanceof ToolArgumentsError);
+    assert.equal(error.tool, "test_tool");
+    return error.issues;
+  }
+  return [];
+}
+
+describe("validateArguments", () => {
+  it("accepts arguments that match the schema", () => {
+    const args = { prompt: "cat", count: 2, size: "small", color: "ff00aa", styling: { effects: ["glow"] } };
+    assert.equal(validateArguments("test_tool", SCHEMA, args), args);
+  });
+
+  it("reports every problem with the argument path", () => {
+    assert.deepEqual(issuesOf({ count: 1.5, size: "huge", color: "red", styling: { effects: ["blur", "fog"] }, extra: 1 }), [
+      { name: "prompt", reason: "is required" },
+      { name: "count", reason: "must be an integer, got 1.5" },
+      { name: "size", reason: "must be one of small, large, got \"huge\"" },
+      { name: "color", reason: "must match ^[0-9a-f]{6}$, got \"red\"" },
+      { name: "styling.effects[1]", reason: "must be one of blur, glow, got \"fog\"" },
+      { name: "extra", reason: "is not a known argument (expected one of: prompt, count, size, color, styling)" },
+    ]);
+  });
+
+  it("checks ranges and lengths", () => {
+    assert.deepEqual(issuesOf({ prompt: "", count: 9, styling: { effects: ["blur", "blur", "blur"] } }), [
+      { name: "prompt", reason: "must not be empty" },
+      { name: "count", reason: "must be at most 4, got 9" },
+      { name: "styling.effects", reason: "must have at most 2 items, got 3" },
+    ]);
+    assert.deepEqual(issuesOf({ prompt: "a very long prompt" }), [{ name: "prompt", reason: "must be at most 10 characters, got 18" }]);
+  });
+
+  it("treats missing arguments as an empty object and rejects anything else", () => {
+    assert.deepEqual(issuesOf(undefined), [{ name: "prompt", reason: "is required" }]);
+    assert.deepEqual(issuesOf(["cat"]), [{ name: "arguments", reason: "must be an object, got an array" }]);
+  });
+
+  it("accepts the documented defaults of every tool", () => {
+    for (const tool of TOOLS) {
+      for (const [name, property] of Object.entries(tool.inputSchema.properties ?? {})) {
+        if (property.default === undefined) continue;
+        const issues: unknown[] = [];
+        try {
+          validateArguments(tool.name, { type: "object", properties: { [name]: property } }, { [name]: property.default });
+        } catch (error) {
+          issues.push(error);
+        }
+        assert.deepEqual(issues, [], `${tool.name}.${name}`);
+      }
+    }
+  });
+});
+
+describe("tool calls with invalid arguments", () => {
+  it("are refused before anything is sent to Freepik", async () => {
+    const test = await startTestServices();
+    try {
+      const session = createServer(test.services, test.services.credentialFor({})!);
+      const result = await session.callTool("generate_mystic", { prompt: "fox", resolution: "8k" });
+      assert.equal(result.isError, true);
+      assert.equal(result._meta?.["freepik/error"]?.code, "invalid_arguments");
+      assert.equal((await session.callTool("list_mystic_tasks", {})).structuredContent?.tasks.length, 0);
+    } finally {
+      await test.close();
+    }
+  });
+
+  it("leave the caller's arguments as sent", async () => {
+    const outputDir = await fs.mkdtemp(path.join(os.tmpdir(), "freepik-output-"));
+    const test = await startTestServices({ FREEPIK_WEBHOOK_PORT: "0", FREEPIK_OUTPUT_DIR: outputDir });
+    try {
+      const session = createServer(test.services, test.services.credentialFor({})!);
+      const icon = { prompt: "a rocket", dry_run: true };
+      await session.callTool("generate_icon", icon);
+      assert.deepEqual(icon, { prompt: "a rocket", dry_run: true });
+
+      const download = { id: "123", format: "svg", save_to: "icons", dry_run: true };
+      await session.callTool("download_icon", download);
+      assert.deepEqual(download, { id: "123", format: "svg", save_to: "icons", dry_run: true });
+    } finally {
+      await test.close();
+      await fs.rm(outputDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { createServer } from "../src/index.js";
+import { WebhookEvent, WebhookReceiver } from "../src/webhooks.js";
+import { startTestServices } from "./helpers.js";
+
+function send(url: string, body: unknown, method = "POST") {
+  return fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    ...(method === "POST" ? { body: typeof body === "string" ? body : JSON.stringify(body) } : {}),
+  });
+}
+
+describe("WebhookReceiver", () => {
+  const receiver = new WebhookReceiver({ port: 0, host: "127.0.0.1", token: "secret-token" });
+  const heard: WebhookEvent[] = [];
+
+  before(async () => {
+    assert.throws(() => receiver.callbackUrl, /not running/);
+    receiver.onEvent((event) => {
+      if (event.task_id === "t2") throw new Error("a broken listener");
+    });
+    receiver.onEvent((event) => heard.push(event));
+    await receiver.start();
+  });
+
+  after(() => receiver.close());
+
+  it("accepts callbacks on the secret path only", async () => {
+    assert.match(receiver.callbackUrl, /^http:\/\/127\.0\.0\.1:\d+\/webhooks\/secret-token$/);
+    const origin = new URL(receiver.callbackUrl).origin;
+
+    assert.equal((await send(`${origin}/webhooks/guess`, { task_id: "t0" })).status, 404);
+    assert.equal((await send(`${origin}/`, { task_id: "t0" })).status, 404);
+    assert.equal((await send(receiver.callbackUrl, undefined, "GET")).status, 405);
+    assert.deepEqual(receiver.eventsFor("t0"), []);
+  });
+
+  it("refuses bodies that are not task callbacks", async () => {
+    const invalid = await send(receiver.callbackUrl, "{not json");
+    assert.equal(invalid.status, 400);
+    assert.deepEqual(await invalid.json(), { message: "Body is not valid JSON" });
+
+    const untagged = await send(receiver.callbackUrl, { status: "COMPLETED" });
+    assert.equal(untagged.status, 400);
+    assert.deepEqual(await untagged.json(), { message: "Payload has no task_id" });
+  });
+
+  it("stores callbacks per task, wrapped in data or not", async () => {
+    const wrapped = { data: { task_id: "t1", status: "IN_PROGRESS" } };
+    assert.equal((await send(receiver.callbackUrl, wrapped)).status, 200);
+    assert.equal((await send(receiver.callbackUrl, { task_id: "t2", task_status: "FAILED" })).status, 200);
+    const done = { task_id: "t1", status: "COMPLETED", generated: ["https://example.com/1.png", 7] };
+    assert.equal((await send(receiver.callbackUrl, done)).status, 200);
+
+    const events = receiver.eventsFor("t1");
+    assert.deepEqual(
+      events.map(({ status, generated }) => ({ status, generated })),
+      [
+        { status: "IN_PROGRESS", generated: undefined },
+        { status: "COMPLETED", generated: ["https://example.com/1.png"] },
+      ]
+    );
+    assert.deepEqual(events[0].payload, wrapped);
+    assert.deepEqual(
+      receiver.latest().map((event) => [event.task_id, event.status]).slice(0, 2),
+      [
+        ["t1", "COMPLETED"],
+        ["t2", "FAILED"],
+      ]
+    );
+    assert.deepEqual(heard.map((event) => event.task_id), ["t1", "t2", "t1"]);
+  });
+
+  it("keeps only the most recent callbacks of a task", async () => {
+    for (let i = 1; i <= 25; i++) {
+      await send(receiver.callbackUrl, { task_id: "busy", status: `STEP_${i}` });
+    }
+    const events = receiver.eventsFor("busy");
+    assert.equal(events.length, 20);
+    assert.equal(events[0].status, "STEP_6");
+    assert.equal(events[19].status, "STEP_25");
+  });
+
+  it("uses the public URL in the callback URL", async () => {
+    const tunnelled = new WebhookReceiver({ port: 0, host: "127.0.0.1", publicUrl: "https://hooks.example.com/", token: "t" });
+    await tunnelled.start();
+    try {
+      assert.equal(tunnelled.callbackUrl, "https://hooks.example.com/webhooks/t");
+    } finally {
+      await tunnelled.close();
+    }
+  });
+});
+
+describe("webhook callbacks in tools", () => {
+  it("default webhook_url to the receiver and update the task they report on", async () => {
+    const test = await startTestServices({ FREEPIK_WEBHOOK_PORT: "0" });
+    try {
+      const session = createServer(test.services, test.services.credentialFor({})!);
+      const started = await session.callTool("generate_icon", { prompt: "a paper plane" });
+      assert.equal(started.isError, undefined);
+      assert.ok(started.content[0].text!.includes(`**Webhook URL**: ${test.services.webhooks!.callbackUrl}`));
+
+      const taskId = started.structuredContent?.task?.task_id;
+      const callback = { task_id: taskId, status: "COMPLETED", generated: ["https://example.com/plane.png"] };
+      assert.equal((await send(test.services.webhooks!.callbackUrl, callback)).status, 200);
+
+      const account = test.services.account(test.services.credentialFor({})!);
+      assert.deepEqual(account.client.tasks.known().find((task) => task.task_id === taskId)?.last, {
+        kind: "text_to_icon",
+        task_id: taskId,
+        status: "COMPLETED",
+        generated: ["https://example.com/plane.png"],
+      });
+      test.services.releaseAccount(account);
+
+      const events = (await session.callTool("get_webhook_events", { task_id: taskId })).structuredContent!;
+      assert.equal(events.callback_url, test.services.webhooks!.callbackUrl);
+      assert.deepEqual(events.events.map((event: WebhookEvent) => event.status), ["COMPLETED"]);
+    } finally {
+      await test.close();
+    }
+  });
+
+  it("require webhook_url for icon generation without a receiver", async () => {
+    const test = await startTestServices();
+    try {
+      const session = createServer(test.services, test.services.credentialFor({})!);
+      const result = await session.callTool("generate_icon", { prompt: "a paper plane" });
+      assert.equal(result._meta?.["freepik/error"].parameter, "webhook_url");
+      assert.match((await session.callTool("get_webhook_events", {})).content[0].text!, /Set FREEPIK_WEBHOOK_PORT/);
+    } finally {
+      await test.close();
+    }
+  });
+});